@@ -5,6 +5,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { Hono } from 'hono'
 import * as path from 'node:path'
+import type { PathPolicy } from '../lib/router/path.js'
+import { api } from '../lib/http/client.js'
 import { createPounceMiddleware, clearRouteTreeCache } from './hono.js'
 
 // Test routes directory (uses minimal-app routes)
@@ -64,6 +66,51 @@ describe('Hono Adapter', () => {
 			expect(res.status).toBe(404)
 		})
 
+		it('should answer 405 with an Allow header for unsupported methods', async () => {
+			const app = new Hono()
+			app.use('*', createPounceMiddleware({ routesDir: TEST_ROUTES_DIR }))
+
+			const res = await app.request('http://localhost/users/42', { method: 'DELETE' })
+			expect(res.status).toBe(405)
+			expect(res.headers.get('Allow')).toBe('GET, HEAD, OPTIONS')
+		})
+
+		it('should serve HEAD from the GET handler without a body', async () => {
+			const app = new Hono()
+			app.use('*', createPounceMiddleware({ routesDir: TEST_ROUTES_DIR }))
+
+			const res = await app.request('http://localhost/users/42', { method: 'HEAD' })
+			expect(res.status).toBe(200)
+			expect(res.headers.get('Content-Type')).toBe('application/json')
+			expect(await res.text()).toBe('')
+		})
+
+		it('should answer OPTIONS automatically', async () => {
+			const app = new Hono()
+			app.use('*', createPounceMiddleware({ routesDir: TEST_ROUTES_DIR }))
+
+			const res = await app.request('http://localhost/', { method: 'OPTIONS' })
+			expect(res.status).toBe(204)
+			expect(res.headers.get('Allow')).toBe('GET, HEAD, OPTIONS')
+		})
+
+		it('should call the preflight hook for CORS preflight requests', async () => {
+			const preflight = vi.fn().mockReturnValue({ 'Access-Control-Allow-Origin': '*' })
+			const app = new Hono()
+			app.use('*', createPounceMiddleware({ routesDir: TEST_ROUTES_DIR, preflight }))
+
+			const res = await app.request('http://localhost/users/42', {
+				method: 'OPTIONS',
+				headers: {
+					Origin: 'http://example.com',
+					'Access-Control-Request-Method': 'GET',
+				},
+			})
+			expect(res.status).toBe(204)
+			expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*')
+			expect(preflight).toHaveBeenCalledWith(expect.any(Request), ['GET', 'HEAD', 'OPTIONS'])
+		})
+
 		it('should cache route tree for same routesDir', async () => {
 			const app = new Hono()
 			app.use('*', createPounceMiddleware({ routesDir: TEST_ROUTES_DIR }))
@@ -75,5 +122,293 @@ describe('Hono Adapter', () => {
 
 			expect(res.status).toBe(200)
 		})
+
+		it('should build a route tree per options for the same routesDir', async () => {
+			const health = async () => ({ status: 200, data: 'ok' })
+			const withRoutes = new Hono()
+			withRoutes.use(
+				'*',
+				createPounceMiddleware({
+					routesDir: TEST_ROUTES_DIR,
+					routes: [{ path: '/health', handlers: { get: health } }],
+				})
+			)
+			const plain = new Hono()
+			plain.use('*', createPounceMiddleware({ routesDir: TEST_ROUTES_DIR }))
+
+			expect(await (await withRoutes.request('http://localhost/health')).json()).toBe('ok')
+			expect((await plain.request('http://localhost/health')).status).toBe(404)
+		})
+	})
+
+	describe('path policy', () => {
+		const request = (url: string, pathPolicy?: PathPolicy, init?: RequestInit) => {
+			const app = new Hono()
+			app.use('*', createPounceMiddleware({ routesDir: TEST_ROUTES_DIR, pathPolicy }))
+			return app.request(url, init)
+		}
+
+		it('should decode params', async () => {
+			const res = await request('http://localhost/users/J%C3%BCrgen')
+			expect((await res.json()).id).toBe('Jürgen')
+		})
+
+		it('should reject encoded slashes and malformed encodings', async () => {
+			expect((await request('http://localhost/users/a%2Fb')).status).toBe(400)
+			expect((await request('http://localhost/users/%E0%A4%A')).status).toBe(400)
+		})
+
+		it('should match both trailing slash forms without a policy', async () => {
+			expect((await request('http://localhost/users/42/')).status).toBe(200)
+		})
+
+		it('should redirect to the trailing slash form of the policy', async () => {
+			const never = await request('http://localhost/users/42/?tab=1', { trailingSlash: 'never' })
+			expect(never.status).toBe(308)
+			expect(never.headers.get('Location')).toBe('/users/42?tab=1')
+
+			const always = await request('http://localhost/users/42', { trailingSlash: 'always' })
+			expect(always.status).toBe(308)
+			expect(always.headers.get('Location')).toBe('/users/42/')
+			expect(
+				(await request('http://localhost/users/42/', { trailingSlash: 'always' })).status
+			).toBe(200)
+			expect((await request('http://localhost/', { trailingSlash: 'always' })).status).toBe(200)
+		})
+
+		it('should redirect to the case of the route files', async () => {
+			const res = await request(
+				'http://localhost/USERS/Mixed',
+				{ caseInsensitive: true },
+				{ method: 'POST' }
+			)
+			expect(res.status).toBe(308)
+			// Params keep their case
+			expect(res.headers.get('Location')).toBe('/users/Mixed')
+			expect((await request('http://localhost/USERS/42')).status).toBe(404)
+		})
+
+		it('should normalize double slashes and dot segments', async () => {
+			const res = await request('http://localhost//users/./x/..//42', { trailingSlash: 'ignore' })
+			expect(res.status).toBe(308)
+			expect(res.headers.get('Location')).toBe('/users/42')
+		})
+
+		it('should not redirect paths no route matches', async () => {
+			const res = await request('http://localhost/missing/', { trailingSlash: 'never' })
+			expect(res.status).toBe(404)
+		})
+	})
+
+	describe('redirects and rewrites', () => {
+		const globRoutes = {
+			'/redirect-routes/redirects.ts': async () => ({
+				redirects: [
+					{ source: '/blog/[slug]', destination: '/posts/[slug]', status: 301 },
+					{ source: '/docs/[...path]', destination: 'https://docs.example.com/[...path]' },
+				],
+				rewrites: [{ source: '/me', destination: '/posts/self' }],
+			}),
+			'/redirect-routes/posts/[slug].ts': async () => ({
+				get: async ({ params }: any) => ({ status: 200, data: params }),
+			}),
+		}
+		const request = (url: string) => {
+			const app = new Hono()
+			app.use('*', createPounceMiddleware({ routesDir: '/redirect-routes', globRoutes }))
+			return app.request(url)
+		}
+
+		it('should redirect before matching routes, keeping the query string', async () => {
+			const res = await request('http://localhost/blog/hello?ref=rss')
+			expect(res.status).toBe(301)
+			expect(res.headers.get('Location')).toBe('/posts/hello?ref=rss')
+
+			const external = await request('http://localhost/docs/guide/intro')
+			expect(external.status).toBe(308)
+			expect(external.headers.get('Location')).toBe('https://docs.example.com/guide/intro')
+		})
+
+		it('should route rewritten requests as their destination', async () => {
+			const res = await request('http://localhost/me')
+			expect(res.status).toBe(200)
+			expect(await res.json()).toEqual({ slug: 'self' })
+		})
+
+		it('should not route redirects.ts itself', async () => {
+			expect((await request('http://localhost/redirects')).status).toBe(404)
+		})
+	})
+
+	describe('i18n', () => {
+		const globRoutes = {
+			'/i18n-routes/users/[id].ts': async () => ({
+				get: async ({ params, locale }: any) => ({ status: 200, data: { ...params, locale } }),
+			}),
+		}
+		const i18n = {
+			locales: ['en', 'fr', 'de'],
+			defaultLocale: 'en',
+			messages: (locale: string) => ({ hello: locale === 'fr' ? 'Bonjour' : 'Hello' }),
+		}
+		const request = (url: string, headers: Record<string, string> = {}) => {
+			const app = new Hono()
+			app.use('*', createPounceMiddleware({ routesDir: '/i18n-routes', globRoutes, i18n }))
+			app.get('*', (c) => c.html('<html><head></head><body></body></html>'))
+			return app.request(url, { headers })
+		}
+
+		it('should route locale-prefixed paths with the locale on the context', async () => {
+			const res = await request('http://localhost/fr/users/42')
+			expect(res.status).toBe(200)
+			expect(await res.json()).toEqual({ id: '42', locale: 'fr' })
+			expect(res.headers.get('Set-Cookie')).toContain('locale=fr')
+
+			const remembered = await request('http://localhost/fr/users/42', { Cookie: 'locale=fr' })
+			expect(remembered.headers.get('Set-Cookie')).toBeNull()
+		})
+
+		it('should serve the default locale without prefix', async () => {
+			const res = await request('http://localhost/users/42')
+			expect(await res.json()).toEqual({ id: '42', locale: 'en' })
+
+			const prefixed = await request('http://localhost/en/users/42?tab=1')
+			expect(prefixed.status).toBe(308)
+			expect(prefixed.headers.get('Location')).toBe('/users/42?tab=1')
+		})
+
+		it('should redirect unprefixed requests to their detected locale', async () => {
+			const res = await request('http://localhost/users/42', {
+				'Accept-Language': 'fr-CA, en;q=0.8',
+			})
+			expect(res.status).toBe(307)
+			expect(res.headers.get('Location')).toBe('/fr/users/42')
+			expect(res.headers.get('Vary')).toBe('Cookie, Accept-Language')
+
+			const cookie = await request('http://localhost/users/42', {
+				Cookie: 'locale=de',
+				'Accept-Language': 'fr',
+			})
+			expect(cookie.headers.get('Location')).toBe('/de/users/42')
+		})
+
+		it('should apply redirects and rewrites to the path without locale prefix', async () => {
+			const app = new Hono()
+			app.use(
+				'*',
+				createPounceMiddleware({
+					routesDir: '/i18n-redirect-routes',
+					globRoutes: {
+						'/i18n-redirect-routes/redirects.ts': async () => ({
+							redirects: [
+								{ source: '/old/[id]', destination: '/users/[id]' },
+								{ source: '/german', destination: '/de/users/1' },
+							],
+							rewrites: [{ source: '/me', destination: '/users/self' }],
+						}),
+						'/i18n-redirect-routes/users/[id].ts': globRoutes['/i18n-routes/users/[id].ts'],
+					},
+					i18n,
+				})
+			)
+
+			const redirected = await app.request('http://localhost/fr/old/42?tab=1')
+			expect(redirected.status).toBe(308)
+			expect(redirected.headers.get('Location')).toBe('/fr/users/42?tab=1')
+			const unprefixed = await app.request('http://localhost/old/42')
+			expect(unprefixed.headers.get('Location')).toBe('/users/42')
+			const localized = await app.request('http://localhost/fr/german')
+			expect(localized.headers.get('Location')).toBe('/de/users/1')
+
+			const rewritten = await app.request('http://localhost/fr/me')
+			expect(await rewritten.json()).toEqual({ id: 'self', locale: 'fr' })
+		})
+
+		it('should inject the locale and its messages into pages', async () => {
+			const res = await request('http://localhost/fr/users/42', { Accept: 'text/html' })
+			const html = await res.text()
+			expect(html).toContain('<script type="application/json" id="pounce-locale">')
+			expect(html).toContain('"hello":"Bonjour"')
+			expect(res.headers.get('Set-Cookie')).toContain('locale=fr')
+		})
+	})
+
+	describe('hosts', () => {
+		const globRoutes = {
+			'/hosts/main/index.ts': async () => ({
+				get: async () => ({ status: 200, data: { tree: 'main' } }),
+			}),
+			'/hosts/admin/index.ts': async () => ({
+				get: async () => ({ status: 200, data: { tree: 'admin' } }),
+			}),
+			'/hosts/tenant/users/[id].ts': async () => ({
+				get: async ({ params }: any) => ({ status: 200, data: params }),
+			}),
+		}
+		const app = () => {
+			const app = new Hono()
+			app.use(
+				'*',
+				createPounceMiddleware({
+					routesDir: '/hosts/main',
+					globRoutes,
+					hosts: {
+						'[tenant].example.com': '/hosts/tenant',
+						'admin.example.com': '/hosts/admin',
+					},
+				})
+			)
+			return app
+		}
+
+		it('should serve each host from the route tree of its pattern', async () => {
+			expect(await (await app().request('http://admin.example.com/')).json()).toEqual({
+				tree: 'admin',
+			})
+			expect(await (await app().request('http://localhost/')).json()).toEqual({ tree: 'main' })
+			expect((await app().request('http://acme.example.com/')).status).toBe(404)
+		})
+
+		it('should capture host params into the route params', async () => {
+			const res = await app().request('http://acme.example.com/users/42')
+			expect(await res.json()).toEqual({ tenant: 'acme', id: '42' })
+		})
+
+		it('should dispatch api() calls during SSR to the tree of the host', async () => {
+			const tenant = app()
+			tenant.get('/dashboard', async (c) => c.json(await api('/users/7').get()))
+			const res = await tenant.request('http://acme.example.com/dashboard')
+			expect(await res.json()).toEqual({ tenant: 'acme', id: '7' })
+		})
+	})
+
+	describe('mounts', () => {
+		it('should serve mounted routes and dispatch api() calls to them during SSR', async () => {
+			const app = new Hono()
+			app.use(
+				'*',
+				createPounceMiddleware({
+					routesDir: '/mounted-main',
+					globRoutes: {},
+					mounts: [
+						{
+							prefix: '/billing',
+							routesDir: '/billing/routes',
+							globRoutes: {
+								'/billing/routes/invoices/[id].ts': async () => ({
+									get: async ({ params }: any) => ({ status: 200, data: params }),
+								}),
+							},
+						},
+					],
+				})
+			)
+			app.get('/dashboard', async (c) => c.json(await api('/billing/invoices/7').get()))
+
+			expect(await (await app.request('http://localhost/billing/invoices/42')).json()).toEqual({
+				id: '42',
+			})
+			expect(await (await app.request('http://localhost/dashboard')).json()).toEqual({ id: '7' })
+		})
 	})
 })
@@ -5,11 +5,44 @@
 
 import type { Context, MiddlewareHandler } from 'hono'
 import { Hono } from 'hono'
-import { runMiddlewares } from '../lib/http/core.js'
+import { runMiddlewares, runPageMiddlewares } from '../lib/http/core.js'
+import { cookieHeaders, createCookies, type CookieConfig } from '../lib/http/cookies.js'
 import { enableSSR } from '../lib/http/client.js'
-import { buildRouteTree, matchRoute, type RouteTreeNode } from '../lib/router/index.js'
-import { getCollectedSSRResponses, injectApiResponses, withSSRContext } from '../lib/ssr/utils.js'
+import {
+	buildRouteTree,
+	canonicalPath,
+	getAllowedMethods,
+	matchRoute,
+	parsePath,
+	resolveRedirect,
+	rewriteRoutePath,
+	updateRouteTree,
+	type PathPolicy,
+	type RouteDiagnostic,
+	type RouteExportsManifest,
+	type RouteFileEvent,
+	type RouteMount,
+	type RouteTreeNode,
+	type VirtualRoute,
+} from '../lib/router/index.js'
+import { globRoutesIn, resolveHost, type HostRoutes } from '../lib/router/hosts.js'
+import {
+	getCollectedSSRResponses,
+	injectApiResponses,
+	injectSSRData,
+	withSSRContext,
+} from '../lib/ssr/utils.js'
 import { setRouteRegistry } from '../lib/http/client.js'
+import { getContext } from '../lib/http/context.js'
+import {
+	detectLocale,
+	localeCookie,
+	localizePath,
+	LOCALE_DATA_ID,
+	splitLocalePath,
+	type I18nOptions,
+	type LocaleState,
+} from '../lib/i18n/locale.js'
 
 export interface PounceMiddlewareOptions {
 	/** Path to routes directory. Defaults to './routes' */
@@ -18,38 +51,257 @@ export interface PounceMiddlewareOptions {
 	importFn?: (path: string) => Promise<any>
 	/** Glob routes object for environments without filesystem access (e.g. production) */
 	globRoutes?: Record<string, () => Promise<any>>
+	/** Glob of param matcher modules, to go with `globRoutes` (see `BuildRouteTreeOptions`) */
+	globParams?: Record<string, () => Promise<any>>
+	/** Fail on route tree errors instead of logging them (see `BuildRouteTreeOptions.strict`) */
+	strict?: boolean
+	/** Receive route tree diagnostics instead of having them logged */
+	onDiagnostics?: (diagnostics: RouteDiagnostic[]) => void
+	/** Import route modules on first use (see `BuildRouteTreeOptions.lazy`) */
+	lazy?: boolean
+	/** Export names of route files, for lazy loading with `globRoutes` */
+	routeExports?: RouteExportsManifest
+	/**
+	 * CORS preflight hook, called for automatic OPTIONS answers carrying
+	 * `Origin` and `Access-Control-Request-Method`. Returns headers to add to
+	 * the 204 response, or a Response to send instead.
+	 */
+	preflight?: PreflightHook
+	/**
+	 * Canonical form of route paths (trailing slash, case), other forms being
+	 * redirected with a 308. Without one, both trailing slash forms match.
+	 */
+	pathPolicy?: PathPolicy
+	/**
+	 * Locale-prefixed routing: `/fr/users/42` is routed as `/users/42` with the
+	 * `fr` locale, unprefixed requests being redirected to their detected locale
+	 */
+	i18n?: I18nOptions
+	/**
+	 * Routes directory by host pattern (e.g. `'[tenant].example.com'`), each served
+	 * by its own route tree. Hosts no pattern matches are served from `routesDir`.
+	 */
+	hosts?: HostRoutes
+	/**
+	 * Route sources mounted under URL prefixes in the tree of `routesDir`
+	 * (see `BuildRouteTreeOptions.mounts`)
+	 */
+	mounts?: RouteMount[]
+	/** Routes contributed by code, e.g. by plugins (see `addRoute`) */
+	routes?: VirtualRoute[]
+	/** Secrets of signed and encrypted cookies (see `ctx.cookies`) */
+	cookies?: CookieConfig
 }
 
-// Cached route tree (lazily initialized per routesDir)
-const routeTreeCache = new Map<string, RouteTreeNode>()
+/**
+ * CORS preflight hook
+ * @param request The OPTIONS request
+ * @param allowedMethods Methods the requested path answers to
+ */
+export type PreflightHook = (
+	request: Request,
+	allowedMethods: string[]
+) => Record<string, string> | Response | undefined | Promise<Record<string, string> | Response | undefined>
+
+// Cached route trees (lazily initialized per routesDir), by the options they are built with
+const routeTreeCache = new Map<string, Map<PounceMiddlewareOptions | undefined, Promise<RouteTreeNode>>>()
+
+/**
+ * Get the route tree of a routes directory, built on first call with the given
+ * options. Calls with the same options object share this instance, like the
+ * middleware and the SSR handler of `pounce dev`; other options get their own tree.
+ *
+ * @param hostname Request hostname, selecting the routes directory of its pattern in `hosts`
+ */
+export function getRouteTree(
+	options?: PounceMiddlewareOptions,
+	hostname?: string
+): Promise<RouteTreeNode> {
+	const host = options?.hosts && hostname ? resolveHost(options.hosts, hostname) : undefined
+	const routesDir = host?.routesDir ?? options?.routesDir ?? './routes'
+	// Host trees sharing one glob only take the files of their directory
+	const globRoutes =
+		options?.globRoutes && options.hosts ? globRoutesIn(options.globRoutes, routesDir) : options?.globRoutes
+	let trees = routeTreeCache.get(routesDir)
+	if (!trees) {
+		trees = new Map()
+		routeTreeCache.set(routesDir, trees)
+	}
+	let routeTree = trees.get(options)
+	if (!routeTree) {
+		const building = buildRouteTree(routesDir, options?.importFn, globRoutes, {
+			globParams: options?.globParams,
+			strict: options?.strict,
+			onDiagnostics: options?.onDiagnostics,
+			lazy: options?.lazy,
+			routeExports: options?.routeExports,
+			// Mounts and virtual routes belong to the tree of routesDir, not to host trees
+			mounts: host ? undefined : options?.mounts,
+			routes: host ? undefined : options?.routes,
+		})
+		// A failed build (strict mode) is attempted again on next request
+		building.catch(() => forgetRouteTree(routesDir, options, building))
+		trees.set(options, building)
+		routeTree = building
+	}
+	return routeTree
+}
+
+function forgetRouteTree(
+	routesDir: string,
+	options: PounceMiddlewareOptions | undefined,
+	routeTree: Promise<RouteTreeNode>
+) {
+	const trees = routeTreeCache.get(routesDir)
+	if (trees?.get(options) === routeTree) trees.delete(options)
+}
+
+/**
+ * Redirect a request matching a route to the canonical form of its path, if it differs.
+ * Pages are matched through GET, whatever the request method.
+ *
+ * @param path Request path without its locale prefix
+ * @param prefix Locale prefix of the request path, kept in the redirect (e.g. `/fr`)
+ */
+function redirectToCanonical(
+	url: URL,
+	routeTree: RouteTreeNode,
+	method: string,
+	policy: PathPolicy,
+	path = url.pathname,
+	prefix = ''
+): Response | undefined {
+	const parsed = parsePath(path)
+	if (!parsed) return undefined
+	const options = { caseInsensitive: policy.caseInsensitive }
+	const match =
+		matchRoute(path, routeTree, method, options) ?? matchRoute(path, routeTree, 'GET', options)
+	if (!match) return undefined
+	const canonical = canonicalPath(parsed, policy, match.segments)
+	if (canonical === path) return undefined
+	const location = prefix && canonical === '/' ? prefix : prefix + canonical
+	return new Response(null, { status: 308, headers: { Location: location + url.search } })
+}
+
+/**
+ * Locale of a request, its path without locale prefix and the cookie remembering
+ * an explicitly requested locale. Requests matching a route at another path than
+ * their localized one are redirected instead: 307 when the locale was detected,
+ * 308 when the prefix is not the canonical one (e.g. that of the default locale).
+ */
+function resolveLocale(
+	request: Request,
+	url: URL,
+	routeTree: RouteTreeNode,
+	method: string,
+	i18n: I18nOptions
+): Response | { state: LocaleState; path: string; prefix: string; cookie?: string } {
+	const { locale: prefixed, path } = splitLocalePath(url.pathname, i18n.locales)
+	const locale = prefixed ?? detectLocale(request, i18n)
+	const state: LocaleState = {
+		locale,
+		locales: i18n.locales,
+		defaultLocale: i18n.defaultLocale,
+		prefixDefaultLocale: !!i18n.prefixDefaultLocale,
+	}
+	const cookie = prefixed ? localeCookie(locale, i18n, request) : undefined
+	const localized = localizePath(path, locale, state)
+	if (localized !== url.pathname) {
+		const routePath = rewriteRoutePath(routeTree, path)
+		if (matchRoute(routePath, routeTree, method) ?? matchRoute(routePath, routeTree, 'GET')) {
+			const headers = new Headers({ Location: localized + url.search })
+			if (cookie) headers.append('Set-Cookie', cookie)
+			if (!prefixed) headers.set('Vary', 'Cookie, Accept-Language')
+			return new Response(null, { status: prefixed ? 308 : 307, headers })
+		}
+	}
+	const prefix = localized === path ? '' : localized.slice(0, locale.length + 1)
+	return { state, path, prefix, cookie }
+}
+
+/**
+ * Destination of a redirect in the locale of the request: local paths naming no
+ * locale are prefixed with it
+ */
+function localizeLocation(location: string, locale: string, i18n: I18nOptions): string {
+	if (!location.startsWith('/') || location.startsWith('//')) return location
+	const [, path, rest] = /^([^?#]*)(.*)$/.exec(location)!
+	if (splitLocalePath(path, i18n.locales).locale) return location
+	const options = { defaultLocale: i18n.defaultLocale, prefixDefaultLocale: !!i18n.prefixDefaultLocale }
+	return localizePath(path, locale, options) + rest
+}
+
+/**
+ * Response with a `Set-Cookie` header added
+ */
+function withCookie(response: Response, cookie: string): Response {
+	const headers = new Headers(response.headers)
+	headers.append('Set-Cookie', cookie)
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	})
+}
+
+/**
+ * Answer an OPTIONS request that has no explicit `options` handler
+ */
+async function answerOptions(
+	request: Request,
+	allowed: string[],
+	preflight?: PreflightHook
+): Promise<Response> {
+	const headers: Record<string, string> = { Allow: allowed.join(', ') }
+	const isPreflight =
+		request.headers.has('Origin') && request.headers.has('Access-Control-Request-Method')
+
+	if (isPreflight && preflight) {
+		const result = await preflight(request, allowed)
+		if (result instanceof Response) return result
+		Object.assign(headers, result)
+	}
+
+	return new Response(null, { status: 204, headers })
+}
 
 /**
  * Create Hono middleware that handles pounce-board routes
  */
 export function createPounceMiddleware(options?: PounceMiddlewareOptions): MiddlewareHandler {
-	const routesDir = options?.routesDir ?? './routes'
-
 	return async (c: Context, next: () => Promise<void>): Promise<Response | void> => {
 		const url = new URL(c.req.url)
 		const origin = `${url.protocol}//${url.host}`
-		
-		return (await withSSRContext(async () => {
-			// Build route tree once (lazy init per routesDir)
-			let routeTree = routeTreeCache.get(routesDir)
-			if (!routeTree) {
-				routeTree = await buildRouteTree(routesDir, options?.importFn, options?.globRoutes)
-				routeTreeCache.set(routesDir, routeTree)
-			}
+		const { hostname } = url
+		// Remembers the locale of requests with a locale prefix
+		let cookie: string | undefined
+
+		const response = (await withSSRContext(async () => {
+			// Build route tree once (lazy init per routesDir), that of the request host with `hosts`
+			const routeTree = await getRouteTree(options, hostname)
+			const hostParams = options?.hosts ? resolveHost(options.hosts, hostname)?.params : undefined
+			const scope = getContext()!
+			scope.hostParams = hostParams
+			const cookies = await createCookies(c.req.raw, options?.cookies)
+			scope.cookies = cookies
+
+			const i18n = options?.i18n
+			// Path a URL path is routed as: locale prefix stripped, rewrites applied
+			const toRoutePath = (path: string) =>
+				rewriteRoutePath(routeTree, i18n ? splitLocalePath(path, i18n.locales).path : path)
 
 			// Set route registry for SSR dispatch
 			setRouteRegistry({
 				match: (path, method) => {
-					const m = matchRoute(path, routeTree!, method)
+					const routePath = toRoutePath(path)
+					const m = matchRoute(routePath, routeTree, method)
 					if (m && m.handler) {
 						return {
 							handler: m.handler,
 							middlewareStack: m.middlewareStack,
-							params: m.params,
+							params: { ...hostParams, ...m.params },
+							config: m.config,
+							routePath,
 						}
 					}
 					return null
@@ -59,7 +311,57 @@ export function createPounceMiddleware(options?: PounceMiddlewareOptions): Middl
 			// Match the request path
 			const method = c.req.method.toUpperCase()
 			const url = new URL(c.req.url)
-			const match = matchRoute(url.pathname, routeTree, method)
+			// Encoded slashes and malformed encodings are not guessed at
+			const parsed = parsePath(url.pathname)
+			if (!parsed) {
+				return new Response(JSON.stringify({ error: 'Bad Request' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				})
+			}
+			// Rules of redirects.ts come first, matched without the locale prefix that their local
+			// destinations keep; rewritten requests are routed as their destination
+			const prefixed = i18n ? splitLocalePath(url.pathname, i18n.locales) : undefined
+			const redirect = resolveRedirect(
+				routeTree.redirects,
+				prefixed?.locale ? (parsePath(prefixed.path) ?? parsed) : parsed
+			)
+			if (redirect) {
+				const { status } = redirect
+				const location =
+					i18n && prefixed?.locale
+						? localizeLocation(redirect.location, prefixed.locale, i18n)
+						: redirect.location
+				const target = location.includes('?') ? location : location + url.search
+				return new Response(null, { status, headers: { Location: target } })
+			}
+			// The locale prefix is stripped before matching, and kept by path policy redirects
+			let localePath = url.pathname
+			let localePrefix = ''
+			let localeState: LocaleState | undefined
+			if (i18n) {
+				const resolved = resolveLocale(c.req.raw, url, routeTree, method, i18n)
+				if (resolved instanceof Response) return resolved
+				localePath = resolved.path
+				localePrefix = resolved.prefix
+				localeState = resolved.state
+				cookie = resolved.cookie
+			}
+			if (options?.pathPolicy) {
+				const canonical = redirectToCanonical(
+					url,
+					routeTree,
+					method,
+					options.pathPolicy,
+					localePath,
+					localePrefix
+				)
+				if (canonical) return canonical
+			}
+			const routePath = rewriteRoutePath(routeTree, localePath)
+			scope.routePath = routePath
+			scope.locale = localeState
+			const match = matchRoute(routePath, routeTree, method)
 
 			const accept = c.req.header('Accept') || ''
 			const prefersHtml = accept.includes('text/html')
@@ -74,7 +376,11 @@ export function createPounceMiddleware(options?: PounceMiddlewareOptions): Middl
 					// Build request context
 					const ctx = {
 						request: c.req.raw,
-						params: match.params,
+						params: { ...hostParams, ...match.params },
+						config: match.config,
+						locale: localeState?.locale,
+						routePath,
+						cookies,
 					}
 
 					// Execute middleware stack and handler
@@ -85,9 +391,56 @@ export function createPounceMiddleware(options?: PounceMiddlewareOptions): Middl
 				}
 			}
 
+			const wantsPage = prefersHtml && (method === 'GET' || method === 'HEAD')
+			if (!match?.handler && !wantsPage) {
+				// HEAD is served from the GET handler, without a body
+				if (method === 'HEAD') {
+					const getMatch = matchRoute(routePath, routeTree, 'GET')
+					if (getMatch?.handler) {
+						const ctx = {
+							request: c.req.raw,
+							params: { ...hostParams, ...getMatch.params },
+							config: getMatch.config,
+							locale: localeState?.locale,
+							routePath,
+							cookies,
+						}
+						const response = await runMiddlewares(getMatch.middlewareStack, ctx, getMatch.handler)
+						return new Response(null, {
+							status: response.status,
+							statusText: response.statusText,
+							headers: response.headers,
+						})
+					}
+				}
+
+				const allowed = getAllowedMethods(routePath, routeTree)
+				if (method === 'OPTIONS' && allowed.length > 0) {
+					return answerOptions(c.req.raw, allowed, options?.preflight)
+				}
+				// The path exists but not for this method
+				if (allowed.length > 0 && !allowed.includes(method)) {
+					return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+						status: 405,
+						headers: {
+							'Content-Type': 'application/json',
+							Allow: allowed.join(', '),
+						},
+					})
+				}
+			}
+
 			// No route matched - proceed to next Hono handler
 			// Enable SSR for potential HTML rendering downstream
 			enableSSR()
+			// Pages hydrate with the locale and its messages
+			if (localeState && wantsPage) {
+				localeState.messages = await i18n?.messages?.(localeState.locale)
+				injectSSRData(LOCALE_DATA_ID, localeState)
+			}
+			// Pages are rendered with what their middleware give them, e.g. the session
+			const renderedPage =
+				wantsPage && match ? await runPageMiddlewares(match.middlewareStack, scope) : undefined
 			await next()
 
 // Handle SSR injection for HTML responses
@@ -153,7 +506,16 @@ export function createPounceMiddleware(options?: PounceMiddlewareOptions): Middl
 				// Content-Length needs to be recalculated or removed
 				c.res.headers.delete('Content-Length')
 			}
+			await renderedPage?.()
+			// Cookies set by the handlers dispatched while rendering, and by page middleware
+			const present = c.res.headers.getSetCookie()
+			for (const header of await cookieHeaders(cookies)) {
+				if (!present.includes(header)) c.header('Set-Cookie', header, { append: true })
+			}
 		}, origin)).result
+		if (!cookie) return response
+		if (response) return withCookie(response, cookie)
+		c.header('Set-Cookie', cookie, { append: true })
 	}
 }
 
@@ -177,3 +539,31 @@ export function createPounceApp(options?: PounceMiddlewareOptions): Hono {
 export function clearRouteTreeCache(): void {
 	routeTreeCache.clear()
 }
+
+/**
+ * Apply a file change to the cached route trees of a routes directory, instead
+ * of clearing the cache: only the changed file is imported again (see
+ * `updateRouteTree`). Requests wait for the update to complete.
+ *
+ * The tree is dropped, to be rebuilt on next request, when it cannot be
+ * updated in place or when the update fails (e.g. with errors in strict mode).
+ */
+export async function updateRouteTreeCache(
+	routesDir: string,
+	event: RouteFileEvent,
+	filePath: string
+): Promise<void> {
+	const trees = routeTreeCache.get(routesDir)
+	if (!trees) return
+
+	const updates = [...trees].map(([options, cached]) => {
+		const updated = cached.then(async (routeTree) => {
+			if (!(await updateRouteTree(routeTree, event, filePath))) forgetRouteTree(routesDir, options, updated)
+			return routeTree
+		})
+		updated.catch(() => forgetRouteTree(routesDir, options, updated))
+		trees.set(options, updated)
+		return updated
+	})
+	await Promise.all(updates)
+}
@@ -2,7 +2,11 @@
 import { build as viteBuild } from 'vite'
 import * as path from 'node:path'
 import * as fs from 'node:fs'
+import { builtinModules } from 'node:module'
 import { fileURLToPath } from 'node:url'
+import { scanRouteExports } from '../lib/router/lazy.js'
+import { writeRouteManifest } from '../lib/router/manifest.js'
+import { loadRouteTree } from './routes.js'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -10,16 +14,24 @@ export interface BuildOptions {
 	routesDir?: string
 	outDir?: string
 	entryHtml?: string
+	/** Route manifest typing `api()` calls. Default: `pounce-routes.d.ts` next to the routes directory */
+	manifestFile?: string
 }
 
 export async function runBuild(options: BuildOptions = {}) {
 	const root = process.cwd()
 	const routesDir = options.routesDir ?? './routes'
 	const outDir = options.outDir ?? './dist'
-	const entryHtml = options.entryHtml ?? './index.html'
+	// User-defined param matchers live next to the routes directory
+	const paramsDir = path.posix.join(path.posix.dirname(routesDir.replace(/^\.\//, '')), 'params')
 
 	console.log('🚧 Starting Pounce-Board build...')
 
+	// 0. Route manifest, typing api() calls against the routes being built
+	const manifestFile = options.manifestFile ?? path.join(path.dirname(routesDir), 'pounce-routes.d.ts')
+	await writeRouteManifest(await loadRouteTree(routesDir), manifestFile)
+	process.stdout.write(`\n🧾 Route manifest: ${manifestFile}\n`)
+
 	// 1. Client Build
 	console.log('\n📦 Building Client...')
 	await viteBuild({
@@ -41,6 +53,9 @@ export async function runBuild(options: BuildOptions = {}) {
 
 	// 2. Server Build
 	console.log('\n📦 Building Server...')
+
+	// Route exports are scanned now so that the server imports route modules on demand
+	const routeExports = await scanRouteExports(path.resolve(root, routesDir))
 	
 	const serverEntryContent = `
 import { Hono } from 'hono'
@@ -48,8 +63,13 @@ import { serve } from '@hono/node-server'
 import { serveStatic } from '@hono/node-server/serve-static'
 import { 
     createPounceMiddleware, 
-    buildRouteTree, 
-    matchRoute,
+    getRouteTree, 
+    loadRoute,
+    loadNotFound,
+    rewriteRoutePath,
+    getContext,
+    renderPage,
+    injectHead,
     withSSRContext, 
     injectApiResponses, 
     getCollectedSSRResponses,
@@ -63,6 +83,10 @@ import * as path from 'node:path'
 
 // Glob all routes
 const routes = import.meta.glob('/${routesDir.replace(/^\.\//, '')}/**')
+// Glob param matchers
+const params = import.meta.glob('/${paramsDir}/*.{ts,js}')
+// Exports of each route file, for lazy loading
+const routeExports = ${JSON.stringify(routeExports)}
 
 const app = new Hono()
 
@@ -70,11 +94,17 @@ const app = new Hono()
 // Serve static assets - Moved to end
 // app.use('/*', serveStatic({ root: './dist/client' }))
 
-// Pounce middleware for API routes and context setup
-app.use('*', createPounceMiddleware({
+// Route tree options, shared by the middleware and the SSR handler
+const pounceOptions = {
 	globRoutes: routes,
+	globParams: params,
+	lazy: true,
+	routeExports,
 	routesDir: '${routesDir}'
-}))
+}
+
+// Pounce middleware for API routes and context setup
+app.use('*', createPounceMiddleware(pounceOptions))
 
 // SSR Handler
 app.get('*', async (c, next) => {
@@ -98,45 +128,44 @@ app.get('*', async (c, next) => {
 		return c.text('index.html not found', 404)
 	}
 
-	// Build route tree (cached internally by adapter, but we need it here)
-	// We can pass the same globRoutes
-	const routeTree = await buildRouteTree('${routesDir}', undefined, routes)
-	const match = matchRoute(url.pathname, routeTree, 'GET')
-
-	if (match && match.component) {
-		if (typeof match.component !== 'function') {
-			console.warn(\`Skipping SSR: component is not a function\`)
-			return c.html(template)
-		}
-
-		// Render component
-		const renderedHtml = await withSSR(async () => {
-			let app = h(match.component, { params: match.params })
-			if (match.layouts) {
-				for (let i = match.layouts.length - 1; i >= 0; i--) {
-					const layout = match.layouts[i]
-					app = h(layout, { params: match.params }, app)
-				}
-			}
-
-			return await renderToStringAsync(app, undefined, {
-				collectPromises: flushSSRPromises
-			})
-		})
-
-		template = template.replace(/<div id="root">\\s*<\\/div>/, \`<div id="root">\${renderedHtml}</div>\`)
+	// Route tree built once by the adapter, and shared with the middleware
+	const routeTree = await getRouteTree(pounceOptions)
+	// Pages are routed as the middleware did: locale prefix stripped, rewrites of redirects.ts applied
+	const routePath = getContext()?.routePath ?? rewriteRoutePath(routeTree, url.pathname)
+	const match = await loadRoute(routePath, routeTree, 'GET')
+	const renderer = {
+		h,
+		withSSR,
+		renderToStringAsync,
+		collectPromises: flushSSRPromises,
+		onError: console.error,
+	}
+	const inject = ({ html, meta }) =>
+		injectHead(
+			template.replace(/<div id="root">\\s*<\\/div>/, \`<div id="root">\${html}</div>\`),
+			meta
+		)
+
+	// If no page matches, try static files, then the nearest not-found page
+	if (!match || !match.component) {
+		await next()
+		if (match || c.res.status !== 404) return
+		const page = await renderPage(renderer, null, await loadNotFound(routePath, routeTree))
+		if (page) c.res = c.html(inject(page), page.status)
+		return
 	}
 
-    // If no match/component, try static files
-    if (!match || !match.component) {
-        return next()
-    }
+	// Render the page with layouts, or its error boundary
+	const page = await renderPage(renderer, match)
+	if (!page) return c.html(template)
 
 	// Get collected SSR data (from middleware context) handled by createPounceMiddleware
 	// const ssrData = getCollectedSSRResponses()
 	// const finalHtml = injectApiResponses(template, ssrData)
 
-	return c.html(template)
+	// Route config: successful pages are cached like API responses
+	const cache = page.status === 200 ? match.config?.cache : undefined
+	return c.html(inject(page), page.status, cache ? { 'Cache-Control': cache } : {})
 })
 
 // Serve static assets (fallback)
@@ -165,7 +194,7 @@ serve({
                     external: [
                         /^node:/,
                         'jsdom',
-                        ...require('module').builtinModules
+                        ...builtinModules
                     ]
 				}
 			},
@@ -187,6 +216,3 @@ serve({
 	console.log('\n✅ Build complete!')
 }
 
-// Need require for builtinModules check in ESM...
-import { createRequire } from 'module';
-const require = createRequire(import.meta.url);
@@ -1,21 +1,52 @@
 import { getRequestListener } from '@hono/node-server'
 import { Hono } from 'hono'
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
 import * as fs from 'node:fs'
 import { createServer } from 'node:http'
 import * as path from 'node:path'
 import { createServer as createViteServer } from 'vite'
-import { createPounceMiddleware, clearRouteTreeCache } from '../adapters/hono.js'
+import type { HostRoutes } from '../lib/router/hosts.js'
+import {
+	createPounceMiddleware,
+	getRouteTree,
+	updateRouteTreeCache,
+	type PounceMiddlewareOptions,
+} from '../adapters/hono.js'
 import { api, enableSSR } from '../lib/http/client.js'
+import { getContext } from '../lib/http/context.js'
 import { fileURLToPath } from 'node:url'
-import { matchRoute, buildRouteTree } from '../lib/router/index.js'
+import { format } from 'node:util'
+import {
+	loadRoute,
+	loadNotFound,
+	rewriteRoutePath,
+	formatRouteDiagnostics,
+	RouteBuildError,
+	type RouteDiagnostic,
+	type RouteMount,
+} from '../lib/router/index.js'
+import { writeRouteManifest } from '../lib/router/manifest.js'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
+// Problems met while rendering pages (see `PageRenderer.onError`)
+function reportRenderError(message: string, error?: unknown) {
+	process.stderr.write(`${error === undefined ? message : format(message, error)}\n`)
+}
+
 export interface DevServerOptions {
 	port?: number
 	hmrPort?: number
 	routesDir?: string
 	entryHtml?: string
+	/** Refuse to serve routes while the route tree has errors */
+	strict?: boolean
+	/** Routes directory by host pattern (see `PounceMiddlewareOptions.hosts`) */
+	hosts?: HostRoutes
+	/** Route sources mounted under URL prefixes (see `PounceMiddlewareOptions.mounts`) */
+	mounts?: RouteMount[]
+	/** Route manifest typing `api()` calls. Default: `pounce-routes.d.ts` next to the routes directory */
+	manifestFile?: string
 }
 
 /**
@@ -69,19 +100,57 @@ export async function runDevServer(options: DevServerOptions = {}) {
 		}
 	})
 
+	const reportDiagnostics = (diagnostics: RouteDiagnostic[]) =>
+		console.log(`\n${formatRouteDiagnostics(diagnostics)}\n`)
+
 	// 2. Attach Pounce-Board middleware
 	// This handles API routes and SSR data injection
-	app.use('*', createPounceMiddleware({ 
+	// The SSR handler below uses the same route tree (see `getRouteTree`)
+	const pounceOptions: PounceMiddlewareOptions = {
 		routesDir,
-		importFn: (p) => vite.ssrLoadModule(p)
-	}))
+		importFn: (p) => vite.ssrLoadModule(p),
+		strict: options.strict,
+		onDiagnostics: reportDiagnostics,
+		hosts: options.hosts,
+		mounts: options.mounts,
+	}
+	app.use('*', createPounceMiddleware(pounceOptions))
+
+	// In strict mode, refuse to start with a broken route tree
+	if (options.strict) {
+		await getRouteTree(pounceOptions)
+	}
+
+	// Generate the route manifest now, then after every route change
+	const manifestFile = options.manifestFile ?? path.join(path.dirname(routesDir), 'pounce-routes.d.ts')
+	const writeManifest = () =>
+		getRouteTree(pounceOptions)
+			.then((routeTree) => writeRouteManifest(routeTree, manifestFile))
+			.catch((error) => {
+				if (!(error instanceof RouteBuildError)) console.error('[pounce dev] Route manifest generation failed', error)
+			})
+	await writeManifest()
 
-	// Watch for route changes and clear cache
+	// Watch for route changes and update only the affected part of the tree
+	// The trees of `hosts` directories are watched too, and mounts through the tree they are mounted on
+	const watchedDirs = [
+		...[routesDir, ...Object.values(options.hosts ?? {})].map((dir) => ({ dir, tree: dir })),
+		...(options.mounts ?? []).map((mount) => ({ dir: mount.routesDir, tree: routesDir })),
+	]
 	vite.watcher.on('all', (event, filePath) => {
-		const absoluteRoutesDir = path.resolve(routesDir)
-		if (filePath.startsWith(absoluteRoutesDir)) {
-			console.log(`[pounce dev] Route change detected (${event}), refreshing route tree...`)
-			clearRouteTreeCache()
+		for (const { dir, tree } of watchedDirs) {
+			const absoluteRoutesDir = path.resolve(dir)
+			// Files of the directory only, not of siblings sharing its prefix (`routes-old/`)
+			const relative = path.relative(absoluteRoutesDir, filePath)
+			if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) continue
+			console.log(`[pounce dev] Route change detected (${event}): ${relative}`)
+			// A failed update drops the tree, rebuilt on next request
+			updateRouteTreeCache(tree, event, filePath)
+				.then(() => tree === routesDir && writeManifest())
+				.catch((error) => {
+					if (error instanceof RouteBuildError) reportDiagnostics(error.diagnostics)
+					else console.error('[pounce dev] Route update failed', error)
+				})
 		}
 	})
 
@@ -91,9 +160,11 @@ export async function runDevServer(options: DevServerOptions = {}) {
 
 		// Import SSR utilities dynamically to avoid circular deps
 		const { withSSRContext, injectApiResponses, getCollectedSSRResponses } = await import('../lib/ssr/utils.js')
+		const { injectHead } = await import('../lib/ssr/head.js')
 
 		// Run all SSR operations within a proper context
 		const origin = `${url.protocol}//${url.host}`
+		let status: ContentfulStatusCode = 200
 		const { result, context } = await withSSRContext(async () => {
 			// Try to call the API handler for the same path to pre-populate hydration data
 			try {
@@ -113,48 +184,40 @@ export async function runDevServer(options: DevServerOptions = {}) {
 			let template = fs.readFileSync(indexPath, 'utf-8')
 			template = await vite.transformIndexHtml(c.req.url, template)
 			
-			// 1. Resolve route tree (it's built in middleware, but we need it here)
-			const routesDir = options.routesDir ?? './routes'
-			const routeTree = await buildRouteTree(routesDir, (p) => vite.ssrLoadModule(p)) // In dev we can rebuild or use cache
-			
-			// 2. Match the route
-			const match = matchRoute(url.pathname, routeTree, 'GET')
+			// 1. Resolve route tree (the one of the middleware for this host, already built for this request)
+			const routeTree = await getRouteTree(pounceOptions, url.hostname)
 			
-			if (match && match.component) {
+			// 2. Match the route (as routed by the middleware: locale prefix stripped, rewrites applied),
+			//    or find the not-found page of an unmatched path
+			const routePath = getContext()?.routePath ?? rewriteRoutePath(routeTree, url.pathname)
+			const match = await loadRoute(routePath, routeTree, 'GET')
+			const notFound = match ? null : await loadNotFound(routePath, routeTree)
+
+			if (match?.component || notFound) {
 				// 3. Load framework utilities from the SAME Vite instance as the components
 				const { renderToStringAsync, withSSR } = await vite.ssrLoadModule('pounce-ts/server')
 				const { h } = await vite.ssrLoadModule('pounce-ts')
-				const { flushSSRPromises } = await vite.ssrLoadModule('pounce-board/server')
+				const { flushSSRPromises, renderPage } = await vite.ssrLoadModule('pounce-board/server')
 
-				if (typeof match.component !== 'function') {
-					console.warn(
-						`[pounce dev] Skipping SSR for ${url.pathname}: default export is ${typeof match.component}, not a function.`
-					)
-					return template
-				}
+				// 4. Render the page with layouts, or its error/not-found boundary
+				const page = await renderPage(
+					{
+						h,
+						withSSR,
+						renderToStringAsync,
+						collectPromises: flushSSRPromises,
+						onError: reportRenderError,
+					},
+					match,
+					notFound
+				)
 
-				// 4. Render the component with layouts
-				const renderedHtml = await withSSR(async () => {
-					console.debug(`[pounce dev] Rendering component: ${match.component.name || 'anonymous'} (type: ${typeof match.component})`)
-					let app = h(match.component, { params: match.params })
-					if (match.layouts) {
-						for (let i = match.layouts.length - 1; i >= 0; i--) {
-							const layout = match.layouts[i]
-							console.debug(`[pounce dev] Wrapping with layout: ${layout.name || 'anonymous'} (type: ${typeof layout})`)
-							if (typeof layout === 'object') {
-								console.debug(`[pounce dev] Layout object keys: ${Object.keys(layout).join(', ')}`)
-							}
-							app = h(layout, { params: match.params }, app)
-						}
-					}
-
-					return await renderToStringAsync(app as any, undefined, {
-						collectPromises: flushSSRPromises
-					})
-				})
-
-				// 5. Inject into root div
-				template = template.replace('<div id="root"></div>', `<div id="root">${renderedHtml}</div>`)
+				// 5. Inject into root div, and head tags of the route
+				if (page) {
+					status = page.status
+					template = template.replace('<div id="root"></div>', `<div id="root">${page.html}</div>`)
+					template = injectHead(template, page.meta)
+				}
 			}
 			
 			return template
@@ -172,7 +235,7 @@ export async function runDevServer(options: DevServerOptions = {}) {
 		}
 		const finalHtml = injectApiResponses(result, ssrData)
 
-		return c.html(finalHtml)
+		return c.html(finalHtml, status)
 	})
 
 	// 4. Create Node.js HTTP server with Vite middleware
@@ -1,9 +1,11 @@
 #!/usr/bin/env node
 
+import { format } from 'node:util'
 import { cac } from 'cac'
 import { runDevServer } from './dev.js'
 import { runBuild } from './build.js'
 import { runPreview } from './preview.js'
+import { runRoutes } from './routes.js'
 
 const cli = cac('pounce')
 
@@ -13,6 +15,7 @@ cli
 	.option('--hmr-port <port>', 'Port for Vite HMR')
 	.option('--routes <dir>', 'Directory containing routes', { default: './routes' })
 	.option('--html <html>', 'Path to entry HTML file', { default: './index.html' })
+	.option('--strict', 'Fail on route conflicts and route modules that fail to load')
 	.action(async (options) => {
 		try {
 			await runDevServer({
@@ -20,6 +23,7 @@ cli
 				hmrPort: options.hmrPort ? Number(options.hmrPort) : undefined,
 				routesDir: options.routes,
 				entryHtml: options.html,
+				strict: options.strict,
 			})
 		} catch (error) {
 			console.error('Failed to start dev server:', error)
@@ -51,6 +55,25 @@ cli.command('preview', 'Preview production build').action(async () => {
     }
 })
 
+cli.command('routes', 'Print the route table')
+	.option('--routes <dir>', 'Directory containing routes', { default: './routes' })
+	.option('--json', 'Print JSON for tooling')
+	.option('--match <url>', 'Explain which route a URL selects and why')
+	.option('--method <method>', 'Method of the --match request', { default: 'GET' })
+	.action(async (options) => {
+		try {
+			await runRoutes({
+				routesDir: options.routes,
+				json: options.json,
+				match: options.match,
+				method: options.method,
+			})
+		} catch (error) {
+			process.stderr.write(`${format('Failed to list routes:', error)}\n`)
+			process.exit(1)
+		}
+	})
+
 cli.help()
 cli.version('0.1.0')
 
@@ -0,0 +1,172 @@
+import * as path from 'node:path'
+import { createServer as createViteServer } from 'vite'
+import {
+	buildRouteTree,
+	formatRouteDiagnostics,
+	type RouteDiagnostic,
+	type RouteTreeNode,
+} from '../lib/router/index.js'
+import {
+	explainMatch,
+	listRoutes,
+	type MatchExplanation,
+	type RouteEntry,
+} from '../lib/router/listing.js'
+
+export interface RoutesOptions {
+	routesDir?: string
+	/** Print JSON instead of tables */
+	json?: boolean
+	/** Explain how this URL is routed instead of listing the routes */
+	match?: string
+	/** Method of the `match` request. Default: GET */
+	method?: string
+}
+
+/**
+ * Build the route tree of a routes directory outside of a server. Route modules are
+ * loaded through Vite, lazily: pages are only imported when they export something
+ * needed to match requests (see `BuildRouteTreeOptions.lazy`).
+ */
+export async function loadRouteTree(
+	routesDir: string,
+	onDiagnostics?: (diagnostics: RouteDiagnostic[]) => void
+): Promise<RouteTreeNode> {
+	const vite = await createViteServer({
+		server: { middlewareMode: true, hmr: false },
+		appType: 'custom',
+		logLevel: 'error',
+	})
+	try {
+		return await buildRouteTree(routesDir, (p) => vite.ssrLoadModule(p), undefined, {
+			lazy: true,
+			onDiagnostics,
+		})
+	} finally {
+		await vite.close()
+	}
+}
+
+function print(text: string) {
+	process.stdout.write(`${text}\n`)
+}
+
+/**
+ * Print the route table of a routes directory, or explain how one URL is routed.
+ */
+export async function runRoutes(options: RoutesOptions = {}) {
+	const routesDir = options.routesDir ?? './routes'
+	const diagnostics: RouteDiagnostic[] = []
+	const tree = await loadRouteTree(routesDir, (reported) => diagnostics.push(...reported))
+
+	if (options.match !== undefined) {
+		const explanation = explainMatch(tree, options.match, (options.method ?? 'GET').toUpperCase())
+		print(options.json ? JSON.stringify(explanation, null, 2) : formatExplanation(explanation))
+		return
+	}
+
+	const routes = listRoutes(tree)
+	if (options.json) {
+		print(
+			JSON.stringify(
+				{
+					routes,
+					redirects: tree.redirects ?? [],
+					rewrites: tree.rewrites ?? [],
+					diagnostics: diagnostics.map(({ cause, ...diagnostic }) => diagnostic),
+				},
+				null,
+				2
+			)
+		)
+		return
+	}
+
+	print(formatTable(routes))
+	const rules = [
+		...(tree.redirects ?? []).map(
+			(rule) => `  ${rule.source} -> ${rule.destination} (${rule.status ?? 308})`
+		),
+		...(tree.rewrites ?? []).map((rule) => `  ${rule.source} => ${rule.destination} (rewrite)`),
+	]
+	if (rules.length > 0) print(`\nRedirects and rewrites (redirects.ts):\n${rules.join('\n')}`)
+	if (diagnostics.length > 0) print(`\n${formatRouteDiagnostics(diagnostics)}`)
+}
+
+function formatMiddleware(counts: Record<string, number>): string {
+	const values = new Set(Object.values(counts))
+	if (values.size === 1) return String([...values][0])
+	return Object.entries(counts)
+		.map(([method, count]) => `${method}:${count}`)
+		.join(' ')
+}
+
+/**
+ * Routes as aligned columns, in matching order
+ */
+function formatTable(routes: RouteEntry[]): string {
+	if (routes.length === 0) return 'No routes found'
+	const header = ['Pattern', 'Methods', 'Page', 'Layouts', 'Middleware', 'Group', 'Types', 'Source']
+	const rows = routes.map((route) => [
+		route.pattern,
+		route.methods.join(',') || '-',
+		route.page ? (route.pageFile ?? 'yes') : '-',
+		route.layouts.join(' > ') || '-',
+		formatMiddleware(route.middleware) || '-',
+		route.groups.join('/') || '-',
+		route.types ? path.relative(process.cwd(), route.types) : '-',
+		route.files.join(', ') || '-',
+	])
+	const widths = header.map((title, column) =>
+		Math.max(title.length, ...rows.map((row) => row[column].length))
+	)
+	return [header, ...rows]
+		.map((row) =>
+			row
+				.map((cell, column) => cell.padEnd(widths[column]))
+				.join('  ')
+				.trimEnd()
+		)
+		.join('\n')
+}
+
+/**
+ * Selected route of a URL, the nodes entered to reach it and the routes it wins over
+ */
+function formatExplanation(explanation: MatchExplanation): string {
+	const { url, method, route } = explanation
+	const lines = [`${method} ${url}`]
+	if (explanation.path === undefined) {
+		lines.push('  Cannot be routed: malformed or unsafe path')
+		return lines.join('\n')
+	}
+	if (explanation.redirect) {
+		const { status, location } = explanation.redirect
+		lines.push(`  Redirected (${status}) to ${location} by redirects.ts, no route is matched`)
+		return lines.join('\n')
+	}
+	if (explanation.rewrite) lines.push(`  Rewritten to ${explanation.rewrite} by redirects.ts`)
+	if (!route) {
+		lines.push(`  No route answers ${method} on this path`)
+	} else {
+		lines.push(`  Route: ${route.pattern} (${route.files.join(', ') || route.path})`)
+		if (Object.keys(explanation.params ?? {}).length > 0) {
+			lines.push(`  Params: ${JSON.stringify(explanation.params)}`)
+		}
+		lines.push('  Steps:')
+		const segments = explanation.steps.map((step) => (step.segment ? `"${step.segment}"` : '-'))
+		const nameWidth = Math.max(...explanation.steps.map((step) => step.name.length))
+		const segmentWidth = Math.max(...segments.map((segment) => segment.length))
+		for (const [index, step] of explanation.steps.entries()) {
+			const name = step.name.padEnd(nameWidth)
+			lines.push(`    ${name}  ${segments[index].padEnd(segmentWidth)}  ${step.reason}`)
+		}
+	}
+	if (explanation.candidates.length > 0) {
+		lines.push('  Also matching:')
+		for (const candidate of explanation.candidates) {
+			lines.push(`    ${candidate.route.path}: ${candidate.reason}`)
+		}
+	}
+	return lines.join('\n')
+}
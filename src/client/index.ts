@@ -20,7 +20,58 @@ export {
 export { ApiError } from '../lib/http/core.js'
 export { PounceResponse } from '../lib/http/response.js'
 
+// Session of the request rendering a page (undefined on the client)
+export { getSession, type Session, type SessionData } from '../lib/http/session.js'
+
+// CSRF token of the page, sent by `api()` with mutating requests
+export { getCsrfToken } from '../lib/http/csrf.js'
+
 // SSR hydration (client-side consumption)
 export { getSSRData, getSSRId } from '../lib/ssr/utils.js'
 
-export { defineRoute, type RouteDefinition } from '../lib/router/defs.js'
+// Head tags (update after client-side navigation)
+export {
+	mergeMeta,
+	resolveMeta,
+	updateHead,
+	type MetaContext,
+	type MetaTag,
+	type RouteMeta,
+	type RouteMetaExport,
+} from '../lib/ssr/head.js'
+
+export {
+	defineRoute,
+	type BuildUrlOptions,
+	type PathParams,
+	type RouteDefinition,
+} from '../lib/router/defs.js'
+
+// Route manifest (generated by `pounce dev` and `pounce build`)
+export type {
+	CheckedPath,
+	ClientMethod,
+	InferRouteMethod,
+	ManifestRoute,
+	RouteManifest,
+	RouteMethodTypes,
+	RouteContext,
+	RouteOfPath,
+	RouteUrl,
+} from '../lib/types/manifest.js'
+export type {
+	InferHandlerBody,
+	InferHandlerOutput,
+	InferHandlerQuery,
+} from '../lib/types/inference.js'
+
+// Locale of the page (see `I18nOptions` of the server adapter)
+export {
+	getLocale,
+	getLocaleState,
+	getMessages,
+	localizePath,
+	setLocaleState,
+	type LocaleState,
+	type Messages,
+} from '../lib/i18n/locale.js'
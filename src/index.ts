@@ -20,10 +20,63 @@ export { PounceResponse } from './lib/http/response.js'
 export { ApiError } from './lib/http/core.js'
 export type {
 	Middleware,
+	MiddlewareExport,
+	MethodMiddleware,
+	TypedMiddleware,
+	MiddlewareContext,
+	MiddlewareAdditions,
+	ContextAdditions,
 	RequestContext,
+	BaseRequestContext,
+	RouteConfig,
 	RouteHandler,
 	RouteResponse,
+	RouteResult,
+	JsonRouteResponse,
+	TextRouteResponse,
+	BodyRouteResponse,
 	HttpMethod,
 } from './lib/http/core.js'
+export type { Cookies, CookieOptions, CookieReadOptions } from './lib/http/cookies.js'
+export { getSession, type Session, type SessionData } from './lib/http/session.js'
+export { getCsrfToken } from './lib/http/csrf.js'
+export type {
+	RequestSchemas,
+	SchemasExport,
+	ValidatedContext,
+	ValidationIssue,
+} from './lib/http/validation.js'
+
+export {
+	defineRoute,
+	type BuildUrlOptions,
+	type PathParams,
+	type RouteDefinition,
+} from './lib/router/defs.js'
 
-export { defineRoute, type RouteDefinition } from './lib/router/defs.js'
+// Route manifest (generated by `pounce dev` and `pounce build`)
+export type {
+	CheckedPath,
+	ClientMethod,
+	InferRouteMethod,
+	ManifestRoute,
+	RouteManifest,
+	RouteMethodTypes,
+	RouteContext,
+	RouteOfPath,
+	RouteUrl,
+} from './lib/types/manifest.js'
+export type {
+	InferHandlerBody,
+	InferHandlerOutput,
+	InferHandlerQuery,
+} from './lib/types/inference.js'
+
+export {
+	getLocale,
+	getMessages,
+	localizePath,
+	type I18nOptions,
+	type LocaleState,
+	type Messages,
+} from './lib/i18n/locale.js'
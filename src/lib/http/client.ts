@@ -10,10 +10,19 @@ import {
 	type HttpMethod,
 	type Middleware,
 	type RequestContext,
+	type RouteConfig,
 	type RouteHandler,
 	runMiddlewares,
 } from './core.js'
+import { csrfHeaders } from './csrf.js'
 import type { ExtractPathParams } from '../types/inference.js'
+import type {
+	CheckedPath,
+	ClientMethod,
+	RouteMethodType,
+	RouteManifest,
+	RouteOfPath,
+} from '../types/manifest.js'
 
 import { PounceResponse } from './response.js'
 
@@ -98,20 +107,34 @@ function matchPattern(urlString: string, pattern: string | RegExp): boolean {
 	return pathname === pattern
 }
 
-export interface ApiClientInstance<P extends string = string> {
-	get: <T>(
-		...params: keyof ExtractPathParams<P> extends never
-			? [params?: Record<string, string>]
-			: [params: ExtractPathParams<P>]
+// Query params of a method: those its handler declares, strings otherwise
+type QueryArgs<P extends string, Route, Method extends ClientMethod> =
+	keyof ExtractPathParams<P> extends never
+		? [params?: QueryOf<RouteMethodType<Route, Method, 'query'>>]
+		: [params: ExtractPathParams<P>]
+
+type QueryOf<Query> = unknown extends Query ? Record<string, string> : Query
+
+/**
+ * Requests to a URL. Once a route manifest is generated, bodies and responses are
+ * typed after the handlers of the route answering it (see `RouteManifest`)
+ */
+export interface ApiClientInstance<P extends string = string, Route = RouteOfPath<P>> {
+	get: <T = RouteMethodType<Route, 'get', 'output'>>(
+		...params: QueryArgs<P, Route, 'get'>
 	) => HydratedPromise<T>
-	post: <T>(body: unknown) => Promise<T>
-	put: <T>(body: unknown) => Promise<T>
-	del: <T>(
-		...params: keyof ExtractPathParams<P> extends never
-			? [params?: Record<string, string>]
-			: [params: ExtractPathParams<P>]
+	post: <T = RouteMethodType<Route, 'post', 'output'>>(
+		body: RouteMethodType<Route, 'post', 'body'>
+	) => Promise<T>
+	put: <T = RouteMethodType<Route, 'put', 'output'>>(
+		body: RouteMethodType<Route, 'put', 'body'>
+	) => Promise<T>
+	del: <T = RouteMethodType<Route, 'del', 'output'>>(
+		...params: QueryArgs<P, Route, 'del'>
+	) => Promise<T>
+	patch: <T = RouteMethodType<Route, 'patch', 'output'>>(
+		body: RouteMethodType<Route, 'patch', 'body'>
 	) => Promise<T>
-	patch: <T>(body: unknown) => Promise<T>
 }
 
 export interface HydratedPromise<T> extends Promise<T> {
@@ -144,7 +167,10 @@ export interface RouteRegistry {
 	): {
 		handler: RouteHandler
 		middlewareStack: Middleware[]
-		params: Record<string, string>
+		params: Record<string, any>
+		config?: RouteConfig
+		/** Path matched, once routed (see `RequestContext.routePath`) */
+		routePath?: string
 	} | null
 }
 
@@ -199,9 +225,15 @@ async function dispatchToHandler(request: Request): Promise<Response> {
 		throw new Error(`[pounce-board] SSR dispatch failed: No handler found for ${method} ${path}`)
 	}
 
+	// Cookies and session are those of the rendered page, set ones reaching its response
 	const context: RequestContext = {
 		request,
 		params: match.params,
+		config: match.config,
+		locale: ctx?.locale?.locale,
+		routePath: match.routePath,
+		cookies: ctx?.cookies,
+		session: ctx?.session,
 	}
 
 	// Run through middleware stack and handler
@@ -450,6 +482,11 @@ function apiClient(
 	): Promise<T> {
 		const isFormData = typeof FormData !== 'undefined' && body instanceof FormData
 		const requestHeaders: Record<string, string> = isFormData ? {} : { 'Content-Type': 'application/json' }
+		// Mutating requests to the page's origin carry its CSRF token
+		if (method !== 'GET') {
+			const origin = getContext()?.origin || (typeof window !== 'undefined' ? window.location.origin : '')
+			Object.assign(requestHeaders, csrfHeaders(currentUrl, origin))
+		}
 		const requestBody = isFormData ? (body as any) : body !== undefined ? JSON.stringify(body) : undefined
 
 		const doRequest = async (): Promise<T> => {
@@ -636,11 +673,14 @@ import type { RouteDefinition } from '../router/defs.js'
 import { z } from 'zod'
 
 
-export interface ApiClient {
+/**
+ * `api()`: site-absolute paths are checked against the generated route manifest, if any
+ */
+export interface ApiClient<Manifest = RouteManifest> {
 	<P extends string>(
-		input: P | URL | object,
+		input: (P & CheckedPath<P, Manifest>) | URL | object,
 		options?: { timeout?: number; retries?: number; retryDelay?: number }
-	): ApiClientInstance<P>
+	): ApiClientInstance<P, RouteOfPath<P, Manifest>>
 
 	<P extends string, Q extends z.ZodType>(
 		routeDef: RouteDefinition<P, Q>,
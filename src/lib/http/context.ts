@@ -3,11 +3,15 @@
  * Handles thread-local storage for SSR data, configuration, and interceptors.
  */
 import type { AsyncLocalStorage } from 'node:async_hooks'
+import type { LocaleState } from '../i18n/locale.js'
 
 // Define the Interceptor type here to avoid circular imports if possible, 
 // or import strictly as type. 
 // We'll import InterceptorMiddleware from client.ts, but only as type.
 import type { InterceptorMiddleware } from './client.js'
+import type { Cookies } from './cookies.js'
+import type { CsrfState } from './csrf.js'
+import type { Session } from './session.js'
 
 export interface InterceptorEntry {
 	pattern: string | RegExp
@@ -35,6 +39,18 @@ export interface RequestScope {
 	interceptors: InterceptorEntry[]
 	origin?: string
 	routeRegistry?: any
+	/** Locale of the request (see `I18nOptions`) */
+	locale?: LocaleState
+	/** Path the request is routed as: locale prefix stripped, rewrites applied */
+	routePath?: string
+	/** Params captured from the request host (see `PounceMiddlewareOptions.hosts`) */
+	hostParams?: Record<string, string>
+	/** Cookies of the request, shared by the handlers dispatched while rendering its page */
+	cookies?: Cookies
+	/** Session of the request, when its route is below a `sessionMiddleware()` */
+	session?: Session
+	/** CSRF token of the page, when its route is below a `csrfMiddleware()` */
+	csrf?: CsrfState
 }
 
 // Storage for strict thread-safety in Node.js (AsyncLocalStorage)
@@ -0,0 +1,193 @@
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import { createPounceMiddleware } from '../../adapters/hono.js'
+import { api } from './client.js'
+import { cookieHeaders, createCookies, parseCookies, serializeCookie } from './cookies.js'
+import { type RequestContext, runMiddlewares } from './core.js'
+
+function requestWith(cookie?: string, url = 'http://localhost/') {
+	return new Request(url, { headers: cookie ? { Cookie: cookie } : {} })
+}
+
+// `Cookie` header sending back the cookies of `Set-Cookie` headers
+function sendBack(headers: string[]) {
+	return headers.map((header) => header.split(';')[0]).join('; ')
+}
+
+describe('parseCookies', () => {
+	it('should decode values, the first of a name winning', () => {
+		expect(parseCookies('a=1; b="x%20y"; a=2; broken; c=%E0')).toEqual({
+			a: '1',
+			b: 'x y',
+			c: '%E0',
+		})
+		expect(parseCookies(null)).toEqual({})
+	})
+})
+
+describe('serializeCookie', () => {
+	it('should write every attribute', () => {
+		expect(
+			serializeCookie('id', 'a b', {
+				domain: 'example.com',
+				path: '/app',
+				expires: new Date(Date.UTC(2030, 0, 1)),
+				maxAge: 60,
+				sameSite: 'None',
+				partitioned: true,
+				priority: 'High',
+			})
+		).toBe(
+			'id=a%20b; Path=/app; Domain=example.com; Expires=Tue, 01 Jan 2030 00:00:00 GMT; Max-Age=60; HttpOnly; Secure; SameSite=None; Partitioned; Priority=High'
+		)
+		expect(serializeCookie('id', '1', { httpOnly: false })).toBe('id=1; Path=/; SameSite=Lax')
+	})
+
+	it('should reject invalid names and attributes', () => {
+		expect(() => serializeCookie('a;b', '1')).toThrow('Invalid cookie name')
+		expect(() => serializeCookie('id', '1', { path: '/; Domain=evil.example' })).toThrow(
+			'Invalid cookie path'
+		)
+		expect(() => serializeCookie('id', '1', { domain: 'example.com\r\nX: 1' })).toThrow(
+			'Invalid cookie domain'
+		)
+	})
+})
+
+describe('createCookies', () => {
+	it('should read back the cookies set and deleted', async () => {
+		const cookies = await createCookies(requestWith('a=1; b=2', 'https://localhost/'))
+		cookies.set('c', '3')
+		cookies.delete('a')
+		expect(cookies.get('a')).toBeUndefined()
+		expect(cookies.get('c')).toBe('3')
+		expect(cookies.getAll()).toEqual({ b: '2', c: '3' })
+		expect(await cookieHeaders(cookies)).toEqual([
+			'c=3; Path=/; HttpOnly; Secure; SameSite=Lax',
+			'a=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=0; HttpOnly; Secure; SameSite=Lax',
+		])
+	})
+
+	it('should keep cookies of the same name with other paths or domains', async () => {
+		const cookies = await createCookies(requestWith())
+		cookies.set('id', '1')
+		cookies.set('id', '2', { path: '/admin' })
+		cookies.delete('id', { domain: 'example.com' })
+		cookies.set('id', '3', { path: '/admin' })
+		expect(cookies.get('id')).toBe('3')
+		expect(sendBack(await cookieHeaders(cookies))).toBe('id=1; id=; id=3')
+		expect(() => cookies.delete('id', { path: '/;' })).toThrow('Invalid cookie path')
+	})
+
+	it('should verify signed and encrypted cookies', async () => {
+		const config = { secret: 'secret' }
+		const cookies = await createCookies(requestWith(), config)
+		cookies.set('user', 'ada', { signed: true })
+		cookies.set('token', 'xyz', { encrypted: true })
+		const headers = await cookieHeaders(cookies)
+		expect(headers[0]).toMatch(/^user=s%3Aada\.[\w-]+;/)
+		expect(headers[1]).not.toContain('xyz')
+
+		const received = await createCookies(requestWith(sendBack(headers)), config)
+		expect(received.get('user', { signed: true })).toBe('ada')
+		expect(received.get('token', { encrypted: true })).toBe('xyz')
+		// Sealed cookies are not read as plain ones, nor with another secret
+		expect(received.get('user')).toMatch(/^s:ada\./)
+		const other = await createCookies(requestWith(sendBack(headers)), { secret: 'other' })
+		expect(other.get('user', { signed: true })).toBeUndefined()
+		expect(other.get('token', { encrypted: true })).toBeUndefined()
+	})
+
+	it('should reject tampered cookies', async () => {
+		const config = { secret: 'secret' }
+		const cookies = await createCookies(requestWith(), config)
+		cookies.set('role', 'user', { signed: true })
+		cookies.set('token', 'xyz', { encrypted: true })
+		const sent = sendBack(await cookieHeaders(cookies))
+			.replace('s%3Auser', 's%3Aadmin')
+			.replace(/token=e%3A(.)/, (_, char) => `token=e%3A${char === 'A' ? 'B' : 'A'}`)
+		const received = await createCookies(requestWith(sent), config)
+		expect(received.get('role', { signed: true })).toBeUndefined()
+		expect(received.get('token', { encrypted: true })).toBeUndefined()
+	})
+
+	it('should open cookies sealed with older secrets', async () => {
+		const cookies = await createCookies(requestWith(), { secret: 'old' })
+		cookies.set('user', 'ada', { signed: true })
+		cookies.set('token', 'xyz', { encrypted: true })
+		const sent = sendBack(await cookieHeaders(cookies))
+
+		const rotated = await createCookies(requestWith(sent), { secret: ['new', 'old'] })
+		expect(rotated.get('user', { signed: true })).toBe('ada')
+		expect(rotated.get('token', { encrypted: true })).toBe('xyz')
+		// New cookies are sealed with the newest secret
+		rotated.set('user', 'bob', { signed: true })
+		const resent = sendBack(await cookieHeaders(rotated))
+		const renewed = await createCookies(requestWith(resent), { secret: 'new' })
+		expect(renewed.get('user', { signed: true })).toBe('bob')
+	})
+
+	it('should not seal cookies without a secret', async () => {
+		const cookies = await createCookies(requestWith())
+		expect(() => cookies.set('user', 'ada', { signed: true })).toThrow('without a secret')
+	})
+})
+
+describe('cookies of responses', () => {
+	it('should merge the cookies set into the response of runMiddlewares', async () => {
+		const response = await runMiddlewares(
+			[
+				async (ctx, next) => {
+					ctx.cookies!.set('seen', '1')
+					return next()
+				},
+			],
+			{ request: requestWith('theme=light'), params: {} },
+			async (ctx: RequestContext) => {
+				ctx.cookies!.set('theme', 'dark')
+				return new Response(ctx.cookies!.get('theme'), {
+					headers: { 'Set-Cookie': 'own=1; Path=/' },
+				})
+			}
+		)
+		expect(await response.text()).toBe('dark')
+		expect(response.headers.getSetCookie()).toEqual([
+			'own=1; Path=/',
+			'seen=1; Path=/; HttpOnly; SameSite=Lax',
+			'theme=dark; Path=/; HttpOnly; SameSite=Lax',
+		])
+	})
+
+	it('should merge the cookies set by handlers into API and SSR responses', async () => {
+		const globRoutes = {
+			'/cookie-routes/prefs.ts': async () => ({
+				post: async (ctx: RequestContext) => {
+					ctx.cookies!.set('theme', 'dark', { signed: true })
+					return { status: 200, data: { theme: 'dark' } }
+				},
+			}),
+		}
+		const app = new Hono()
+		app.use(
+			'*',
+			createPounceMiddleware({
+				routesDir: '/cookie-routes',
+				globRoutes,
+				cookies: { secret: 'secret' },
+			})
+		)
+		app.get('*', async (c) => {
+			await api('/prefs').post({})
+			return c.html('<html><head></head><body></body></html>')
+		})
+
+		const posted = await app.request('http://localhost/prefs', { method: 'POST' })
+		expect(posted.headers.getSetCookie()).toEqual([
+			expect.stringMatching(/^theme=s%3Adark\.[\w-]+; Path=\/; HttpOnly; SameSite=Lax$/),
+		])
+
+		const page = await app.request('http://localhost/', { headers: { Accept: 'text/html' } })
+		expect(page.headers.get('Content-Type')).toContain('text/html')
+		expect(page.headers.getSetCookie()).toEqual([expect.stringMatching(/^theme=s%3Adark\./)])
+	})
+})
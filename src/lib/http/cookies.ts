@@ -0,0 +1,380 @@
+/**
+ * Cookies for pounce-board
+ *
+ * `ctx.cookies` reads the cookies of the request and queues `Set-Cookie` headers,
+ * which `runMiddlewares` and the adapter merge into the response. Signed cookies
+ * carry an HMAC-SHA256 of their name and value; encrypted ones are sealed with
+ * AES-GCM. Both use the secrets of `CookieConfig`: the first one seals new cookies,
+ * all of them open received ones, so that secrets can be rotated.
+ */
+
+/**
+ * Cookie configuration (see `PounceMiddlewareOptions.cookies`)
+ */
+export interface CookieConfig {
+	/**
+	 * Secret of signed and encrypted cookies, or secrets from newest to oldest:
+	 * cookies sealed with an older one are still accepted
+	 */
+	secret?: string | string[]
+}
+
+/**
+ * How a cookie is read: signed and encrypted cookies are undefined when they
+ * cannot be verified with any secret
+ */
+export interface CookieReadOptions {
+	signed?: boolean
+	encrypted?: boolean
+}
+
+/**
+ * Attributes of a cookie set by `ctx.cookies.set`
+ */
+export interface CookieOptions extends CookieReadOptions {
+	domain?: string
+	/** Default: `/` */
+	path?: string
+	expires?: Date
+	/** Lifetime in seconds */
+	maxAge?: number
+	/** Default: true */
+	httpOnly?: boolean
+	/** Default: true for HTTPS requests, and always with `SameSite=None` or `partitioned` */
+	secure?: boolean
+	/** Default: `Lax` */
+	sameSite?: 'Strict' | 'Lax' | 'None'
+	partitioned?: boolean
+	priority?: 'Low' | 'Medium' | 'High'
+}
+
+/**
+ * Cookies of a request (`ctx.cookies`). Cookies set or deleted are read back
+ * as such for the rest of the request.
+ */
+export interface Cookies {
+	get(name: string, options?: CookieReadOptions): string | undefined
+	/** Plain values of the cookies */
+	getAll(): Record<string, string>
+	set(name: string, value: string, options?: CookieOptions): void
+	delete(name: string, options?: Pick<CookieOptions, 'domain' | 'path'>): void
+}
+
+// Cookie names are RFC 6265 tokens
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/
+const SIGNED_PREFIX = 's:'
+const ENCRYPTED_PREFIX = 'e:'
+
+interface CookieJar {
+	secrets: string[]
+	secure: boolean
+	/** Cookies set or deleted, by name, path and domain, the latest last */
+	queued: Map<string, QueuedCookie>
+}
+
+interface QueuedCookie {
+	name: string
+	value: string
+	options: CookieOptions
+	/** `Set-Cookie` header, sealed once (encryption is not deterministic) */
+	header?: Promise<string>
+}
+
+const jars = new WeakMap<Cookies, CookieJar>()
+
+// Cookies of the same name with other paths or domains are other cookies
+function jarKey(name: string, options: Pick<CookieOptions, 'domain' | 'path'>): string {
+	return `${name};${options.path ?? '/'};${options.domain ?? ''}`
+}
+
+// Attribute values end at `;`, and control characters have no place in headers
+function isAttributeValue(value: string): boolean {
+	for (let index = 0; index < value.length; index++) {
+		const code = value.charCodeAt(index)
+		if (code < 0x20 || code === 0x7f || code === 0x3b) return false
+	}
+	return true
+}
+
+function checkCookie(name: string, options: Pick<CookieOptions, 'domain' | 'path'>): void {
+	if (!COOKIE_NAME.test(name)) throw new Error(`[pounce-board] Invalid cookie name: ${name}`)
+	for (const attribute of ['domain', 'path'] as const) {
+		const value = options[attribute]
+		if (value !== undefined && !isAttributeValue(value)) {
+			throw new Error(
+				`[pounce-board] Invalid cookie ${attribute} of ${name}: ${JSON.stringify(value)}`
+			)
+		}
+	}
+}
+
+const encoder = new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array): string {
+	let binary = ''
+	for (const byte of bytes) binary += String.fromCharCode(byte)
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> | undefined {
+	try {
+		const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+		return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+	} catch {
+		return undefined
+	}
+}
+
+// Keys derived from secrets, by usage then secret
+const keyCache = new Map<string, Promise<CryptoKey>>()
+
+function keyOf(secret: string, usage: 'sign' | 'encrypt'): Promise<CryptoKey> {
+	const id = `${usage}:${secret}`
+	let key = keyCache.get(id)
+	if (!key) {
+		key =
+			usage === 'sign'
+				? crypto.subtle.importKey(
+						'raw',
+						encoder.encode(secret),
+						{ name: 'HMAC', hash: 'SHA-256' },
+						false,
+						['sign', 'verify']
+					)
+				: crypto.subtle
+						.digest('SHA-256', encoder.encode(secret))
+						.then((digest) =>
+							crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt'])
+						)
+		keyCache.set(id, key)
+	}
+	return key
+}
+
+async function sign(name: string, value: string, secret: string): Promise<string> {
+	const key = await keyOf(secret, 'sign')
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${name}=${value}`))
+	return `${SIGNED_PREFIX}${value}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+async function unsign(
+	name: string,
+	sealed: string,
+	secrets: string[]
+): Promise<string | undefined> {
+	const dot = sealed.lastIndexOf('.')
+	const signature = fromBase64Url(sealed.slice(dot + 1))
+	if (!sealed.startsWith(SIGNED_PREFIX) || dot < 0 || !signature) return undefined
+	const value = sealed.slice(SIGNED_PREFIX.length, dot)
+	for (const secret of secrets) {
+		const key = await keyOf(secret, 'sign')
+		const data = encoder.encode(`${name}=${value}`)
+		if (await crypto.subtle.verify('HMAC', key, signature, data)) return value
+	}
+	return undefined
+}
+
+async function encrypt(name: string, value: string, secret: string): Promise<string> {
+	const key = await keyOf(secret, 'encrypt')
+	const iv = crypto.getRandomValues(new Uint8Array(12))
+	const additionalData = encoder.encode(name)
+	const cipher = await crypto.subtle.encrypt(
+		{ name: 'AES-GCM', iv, additionalData },
+		key,
+		encoder.encode(value)
+	)
+	const sealed = new Uint8Array(iv.length + cipher.byteLength)
+	sealed.set(iv)
+	sealed.set(new Uint8Array(cipher), iv.length)
+	return `${ENCRYPTED_PREFIX}${toBase64Url(sealed)}`
+}
+
+async function decrypt(
+	name: string,
+	sealed: string,
+	secrets: string[]
+): Promise<string | undefined> {
+	const bytes = sealed.startsWith(ENCRYPTED_PREFIX)
+		? fromBase64Url(sealed.slice(ENCRYPTED_PREFIX.length))
+		: undefined
+	if (!bytes || bytes.length <= 12) return undefined
+	const additionalData = encoder.encode(name)
+	for (const secret of secrets) {
+		const key = await keyOf(secret, 'encrypt')
+		try {
+			const plain = await crypto.subtle.decrypt(
+				{ name: 'AES-GCM', iv: bytes.subarray(0, 12), additionalData },
+				key,
+				bytes.subarray(12)
+			)
+			return new TextDecoder().decode(plain)
+		} catch {
+			// Sealed with another secret, or tampered with
+		}
+	}
+	return undefined
+}
+
+/**
+ * Seal a value as the cookie `name` is by `ctx.cookies.set`: signed, or encrypted,
+ * with the first of the secrets
+ */
+export function sealValue(
+	name: string,
+	value: string,
+	secrets: string[],
+	encrypted = false
+): Promise<string> {
+	return encrypted ? encrypt(name, value, secrets[0]) : sign(name, value, secrets[0])
+}
+
+/**
+ * Value sealed by `sealValue` with any of the secrets, or undefined when it cannot
+ * be verified
+ */
+export function openValue(
+	name: string,
+	sealed: string,
+	secrets: string[],
+	encrypted = false
+): Promise<string | undefined> {
+	return encrypted ? decrypt(name, sealed, secrets) : unsign(name, sealed, secrets)
+}
+
+/**
+ * Parse a `Cookie` header into values by name, the first of a name winning
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+	const cookies: Record<string, string> = {}
+	for (const part of header?.split(';') ?? []) {
+		const index = part.indexOf('=')
+		if (index < 0) continue
+		const name = part.slice(0, index).trim()
+		if (!name || name in cookies) continue
+		let value = part.slice(index + 1).trim()
+		if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1)
+		try {
+			cookies[name] = decodeURIComponent(value)
+		} catch {
+			cookies[name] = value
+		}
+	}
+	return cookies
+}
+
+/**
+ * Serialize a `Set-Cookie` header
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+	checkCookie(name, options)
+	const sameSite = options.sameSite ?? 'Lax'
+	const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${options.path ?? '/'}`]
+	if (options.domain) parts.push(`Domain=${options.domain}`)
+	if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`)
+	if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`)
+	if (options.httpOnly ?? true) parts.push('HttpOnly')
+	if (options.secure || sameSite === 'None' || options.partitioned) parts.push('Secure')
+	parts.push(`SameSite=${sameSite}`)
+	if (options.partitioned) parts.push('Partitioned')
+	if (options.priority) parts.push(`Priority=${options.priority}`)
+	return parts.join('; ')
+}
+
+/**
+ * Cookies of a request. Signed and encrypted cookies are verified right away,
+ * so that reading them is synchronous.
+ */
+export async function createCookies(request: Request, config: CookieConfig = {}): Promise<Cookies> {
+	const secrets = config.secret === undefined ? [] : [config.secret].flat()
+	const received = parseCookies(request.headers.get('Cookie'))
+	// Values of the signed and encrypted cookies received, once verified
+	const signed = new Map<string, string>()
+	const encrypted = new Map<string, string>()
+	if (secrets.length > 0) {
+		for (const [name, value] of Object.entries(received)) {
+			if (value.startsWith(SIGNED_PREFIX)) {
+				const opened = await unsign(name, value, secrets)
+				if (opened !== undefined) signed.set(name, opened)
+			} else if (value.startsWith(ENCRYPTED_PREFIX)) {
+				const opened = await decrypt(name, value, secrets)
+				if (opened !== undefined) encrypted.set(name, opened)
+			}
+		}
+	}
+
+	const jar: CookieJar = {
+		secrets,
+		secure: new URL(request.url).protocol === 'https:',
+		queued: new Map(),
+	}
+	// Latest cookie of a name set or deleted
+	const latest = (name: string) => {
+		let found: QueuedCookie | undefined
+		for (const queued of jar.queued.values()) if (queued.name === name) found = queued
+		return found
+	}
+	const queue = (queued: QueuedCookie) => {
+		const key = jarKey(queued.name, queued.options)
+		jar.queued.delete(key)
+		jar.queued.set(key, queued)
+	}
+	const cookies: Cookies = {
+		get(name, options = {}) {
+			const queued = latest(name)
+			if (queued) {
+				const { maxAge, signed, encrypted } = queued.options
+				if (maxAge === 0) return undefined
+				if (!!options.signed !== !!signed || !!options.encrypted !== !!encrypted) return undefined
+				return queued.value
+			}
+			if (options.encrypted) return encrypted.get(name)
+			if (options.signed) return signed.get(name)
+			return received[name]
+		},
+		getAll() {
+			const all = { ...received }
+			for (const { name, value, options } of jar.queued.values()) {
+				if (options.maxAge === 0) delete all[name]
+				else if (!options.signed && !options.encrypted) all[name] = value
+			}
+			return all
+		},
+		set(name, value, options = {}) {
+			checkCookie(name, options)
+			if ((options.signed || options.encrypted) && secrets.length === 0) {
+				throw new Error(
+					`[pounce-board] Cookie ${name} cannot be sealed without a secret (see CookieConfig)`
+				)
+			}
+			queue({ name, value, options })
+		},
+		delete(name, options = {}) {
+			checkCookie(name, options)
+			queue({ name, value: '', options: { ...options, maxAge: 0, expires: new Date(0) } })
+		},
+	}
+	jars.set(cookies, jar)
+	return cookies
+}
+
+/**
+ * `Set-Cookie` headers of the cookies set or deleted, signed and encrypted as asked
+ */
+export async function cookieHeaders(cookies: Cookies): Promise<string[]> {
+	const jar = jars.get(cookies)
+	if (!jar) return []
+	const headers: string[] = []
+	for (const queued of jar.queued.values()) {
+		queued.header ??= sealCookie(queued, jar)
+		headers.push(await queued.header)
+	}
+	return headers
+}
+
+async function sealCookie({ name, value, options }: QueuedCookie, jar: CookieJar) {
+	const sealed =
+		options.signed || options.encrypted
+			? await sealValue(name, value, jar.secrets, options.encrypted)
+			: value
+	return serializeCookie(name, sealed, { ...options, secure: options.secure ?? jar.secure })
+}
@@ -121,6 +121,191 @@ describe('core http utils', () => {
 			expect(timingHeader).toBeDefined()
 			expect(timingHeader).toMatch(/mw0;dur=\d+\.\d+, handler;dur=\d+\.\d+/)
 		})
+
+		describe('route config', () => {
+			const handler: RouteHandler = async (ctx) => ({
+				status: 200,
+				data: { body: await ctx.request.text() },
+			})
+			const post = (body: BodyInit, headers: Record<string, string> = {}) =>
+				new Request('http://localhost', {
+					method: 'POST',
+					body,
+					headers,
+					duplex: 'half',
+				} as RequestInit)
+
+			it('should answer 504 when the handler exceeds the timeout', async () => {
+				const slow: RouteHandler = () => new Promise(() => {})
+				const context: RequestContext = {
+					request: new Request('http://localhost'),
+					params: {},
+					config: { timeout: 10 },
+				}
+
+				const response = await runMiddlewares([], context, slow)
+				expect(response.status).toBe(504)
+			})
+
+			it('should abort the signal of the context on timeout', async () => {
+				let signal: AbortSignal | undefined
+				const slow: RouteHandler = (ctx) =>
+					new Promise((resolve) => {
+						signal = ctx.signal
+						ctx.signal?.addEventListener('abort', () => resolve({ status: 200 }))
+					})
+
+				const response = await runMiddlewares(
+					[],
+					{ request: new Request('http://localhost'), params: {}, config: { timeout: 10 } },
+					slow
+				)
+				expect(response.status).toBe(504)
+				expect(signal?.aborted).toBe(true)
+				expect(signal?.reason).toMatchObject({ name: 'TimeoutError' })
+			})
+
+			it('should answer 413 when the declared body size exceeds the limit', async () => {
+				const context: RequestContext = {
+					request: post('0123456789'),
+					params: {},
+					config: { maxBodySize: 4 },
+				}
+
+				const response = await runMiddlewares([], context, handler)
+				expect(response.status).toBe(413)
+			})
+
+			it('should limit bodies streamed without Content-Length', async () => {
+				const stream = (text: string) =>
+					new ReadableStream({
+						start(controller) {
+							controller.enqueue(new TextEncoder().encode(text))
+							controller.close()
+						},
+					})
+
+				const tooLarge = await runMiddlewares(
+					[],
+					{ request: post(stream('0123456789')), params: {}, config: { maxBodySize: 4 } },
+					handler
+				)
+				expect(tooLarge.status).toBe(413)
+
+				const small = await runMiddlewares(
+					[],
+					{ request: post(stream('0123')), params: {}, config: { maxBodySize: 4 } },
+					handler
+				)
+				expect(await small.json()).toEqual({ body: '0123' })
+			})
+
+			it('should set Cache-Control on successful GET responses only', async () => {
+				const config = { cache: 'public, max-age=60' }
+				const get = await runMiddlewares(
+					[],
+					{ request: new Request('http://localhost'), params: {}, config },
+					handler
+				)
+				expect(get.headers.get('Cache-Control')).toBe('public, max-age=60')
+
+				const posted = await runMiddlewares([], { request: post('x'), params: {}, config }, handler)
+				expect(posted.headers.has('Cache-Control')).toBe(false)
+
+				const custom = await runMiddlewares(
+					[],
+					{ request: new Request('http://localhost'), params: {}, config },
+					async () => ({ status: 200, headers: { 'Cache-Control': 'no-store' } })
+				)
+				expect(custom.headers.get('Cache-Control')).toBe('no-store')
+			})
+		})
+
+		describe('handler results', () => {
+			const run = (handler: RouteHandler) =>
+				runMiddlewares([], { request: new Request('http://localhost'), params: {} }, handler)
+
+			it('should serialize falsy data', async () => {
+				for (const data of [0, false, '', null]) {
+					const response = await run(async () => ({ status: 200, data }))
+					expect(await response.json()).toBe(data)
+				}
+			})
+
+			it('should send responses as is, keeping their headers', async () => {
+				const response = await run(async () =>
+					Response.json({ proxied: true }, { status: 202, headers: { 'X-Upstream': '1' } })
+				)
+				expect(response.status).toBe(202)
+				expect(response.headers.get('X-Upstream')).toBe('1')
+				expect(response.headers.has('Server-Timing')).toBe(true)
+				expect(await response.json()).toEqual({ proxied: true })
+			})
+
+			it('should answer 204 to null', async () => {
+				const response = await run(async () => null)
+				expect(response.status).toBe(204)
+				expect(response.body).toBeNull()
+			})
+
+			it('should send text', async () => {
+				const response = await run(async () => ({ text: 'id,name\n1,Ada' }))
+				expect(response.status).toBe(200)
+				expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8')
+				expect(await response.text()).toBe('id,name\n1,Ada')
+
+				const csv = await run(async () => ({
+					text: 'a,b',
+					headers: { 'Content-Type': 'text/csv' },
+				}))
+				expect(csv.headers.get('Content-Type')).toBe('text/csv')
+			})
+
+			it('should stream bodies and type binary ones', async () => {
+				const stream = new ReadableStream({
+					start(controller) {
+						controller.enqueue(new TextEncoder().encode('chunk 1, '))
+						controller.enqueue(new TextEncoder().encode('chunk 2'))
+						controller.close()
+					},
+				})
+				const streamed = await run(async () => ({
+					body: stream,
+					headers: { 'Content-Type': 'text/event-stream' },
+				}))
+				expect(streamed.headers.get('Content-Type')).toBe('text/event-stream')
+				expect(await streamed.text()).toBe('chunk 1, chunk 2')
+
+				const buffer = await run(async () => ({ status: 201, body: new Uint8Array([1, 2]).buffer }))
+				expect(buffer.status).toBe(201)
+				expect(buffer.headers.get('Content-Type')).toBe('application/octet-stream')
+				expect(new Uint8Array(await buffer.arrayBuffer())).toEqual(new Uint8Array([1, 2]))
+
+				const blob = await run(async () => ({
+					body: new Blob(['%PDF'], { type: 'application/pdf' }),
+				}))
+				expect(blob.headers.get('Content-Type')).toBe('application/pdf')
+			})
+
+			it('should send bodies returned as is', async () => {
+				const text = await run(async () => 'plain')
+				expect(text.headers.get('Content-Type')).toBe('text/plain; charset=utf-8')
+				expect(await text.text()).toBe('plain')
+
+				const stream = await run(async () => new Blob(['chunk']).stream())
+				expect(stream.headers.get('Content-Type')).toBe('application/octet-stream')
+				expect(await stream.text()).toBe('chunk')
+
+				const blob = await run(async () => new Blob(['%PDF'], { type: 'application/pdf' }))
+				expect(blob.headers.get('Content-Type')).toBe('application/pdf')
+
+				for (const binary of [new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2])]) {
+					const response = await run(async () => binary)
+					expect(response.status).toBe(200)
+					expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([1, 2]))
+				}
+			})
+		})
 	})
 
 	describe('createJsonResponse', () => {
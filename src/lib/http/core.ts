@@ -1,8 +1,10 @@
 /**
  * Core HTTP types and middleware runner for pounce-board
  */
+import type { RequestScope } from './context.js'
+import { type Cookies, cookieHeaders, createCookies } from './cookies.js'
 
-export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH'
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS'
 
 /**
  * Structured API Error for pounce-board
@@ -19,9 +21,61 @@ export class ApiError extends Error {
 	}
 }
 
-export interface RequestContext {
+/**
+ * Route configuration, exported as `config` from route modules and `common.ts`
+ * files (merged from root to leaf). The well-known keys are enforced by
+ * `runMiddlewares` and the SSR pipeline; other keys are left to user middleware.
+ */
+export interface RouteConfig {
+	/** Time limit of the middleware chain and handler, in milliseconds (504 when exceeded) */
+	timeout?: number
+	/** Maximum request body size, in bytes (413 when exceeded) */
+	maxBodySize?: number
+	/** `Cache-Control` of successful GET and HEAD responses that do not set one */
+	cache?: string
+	/** Render the page on the server (default), or leave it to the client when false */
+	ssr?: boolean
+	/** Check the CSRF token of mutating requests below a `csrfMiddleware()` (default), or not */
+	csrf?: boolean
+	[key: string]: unknown
+}
+
+/**
+ * Fields of the request context set by pounce-board
+ */
+export interface BaseRequestContext {
 	request: Request
-	params: Record<string, string>
+	/** Path params, coerced by param matchers (`[id=int]` gives a number) */
+	params: Record<string, any>
+	/** Configuration of the matched route */
+	config?: RouteConfig
+	/** Locale of the request, with `i18n` options (see `I18nOptions`) */
+	locale?: string
+	/** Path the request is routed as: locale prefix stripped, rewrites applied */
+	routePath?: string
+	/**
+	 * Cookies of the request, those set being merged into the response (see `Cookies`).
+	 * Created by `runMiddlewares` when not given, so always set for middleware.
+	 */
+	cookies?: Cookies
+	/**
+	 * Aborted when the `timeout` of the route config elapses: the request is answered
+	 * with a `504` and handlers should stop their work
+	 */
+	signal?: AbortSignal
+	/** Query parsed by the `query` schema of the handler (see `RequestSchemas`) */
+	query?: unknown
+	/** Body parsed by the `body` schema of the handler */
+	body?: unknown
+	/** Headers parsed by the `headers` schema of the handler */
+	headers?: unknown
+}
+
+/**
+ * Request context, with the fields middleware add, untyped: `defineMiddleware` and
+ * `RouteContext` type them, other fields being type errors
+ */
+export interface RequestContext extends BaseRequestContext {
 	[key: string]: unknown
 }
 
@@ -30,29 +84,354 @@ export type Middleware = (
 	next: () => Promise<Response>
 ) => Promise<Response>
 
-export type RouteHandler = (context: RequestContext) => Promise<{
+declare const contextAdditions: unique symbol
+
+/**
+ * Middleware declaring the fields it adds to the request context
+ */
+export type TypedMiddleware<Adds extends object> = Middleware & {
+	readonly [contextAdditions]?: Adds
+}
+
+/**
+ * Context of a middleware of `defineMiddleware`: the fields pounce-board sets, those
+ * it adds and those of upstream middleware it reads, until set. Others are type errors.
+ */
+export type MiddlewareContext<
+	Adds extends object,
+	Reads extends object = {},
+> = BaseRequestContext & {
+	cookies: Cookies
+} & Partial<Adds & Reads>
+
+/**
+ * Declare the fields a middleware adds to the request context, for the handlers
+ * downstream to find them typed (see `RouteContext`), and those of upstream
+ * middleware it reads. The middleware sets them:
+ *
+ * ```ts
+ * export const middleware = [
+ *   defineMiddleware<{ user: User }, { session: Session }>(async (ctx, next) => {
+ *     ctx.user = await findUser(ctx.session?.get('userId'))
+ *     return next()
+ *   }),
+ * ]
+ * ```
+ */
+export function defineMiddleware<Adds extends object, Reads extends object = {}>(
+	middleware: (
+		context: MiddlewareContext<Adds, Reads>,
+		next: () => Promise<Response>
+	) => Promise<Response>
+): TypedMiddleware<Adds> {
+	// Run by `runMiddlewares`, which creates the cookies of the context
+	return middleware as unknown as TypedMiddleware<Adds>
+}
+
+/**
+ * Part of a middleware run for the pages below it, which are rendered without
+ * running the middleware: e.g. opening the session they render with. Returns what
+ * to do once the page is rendered.
+ */
+export type PageMiddleware = (scope: RequestScope) => Promise<(() => Promise<void>) | undefined>
+
+const pageMiddlewares = new WeakMap<Middleware, PageMiddleware>()
+
+/**
+ * Give a middleware a part run for pages (see `PageMiddleware`)
+ */
+export function withPageMiddleware<M extends Middleware>(middleware: M, page: PageMiddleware): M {
+	pageMiddlewares.set(middleware, page)
+	return middleware
+}
+
+/**
+ * Run the page parts of the middleware of a stack, in order, before rendering a
+ * page. Returns what to do once it is rendered.
+ */
+export async function runPageMiddlewares(
+	middlewareStack: Middleware[],
+	scope: RequestScope
+): Promise<() => Promise<void>> {
+	const after: (() => Promise<void>)[] = []
+	for (const middleware of middlewareStack) {
+		const done = await pageMiddlewares.get(middleware)?.(scope)
+		if (done) after.unshift(done)
+	}
+	return async () => {
+		for (const done of after) await done()
+	}
+}
+
+type UnionToIntersection<U> = (U extends unknown ? (union: U) => void : never) extends (
+	intersection: infer I
+) => void
+	? I
+	: never
+
+// Fields added by a middleware, none for untyped ones
+type Additions<M> = M extends { readonly [contextAdditions]?: infer Adds }
+	? unknown extends Adds
+		? {}
+		: Adds
+	: {}
+
+type ListAdditions<List> = [List] extends [readonly (infer M)[]]
+	? UnionToIntersection<Additions<M>>
+	: {}
+
+// Middleware of a method in an export by method (HEAD falls back to GET)
+type MethodList<Export, Method extends string> = Method extends keyof Export
+	? Export[Method]
+	: Method extends 'HEAD'
+		? 'GET' extends keyof Export
+			? Export['GET']
+			: never
+		: never
+
+/**
+ * Fields a `middleware` export adds to the context of requests of a method
+ */
+export type MiddlewareAdditions<
+	Export,
+	Method extends string = 'GET',
+> = Export extends readonly unknown[]
+	? ListAdditions<Export>
+	: ListAdditions<NonNullable<MethodList<Export, '*'>>> &
+			ListAdditions<NonNullable<MethodList<Export, Method>>>
+
+/**
+ * Fields the `middleware` exports of modules (`common.ts` files, root first) add
+ * to the context of requests of a method
+ */
+export type ContextAdditions<
+	Modules extends readonly unknown[],
+	Method extends string = 'GET',
+> = Modules extends readonly [infer Module, ...infer Rest]
+	? (Module extends { middleware: infer Export } ? MiddlewareAdditions<Export, Method> : {}) &
+			ContextAdditions<Rest, Method>
+	: {}
+
+/**
+ * Middleware by method, `'*'` holding those run for every method
+ */
+export type MethodMiddleware = Partial<Record<HttpMethod | '*', Middleware[]>>
+
+/**
+ * `middleware` export of `common.ts` and route files: run for every method, or by method
+ */
+export type MiddlewareExport = Middleware[] | MethodMiddleware
+
+/**
+ * Normalize a `middleware` export into middleware by method (upper-cased)
+ */
+export function normalizeMiddleware(exported: MiddlewareExport): MethodMiddleware {
+	if (Array.isArray(exported)) return { '*': exported }
+	const normalized: Record<string, Middleware[]> = {}
+	for (const [method, middleware] of Object.entries(exported)) {
+		if (middleware) normalized[method.toUpperCase()] = middleware
+	}
+	return normalized
+}
+
+/**
+ * Middleware of a method: those of every method first, then those of the method.
+ * HEAD requests use the GET middleware unless HEAD has its own.
+ */
+export function selectMiddleware(middleware: MethodMiddleware, method: string): Middleware[] {
+	const methods = middleware as Record<string, Middleware[] | undefined>
+	const own = methods[method] ?? (method === 'HEAD' ? methods.GET : undefined)
+	return [...(middleware['*'] ?? []), ...(own ?? [])]
+}
+
+/**
+ * JSON response: `data` is serialized (falsy values included), otherwise `error` is sent
+ */
+export interface JsonRouteResponse {
 	status: number
 	data?: unknown
 	error?: string
 	headers?: Record<string, string>
-}>
+	text?: never
+	body?: never
+}
 
-export type RouteResponse = {
-	status: number
-	data?: unknown
-	error?: string
+/**
+ * Plain text response, `text/plain` unless `headers` set another type
+ */
+export interface TextRouteResponse {
+	/** Default: 200 */
+	status?: number
+	text: string
+	headers?: Record<string, string>
+	data?: never
+	error?: never
+	body?: never
+}
+
+/**
+ * Raw body response: a stream, `Blob`, `ArrayBuffer` or typed array, form data...
+ * Typed by `headers`, by the body itself (`Blob`, form data), or as `application/octet-stream`.
+ */
+export interface BodyRouteResponse {
+	/** Default: 200 */
+	status?: number
+	body: BodyInit | null
 	headers?: Record<string, string>
+	data?: never
+	error?: never
+	text?: never
+}
+
+/**
+ * Response described by a handler, told apart by its `data`/`error`, `text` or `body` key
+ */
+export type RouteResponse = JsonRouteResponse | TextRouteResponse | BodyRouteResponse
+
+/**
+ * Body returned as is by a handler: text (`text/plain`), a stream, a `Blob` or binary data
+ */
+export type RouteBody = string | ReadableStream | Blob | ArrayBuffer | ArrayBufferView
+
+/**
+ * Result of a handler: a route response, a body, a `Response` sent as is, or null for
+ * `204 No Content`
+ */
+export type RouteResult = RouteResponse | RouteBody | Response | null
+
+/**
+ * Route handler, typed by its result for the callers reading it
+ * (e.g. `RouteHandler<JsonRouteResponse>`)
+ */
+export type RouteHandler<Result extends RouteResult = RouteResult> = (
+	context: RequestContext
+) => Promise<Result>
+
+function isRouteBody(result: RouteResult): result is RouteBody {
+	return (
+		typeof result === 'string' ||
+		result instanceof ReadableStream ||
+		result instanceof Blob ||
+		result instanceof ArrayBuffer ||
+		ArrayBuffer.isView(result)
+	)
+}
+
+/**
+ * Build the HTTP response of a handler result
+ */
+export function toResponse(result: RouteResult): Response {
+	if (result instanceof Response) return result
+	if (result === null) return new Response(null, { status: 204 })
+	if (typeof result === 'string') return toResponse({ text: result })
+	if (isRouteBody(result)) return toResponse({ body: result as BodyInit })
+	if (result.text !== undefined) {
+		return new Response(result.text, {
+			status: result.status ?? 200,
+			headers: { 'Content-Type': 'text/plain; charset=utf-8', ...result.headers },
+		})
+	}
+	if (result.body !== undefined) {
+		const response = new Response(result.body, {
+			status: result.status ?? 200,
+			headers: result.headers,
+		})
+		if (result.body !== null && !response.headers.has('Content-Type')) {
+			response.headers.set('Content-Type', 'application/octet-stream')
+		}
+		return response
+	}
+	return new Response(
+		result.data !== undefined ? JSON.stringify(result.data) : (result.error ?? null),
+		{
+			status: result.status,
+			headers: {
+				'Content-Type': 'application/json',
+				...result.headers,
+			},
+		}
+	)
+}
+
+/**
+ * Read a request body without a declared length, up to a limit.
+ * Returns a request carrying the buffered body, or undefined when the body is too large.
+ */
+async function limitBody(request: Request, maxBodySize: number): Promise<Request | undefined> {
+	const reader = request.body!.getReader()
+	const chunks: Uint8Array[] = []
+	let size = 0
+	for (;;) {
+		const { done, value } = await reader.read()
+		if (done) break
+		size += value.byteLength
+		if (size > maxBodySize) {
+			await reader.cancel()
+			return undefined
+		}
+		chunks.push(value)
+	}
+	const body = new Uint8Array(size)
+	let offset = 0
+	for (const chunk of chunks) {
+		body.set(chunk, offset)
+		offset += chunk.byteLength
+	}
+	return new Request(request, { body })
 }
 
 /**
  * Runs middleware stack and executes handler
+ *
+ * Enforces the `maxBodySize`, `timeout` and `cache` keys of `context.config`, and
+ * merges the cookies set through `context.cookies` into the response.
  */
 export async function runMiddlewares(
 	middlewareStack: Middleware[],
 	context: RequestContext,
 	handler: RouteHandler
+): Promise<Response> {
+	context.cookies ??= await createCookies(context.request)
+	const { config } = context
+	if (config?.maxBodySize !== undefined && context.request.body) {
+		const length = context.request.headers.get('Content-Length')
+		const request =
+			length === null
+				? await limitBody(context.request, config.maxBodySize)
+				: Number(length) <= config.maxBodySize
+					? context.request
+					: undefined
+		if (!request) return createErrorResponse('Payload Too Large', 413)
+		context.request = request
+	}
+
+	if (config?.timeout === undefined) return runChain(middlewareStack, context, handler)
+
+	// The chain is not awaited past the timeout: it is told to stop through `signal`
+	const controller = new AbortController()
+	context.signal = controller.signal
+	let timer: ReturnType<typeof setTimeout> | undefined
+	const timeout = new Promise<Response>((resolve) => {
+		timer = setTimeout(() => {
+			controller.abort(new DOMException('Route timeout elapsed', 'TimeoutError'))
+			resolve(createErrorResponse('Gateway Timeout', 504))
+		}, config.timeout)
+	})
+	try {
+		return await Promise.race([runChain(middlewareStack, context, handler), timeout])
+	} finally {
+		clearTimeout(timer)
+	}
+}
+
+async function runChain(
+	middlewareStack: Middleware[],
+	context: RequestContext,
+	handler: RouteHandler
 ): Promise<Response> {
 	const timings: { name: string; dur: number }[] = []
+	const { config } = context
+	const method = context.request.method
 
 	const run = async (index: number): Promise<Response> => {
 		const start = performance.now()
@@ -61,14 +440,7 @@ export async function runMiddlewares(
 
 		if (index >= middlewareStack.length) {
 			name = 'handler'
-			const result = await handler(context)
-			response = new Response(result.data ? JSON.stringify(result.data) : result.error, {
-				status: result.status,
-				headers: {
-					'Content-Type': 'application/json',
-					...result.headers,
-				},
-			})
+			response = toResponse(await handler(context))
 		} else {
 			name = `mw${index}`
 			const middleware = middlewareStack[index]
@@ -90,6 +462,14 @@ export async function runMiddlewares(
 
 			const newHeaders = new Headers(response.headers)
 			newHeaders.append('Server-Timing', timingHeader)
+			const cacheable = response.ok && (method === 'GET' || method === 'HEAD')
+			if (config?.cache && cacheable && !newHeaders.has('Cache-Control')) {
+				newHeaders.set('Cache-Control', config.cache)
+			}
+			const present = newHeaders.getSetCookie()
+			for (const cookie of await cookieHeaders(context.cookies!)) {
+				if (!present.includes(cookie)) newHeaders.append('Set-Cookie', cookie)
+			}
 
 			return new Response(response.body, {
 				status: response.status,
@@ -0,0 +1,185 @@
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import { createPounceMiddleware } from '../../adapters/hono.js'
+import { withSSRContext } from '../ssr/utils.js'
+import { api } from './client.js'
+import { runMiddlewares } from './core.js'
+import { CSRF_DATA_ID, type CsrfOptions, csrfHeaders, csrfMiddleware } from './csrf.js'
+import { sessionMiddleware } from './session.js'
+
+const ok = async () => ({ status: 200, data: 'ok' })
+
+function send(
+	options: CsrfOptions,
+	init: RequestInit & { url?: string; headers?: Record<string, string> } = {},
+	config?: Record<string, unknown>
+) {
+	const { url = 'http://localhost/items', ...rest } = init
+	return runMiddlewares(
+		[csrfMiddleware(options)],
+		{ request: new Request(url, rest), params: {}, config },
+		ok
+	)
+}
+
+// Token of the `pounce-csrf` cookie set by a response
+function issuedToken(response: Response) {
+	return /^pounce-csrf=(\w+);/.exec(response.headers.get('Set-Cookie') ?? '')?.[1]
+}
+
+describe('csrfMiddleware', () => {
+	it('should issue a token cookie and require it from mutating requests', async () => {
+		const read = await send({})
+		expect(read.status).toBe(200)
+		const token = issuedToken(read)!
+		expect(token).toMatch(/^[0-9a-f]{64}$/)
+		expect(read.headers.get('Set-Cookie')).toContain('HttpOnly')
+
+		const cookie = `pounce-csrf=${token}`
+		const missing = await send({}, { method: 'POST', headers: { Cookie: cookie } })
+		expect(missing.status).toBe(403)
+		expect(await missing.json()).toEqual({ error: 'Invalid CSRF token' })
+		const wrong = await send(
+			{},
+			{ method: 'POST', headers: { Cookie: cookie, 'X-CSRF-Token': 'x' } }
+		)
+		expect(wrong.status).toBe(403)
+
+		const sent = await send(
+			{},
+			{ method: 'DELETE', headers: { Cookie: cookie, 'X-CSRF-Token': token } }
+		)
+		expect(sent.status).toBe(200)
+		const form = await send(
+			{ field: 'token' },
+			{
+				method: 'POST',
+				headers: { Cookie: cookie, 'Content-Type': 'application/x-www-form-urlencoded' },
+				body: `name=a&token=${token}`,
+			}
+		)
+		expect(form.status).toBe(200)
+	})
+
+	it('should refuse requests from other origins', async () => {
+		const headers = { Cookie: 'pounce-csrf=abc', 'X-CSRF-Token': 'abc' }
+		const post = (extra: Record<string, string>, options: CsrfOptions = {}) =>
+			send(options, { method: 'POST', headers: { ...headers, ...extra } })
+
+		const crossSite = await post({ Origin: 'https://evil.example', 'Sec-Fetch-Site': 'cross-site' })
+		expect(crossSite.status).toBe(403)
+		expect(await crossSite.json()).toEqual({ error: 'Cross-origin request refused' })
+		expect((await post({ 'Sec-Fetch-Site': 'cross-site' })).status).toBe(403)
+		expect((await post({ Origin: 'null' })).status).toBe(403)
+		expect((await post({ 'Sec-Fetch-Site': 'none' })).status).toBe(403)
+
+		expect((await post({ 'Sec-Fetch-Site': 'same-origin' })).status).toBe(200)
+		expect((await post({ Origin: 'http://localhost' })).status).toBe(200)
+		const trusted = await post(
+			{ Origin: 'https://admin.example', 'Sec-Fetch-Site': 'same-site' },
+			{ trustedOrigins: ['https://admin.example'] }
+		)
+		expect(trusted.status).toBe(200)
+	})
+
+	it('should not check exempt paths and routes', async () => {
+		const webhook = { method: 'POST', headers: { Origin: 'https://payments.example' } }
+		const exempt = { exempt: ['/webhooks/'] }
+		expect(
+			(await send(exempt, { ...webhook, url: 'http://localhost/webhooks/stripe' })).status
+		).toBe(200)
+		expect((await send(exempt, { ...webhook, url: 'http://localhost/webhooks' })).status).toBe(200)
+		expect((await send(exempt, { ...webhook, url: 'http://localhost/webhooksx' })).status).toBe(403)
+		expect((await send({}, webhook, { csrf: false })).status).toBe(200)
+	})
+
+	it('should match exempt paths on the routed path, without locale prefix', async () => {
+		const globRoutes = {
+			'/csrf-i18n-routes/common.ts': async () => ({
+				middleware: [csrfMiddleware({ exempt: ['/webhooks'] })],
+			}),
+			'/csrf-i18n-routes/webhooks/stripe.ts': async () => ({ post: ok }),
+			'/csrf-i18n-routes/items.ts': async () => ({ post: ok }),
+		}
+		const i18n = { locales: ['en', 'fr'], defaultLocale: 'en' }
+		const app = new Hono()
+		app.use('*', createPounceMiddleware({ routesDir: '/csrf-i18n-routes', globRoutes, i18n }))
+		const post = (url: string) =>
+			app.request(url, { method: 'POST', headers: { Origin: 'https://payments.example' } })
+
+		expect((await post('http://localhost/fr/webhooks/stripe')).status).toBe(200)
+		expect((await post('http://localhost/webhooks/stripe')).status).toBe(200)
+		expect((await post('http://localhost/fr/items')).status).toBe(403)
+	})
+
+	it('should keep the token in the session with the session strategy', async () => {
+		const stack = [sessionMiddleware(), csrfMiddleware({ strategy: 'session' })]
+		let token = ''
+		const read = await runMiddlewares(
+			stack,
+			{ request: new Request('http://localhost/items'), params: {} },
+			async (ctx) => {
+				token = ctx.csrfToken as string
+				return null
+			}
+		)
+		const cookie = read.headers.get('Set-Cookie')!.split(';')[0]
+		expect(cookie).toMatch(/^pounce-session=/)
+
+		const post = (sent: string) =>
+			runMiddlewares(
+				stack,
+				{
+					request: new Request('http://localhost/items', {
+						method: 'POST',
+						headers: { Cookie: cookie, 'X-CSRF-Token': sent },
+					}),
+					params: {},
+				},
+				ok
+			)
+		expect((await post(token)).status).toBe(200)
+		expect((await post('other')).status).toBe(403)
+
+		await expect(
+			runMiddlewares(
+				[csrfMiddleware({ strategy: 'session' })],
+				{ request: new Request('http://localhost/items'), params: {} },
+				ok
+			)
+		).rejects.toThrow('needs a sessionMiddleware() before it')
+	})
+})
+
+describe('CSRF tokens of pages', () => {
+	it('should hydrate pages with the token, sent back by api() while rendering', async () => {
+		const globRoutes = {
+			'/csrf-routes/common.ts': async () => ({ middleware: [csrfMiddleware()] }),
+			'/csrf-routes/items.ts': async () => ({ get: ok, post: ok }),
+		}
+		const app = new Hono()
+		app.use('*', createPounceMiddleware({ routesDir: '/csrf-routes', globRoutes }))
+		app.get('*', async (c) => {
+			const posted = await api('/items').post({})
+			return c.html(`<html><head></head><body>${posted}</body></html>`)
+		})
+
+		const page = await app.request('http://localhost/items', { headers: { Accept: 'text/html' } })
+		const html = await page.text()
+		const token = issuedToken(page)!
+		expect(html).toContain('<body>ok</body>')
+		expect(html).toContain(`id="${CSRF_DATA_ID}"`)
+		expect(html).toContain(token)
+	})
+
+	it('should only send the token to the origin of the page', async () => {
+		await withSSRContext(async () => {
+			const { getContext } = await import('./context.js')
+			getContext()!.csrf = { header: 'X-CSRF-Token', token: 'abc' }
+			expect(csrfHeaders(new URL('http://localhost/items'), 'http://localhost')).toEqual({
+				'X-CSRF-Token': 'abc',
+			})
+			expect(csrfHeaders(new URL('https://api.example/items'), 'http://localhost')).toEqual({})
+		})
+	})
+})
@@ -0,0 +1,215 @@
+/**
+ * CSRF protection for pounce-board
+ *
+ * `csrfMiddleware()` in a `common.ts` refuses the mutating requests of its routes
+ * that come from other origins (`Origin`, `Sec-Fetch-Site`) or lack the token of the
+ * visitor. The token is kept in a cookie (double-submit) or in the session
+ * (synchronizer token), injected into the pages rendered below the middleware, and
+ * sent back by `api()` as a header.
+ */
+import { getSSRData, injectSSRData } from '../ssr/utils.js'
+import { getContext } from './context.js'
+import type { CookieOptions, Cookies } from './cookies.js'
+import {
+	createErrorResponse,
+	defineMiddleware,
+	type TypedMiddleware,
+	withPageMiddleware,
+} from './core.js'
+import type { Session } from './session.js'
+
+/**
+ * Options of `csrfMiddleware`
+ */
+export interface CsrfOptions {
+	/**
+	 * Where the token of a visitor is kept: in a cookie, compared to the token sent
+	 * (default), or in the session, which needs a `sessionMiddleware()` before
+	 */
+	strategy?: 'cookie' | 'session'
+	/** Cookie of the `cookie` strategy, named `pounce-csrf` by default */
+	cookie?: { name?: string } & Omit<CookieOptions, 'signed' | 'encrypted'>
+	/** Header carrying the token. Default: `X-CSRF-Token` */
+	header?: string
+	/** Field carrying the token in form bodies. Default: `_csrf` */
+	field?: string
+	/** Other origins allowed to send requests, e.g. `https://admin.example.com` */
+	trustedOrigins?: string[]
+	/**
+	 * Paths not checked, with the paths below them, e.g. `/webhooks`: matched on the
+	 * path requests are routed as, without locale prefix (see `RequestContext.routePath`)
+	 */
+	exempt?: string[]
+}
+
+/**
+ * Token of a page, and the header `api()` sends it in
+ */
+export interface CsrfState {
+	header: string
+	token: string
+}
+
+/**
+ * Id of the CSRF state in the hydration payload
+ */
+export const CSRF_DATA_ID = 'pounce-csrf'
+
+const DEFAULT_COOKIE = 'pounce-csrf'
+const DEFAULT_HEADER = 'X-CSRF-Token'
+const SESSION_KEY = '_csrf'
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+function newToken(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(32))
+	return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Token of the visitor, created when it has none
+ */
+function visitorToken(
+	cookies: Cookies,
+	session: Session | undefined,
+	options: CsrfOptions
+): string {
+	if (options.strategy === 'session') {
+		if (!session) {
+			throw new Error(
+				"[pounce-board] csrfMiddleware({ strategy: 'session' }) needs a sessionMiddleware() before it"
+			)
+		}
+		let token = session.get(SESSION_KEY)
+		if (typeof token !== 'string') {
+			token = newToken()
+			session.set(SESSION_KEY, token)
+		}
+		return token as string
+	}
+	const { name = DEFAULT_COOKIE, ...cookieOptions } = options.cookie ?? {}
+	let token = cookies.get(name)
+	if (!token) {
+		token = newToken()
+		cookies.set(name, token, cookieOptions)
+	}
+	return token
+}
+
+// Compared in constant time, not to tell how much of a token was guessed
+function sameToken(sent: string, token: string): boolean {
+	if (sent.length !== token.length) return false
+	let difference = 0
+	for (let index = 0; index < sent.length; index++) {
+		difference |= sent.charCodeAt(index) ^ token.charCodeAt(index)
+	}
+	return difference === 0
+}
+
+/**
+ * Whether a request comes from the origin it is sent to, or a trusted one.
+ * Requests without `Origin` nor `Sec-Fetch-Site` do not come from browsers, and
+ * `Sec-Fetch-Site: none` (navigations typed by the user) proves no origin.
+ */
+function sameOrigin(request: Request, trustedOrigins: string[]): boolean {
+	const site = request.headers.get('Sec-Fetch-Site')
+	if (site === 'same-origin') return true
+	const origin = request.headers.get('Origin')
+	if (origin) return origin === new URL(request.url).origin || trustedOrigins.includes(origin)
+	return site === null
+}
+
+async function sentToken(request: Request, options: CsrfOptions): Promise<string | undefined> {
+	const header = request.headers.get(options.header ?? DEFAULT_HEADER)
+	if (header) return header
+	const type = request.headers.get('Content-Type') ?? ''
+	if (
+		!type.includes('application/x-www-form-urlencoded') &&
+		!type.includes('multipart/form-data')
+	) {
+		return undefined
+	}
+	// The request is cloned, so that handlers can still read the form
+	const field = (await request.clone().formData()).get(options.field ?? '_csrf')
+	return typeof field === 'string' ? field : undefined
+}
+
+function isExempt(path: string, exempt: string[]): boolean {
+	return exempt.some((prefix) => {
+		const base = prefix.replace(/\/+$/, '')
+		return path === base || path.startsWith(`${base}/`)
+	})
+}
+
+/**
+ * Middleware refusing with a 403 the POST, PUT, PATCH and DELETE requests of the
+ * routes below its `common.ts` that come from other origins or lack the token of
+ * the visitor (see `CsrfOptions`). Routes exporting `config = { csrf: false }` are
+ * not checked. Handlers find the token as `ctx.csrfToken`, e.g. for HTML forms.
+ */
+export function csrfMiddleware(options: CsrfOptions = {}): TypedMiddleware<{
+	csrfToken: string
+}> {
+	const header = options.header ?? DEFAULT_HEADER
+	const middleware = defineMiddleware<{ csrfToken: string }, { session: Session }>(
+		async (ctx, next) => {
+			const token = visitorToken(ctx.cookies, ctx.session, options)
+			ctx.csrfToken = token
+			const { request } = ctx
+			const checked =
+				!SAFE_METHODS.includes(request.method.toUpperCase()) &&
+				ctx.config?.csrf !== false &&
+				!isExempt(ctx.routePath ?? new URL(request.url).pathname, options.exempt ?? [])
+			if (checked) {
+				if (!sameOrigin(request, options.trustedOrigins ?? [])) {
+					return createErrorResponse('Cross-origin request refused', 403)
+				}
+				const sent = await sentToken(request, options)
+				if (!sent || !sameToken(sent, token)) return createErrorResponse('Invalid CSRF token', 403)
+			}
+			return next()
+		}
+	)
+	// Pages hydrate with the token, for `api()` to send it
+	return withPageMiddleware(middleware, async (scope) => {
+		if (!scope.cookies) return undefined
+		scope.csrf = { header, token: visitorToken(scope.cookies, scope.session, options) }
+		injectSSRData(CSRF_DATA_ID, scope.csrf)
+		return undefined
+	})
+}
+
+// CSRF state read from the hydration payload, kept for the lifetime of the page
+let clientState: CsrfState | undefined
+let clientHydrated = false
+
+/**
+ * CSRF state of the page being rendered on the server, or of the hydrated page on
+ * the client: undefined for pages not below a `csrfMiddleware()`
+ */
+export function getCsrfState(): CsrfState | undefined {
+	const context = getContext()
+	if (context) return context.csrf
+	if (!clientHydrated && typeof document !== 'undefined') {
+		clientHydrated = true
+		if (document.getElementById(CSRF_DATA_ID)) {
+			clientState = getSSRData<CsrfState>(CSRF_DATA_ID)
+		}
+	}
+	return clientState
+}
+
+/**
+ * CSRF token of the current page, e.g. for the `_csrf` field of HTML forms
+ */
+export function getCsrfToken(): string | undefined {
+	return getCsrfState()?.token
+}
+
+/**
+ * Header of the CSRF token, for requests to the origin of the page only
+ */
+export function csrfHeaders(url: URL, origin: string): Record<string, string> {
+	const csrf = getCsrfState()
+	if (!csrf || url.origin !== origin) return {}
+	return { [csrf.header]: csrf.token }
+}
@@ -0,0 +1,45 @@
+/**
+ * File session store for pounce-board (Node.js only)
+ */
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { SessionRecord, SessionStore } from './session.js'
+
+// Session ids are UUIDs: other cookie values name no file
+const SESSION_ID = /^[0-9a-f-]{36}$/
+
+interface SessionFile {
+	record: SessionRecord
+	expires: number
+}
+
+/**
+ * Store keeping each session in a JSON file of `dir`, shared by the processes of
+ * a host. Expired files are removed when read.
+ */
+export function fileSessionStore(dir: string): SessionStore {
+	const fileOf = (id: string) => path.join(dir, `${id}.json`)
+	return {
+		async load(id) {
+			if (!SESSION_ID.test(id)) return undefined
+			let stored: SessionFile
+			try {
+				stored = JSON.parse(await fs.readFile(fileOf(id), 'utf-8'))
+			} catch {
+				return undefined
+			}
+			if (stored.expires > Date.now()) return stored.record
+			await fs.rm(fileOf(id), { force: true })
+			return undefined
+		},
+		async save(record, expires) {
+			const stored: SessionFile = { record, expires: expires.getTime() }
+			await fs.mkdir(dir, { recursive: true })
+			await fs.writeFile(fileOf(record.id), JSON.stringify(stored))
+			return record.id
+		},
+		async destroy(record) {
+			if (SESSION_ID.test(record.id)) await fs.rm(fileOf(record.id), { force: true })
+		},
+	}
+}
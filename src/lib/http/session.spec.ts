@@ -0,0 +1,209 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { Hono } from 'hono'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createPounceMiddleware } from '../../adapters/hono.js'
+import { api } from './client.js'
+import type { RequestContext } from './core.js'
+import { runMiddlewares } from './core.js'
+import { fileSessionStore } from './file-session-store.js'
+import {
+	cookieSessionStore,
+	getSession,
+	memorySessionStore,
+	type Session,
+	type SessionOptions,
+	sessionMiddleware,
+} from './session.js'
+
+type SessionHandler = (session: Session) => unknown
+
+/**
+ * Requests of a browser keeping the cookies of the responses
+ */
+function browser(options: SessionOptions) {
+	const middleware = sessionMiddleware(options)
+	let cookie = ''
+	return async (handle: SessionHandler) => {
+		let result: unknown
+		const response = await runMiddlewares(
+			[middleware],
+			{ request: new Request('http://localhost/', { headers: { Cookie: cookie } }), params: {} },
+			async (ctx: RequestContext) => {
+				result = await handle(ctx.session as Session)
+				return null
+			}
+		)
+		const cookies = new Map(
+			cookie ? cookie.split('; ').map((pair) => pair.split('=') as [string, string]) : []
+		)
+		for (const header of response.headers.getSetCookie()) {
+			const [name, value] = header.split(';')[0].split('=')
+			if (/Max-Age=0/.test(header)) cookies.delete(name)
+			else cookies.set(name, value)
+		}
+		cookie = [...cookies].map((pair) => pair.join('=')).join('; ')
+		return { result, response, cookie }
+	}
+}
+
+afterEach(() => {
+	vi.useRealTimers()
+})
+
+describe('sessionMiddleware', () => {
+	it('should keep values across requests, storing only sessions holding values', async () => {
+		const request = browser({})
+		const empty = await request((session) => session.get('user'))
+		expect(empty.result).toBeUndefined()
+		expect(empty.response.headers.getSetCookie()).toEqual([])
+
+		const { response } = await request((session) => session.set('user', 'ada'))
+		expect(response.headers.get('Set-Cookie')).toMatch(
+			/^pounce-session=[0-9a-f-]{36}; Path=\/; Max-Age=86400; HttpOnly; SameSite=Lax$/
+		)
+		expect((await request((session) => session.get('user'))).result).toBe('ada')
+	})
+
+	it('should regenerate and destroy sessions', async () => {
+		const store = memorySessionStore()
+		const request = browser({ store })
+		let id = ''
+		await request((session) => {
+			session.set('user', 'ada')
+			id = session.id
+		})
+		const regenerated = await request((session) => {
+			session.regenerate()
+			return session.id
+		})
+		expect(regenerated.result).not.toBe(id)
+		expect(await store.load(id, 'pounce-session')).toBeUndefined()
+		expect((await request((session) => session.get('user'))).result).toBe('ada')
+
+		const destroyed = await request((session) => session.destroy())
+		expect(destroyed.response.headers.get('Set-Cookie')).toMatch(/^pounce-session=; .*Max-Age=0/)
+		expect(await store.load(regenerated.result as string, 'pounce-session')).toBeUndefined()
+		expect((await request((session) => session.get('user'))).result).toBeUndefined()
+	})
+
+	it('should read flash messages once', async () => {
+		const request = browser({})
+		await request((session) => session.flash('notice', 'Saved'))
+		expect((await request((session) => session.getFlash('notice'))).result).toBe('Saved')
+		expect((await request((session) => session.getFlash('notice'))).result).toBeUndefined()
+	})
+
+	it('should expire sessions, rolling or after an idle timeout', async () => {
+		vi.useFakeTimers()
+		const fixed = browser({ maxAge: 60 })
+		const rolling = browser({ maxAge: 60, rolling: true })
+		const idle = browser({ maxAge: 600, idleTimeout: 60 })
+		for (const request of [fixed, rolling, idle]) await request((session) => session.set('n', 1))
+
+		for (let minute = 0; minute < 3; minute++) {
+			vi.advanceTimersByTime(40_000)
+			expect((await rolling((session) => session.get('n'))).result).toBe(1)
+			expect((await idle((session) => session.get('n'))).result).toBe(1)
+		}
+		expect((await fixed((session) => session.get('n'))).result).toBeUndefined()
+
+		vi.advanceTimersByTime(61_000)
+		expect((await rolling((session) => session.get('n'))).result).toBeUndefined()
+		expect((await idle((session) => session.get('n'))).result).toBeUndefined()
+	})
+
+	it('should reuse the session opened upstream', async () => {
+		const request = browser({})
+		const inner = sessionMiddleware({ cookie: { name: 'inner' } })
+		const { response } = await request(async (session) => {
+			const context = { request: new Request('http://localhost/'), params: {}, session }
+			await runMiddlewares([inner], context, async (ctx: RequestContext) => {
+				;(ctx.session as Session).set('user', 'ada')
+				return null
+			})
+		})
+		expect(response.headers.get('Set-Cookie')).toMatch(/^pounce-session=/)
+	})
+})
+
+describe('session stores', () => {
+	it('should keep sessions in signed or encrypted cookies', async () => {
+		for (const encrypted of [false, true]) {
+			const request = browser({ store: cookieSessionStore({ secret: 'secret', encrypted }) })
+			const { cookie } = await request((session) => session.set('user', 'ada'))
+			expect(cookie.includes('ada')).toBe(!encrypted)
+			expect((await request((session) => session.get('user'))).result).toBe('ada')
+		}
+
+		const store = cookieSessionStore({ secret: 'secret' })
+		const named = browser({ store, cookie: { name: 'sid' } })
+		const { cookie } = await named((session) => session.set('user', 'ada'))
+		expect(cookie).toMatch(/^sid=/)
+		expect((await named((session) => session.get('user'))).result).toBe('ada')
+
+		const value = await store.save(
+			{ id: 'a', data: { user: 'ada' }, flash: {}, createdAt: 0, touchedAt: 0 },
+			new Date(),
+			'pounce-session'
+		)
+		expect(await store.load(value, 'pounce-session')).toMatchObject({ id: 'a' })
+		expect(await store.load(value, 'sid')).toBeUndefined()
+		expect(await store.load(value.replace('ada', 'bob'), 'pounce-session')).toBeUndefined()
+		expect(() => cookieSessionStore({ secret: [] })).toThrow('needs a secret')
+	})
+
+	it('should keep sessions in files', async () => {
+		const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'pounce-sessions-'))
+		try {
+			const store = fileSessionStore(dir)
+			const request = browser({ store })
+			await request((session) => session.set('user', 'ada'))
+			expect(await fs.readdir(dir)).toHaveLength(1)
+			expect((await request((session) => session.get('user'))).result).toBe('ada')
+			expect(await store.load('../secrets', 'pounce-session')).toBeUndefined()
+
+			await request((session) => session.destroy())
+			expect(await fs.readdir(dir)).toEqual([])
+		} finally {
+			await fs.rm(dir, { recursive: true, force: true })
+		}
+	})
+})
+
+describe('sessions of pages', () => {
+	it('should render pages and their local dispatches with the session', async () => {
+		const globRoutes = {
+			'/session-routes/common.ts': async () => ({ middleware: [sessionMiddleware()] }),
+			'/session-routes/me.ts': async () => ({
+				get: async (ctx: RequestContext) => ({
+					status: 200,
+					data: { user: (ctx.session as Session).get('user') ?? null },
+				}),
+				post: async (ctx: RequestContext) => {
+					;(ctx.session as Session).set('user', 'ada')
+					return null
+				},
+			}),
+		}
+		const app = new Hono()
+		app.use('*', createPounceMiddleware({ routesDir: '/session-routes', globRoutes }))
+		app.get('*', async (c) => {
+			const session = getSession()
+			const me = await api('/me').get<{ user: string }>()
+			session?.flash('seen', true)
+			return c.html(`<html><head></head><body>${session?.get('user')} ${me.user}</body></html>`)
+		})
+
+		const signIn = await app.request('http://localhost/me', { method: 'POST' })
+		const cookie = signIn.headers.get('Set-Cookie')!.split(';')[0]
+		const page = await app.request('http://localhost/me', {
+			headers: { Accept: 'text/html', Cookie: cookie },
+		})
+		expect(await page.text()).toContain('ada ada')
+		// Changes made while rendering are saved
+		expect(page.headers.get('Set-Cookie')).toContain(cookie)
+		expect(getSession()).toBeUndefined()
+	})
+})
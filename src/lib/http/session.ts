@@ -0,0 +1,315 @@
+/**
+ * Sessions for pounce-board
+ *
+ * `sessionMiddleware()` in a `common.ts` gives the requests of its routes a
+ * `ctx.session`, kept by a `SessionStore` and found again from a session cookie.
+ * Pages under that `common.ts` see the same session while rendering (`getSession()`),
+ * as do the handlers that `api()` dispatches locally.
+ */
+import { getContext } from './context.js'
+import { type CookieOptions, type Cookies, openValue, sealValue } from './cookies.js'
+import { defineMiddleware, type TypedMiddleware, withPageMiddleware } from './core.js'
+
+/**
+ * Values of sessions, augmentable to type them:
+ *
+ * ```ts
+ * declare module 'pounce-board' {
+ *   interface SessionData {
+ *     userId: string
+ *   }
+ * }
+ * ```
+ */
+export interface SessionData {
+	[key: string]: unknown
+}
+
+/**
+ * Session as stored
+ */
+export interface SessionRecord {
+	id: string
+	data: SessionData
+	/** Flash messages, until read */
+	flash: Record<string, unknown>
+	/** Times of creation and of the last request, in milliseconds */
+	createdAt: number
+	touchedAt: number
+}
+
+/**
+ * Where sessions are kept. The session cookie, named `cookie`, holds the value
+ * returned by `save`.
+ */
+export interface SessionStore {
+	/** Session of a session cookie value, undefined when unknown */
+	load(value: string, cookie: string): Promise<SessionRecord | undefined>
+	/** Keep a session until `expires`, returning the value of its cookie */
+	save(record: SessionRecord, expires: Date, cookie: string): Promise<string>
+	destroy(record: SessionRecord): Promise<void>
+}
+
+/**
+ * Options of `sessionMiddleware`
+ */
+export interface SessionOptions {
+	/** Default: a `memorySessionStore()` */
+	store?: SessionStore
+	/** Session cookie, named `pounce-session` by default */
+	cookie?: { name?: string } & Omit<CookieOptions, 'signed' | 'encrypted' | 'expires' | 'maxAge'>
+	/** Lifetime of sessions in seconds. Default: 1 day */
+	maxAge?: number
+	/** Count `maxAge` from the last request instead of the creation of the session */
+	rolling?: boolean
+	/** Seconds without request after which sessions end */
+	idleTimeout?: number
+}
+
+/**
+ * Session of a request (`ctx.session`). Changes are saved once the response is
+ * produced, only sessions holding values being stored.
+ */
+export interface Session {
+	readonly id: string
+	get<K extends keyof SessionData & string>(key: K): SessionData[K] | undefined
+	set<K extends keyof SessionData & string>(key: K, value: SessionData[K]): void
+	delete(key: keyof SessionData & string): void
+	/** Give the session a new id, e.g. when signing in, against session fixation */
+	regenerate(): void
+	/** Empty the session and forget it */
+	destroy(): void
+	/** Keep a message for the request that reads it, e.g. after a redirect */
+	flash(key: string, value: unknown): void
+	/** Read a flash message, which is then removed */
+	getFlash(key: string): unknown
+}
+
+const DEFAULT_COOKIE = 'pounce-session'
+const DEFAULT_MAX_AGE = 60 * 60 * 24
+
+interface SessionState {
+	record: SessionRecord
+	options: SessionOptions & { store: SessionStore }
+	cookies: Cookies
+	/** Whether the record comes from the store */
+	loaded: boolean
+	/** Stored record to forget, after `regenerate` or `destroy` */
+	previous?: SessionRecord
+	modified: boolean
+	destroyed: boolean
+	committed: boolean
+}
+
+const states = new WeakMap<Session, SessionState>()
+
+function newRecord(): SessionRecord {
+	const now = Date.now()
+	return { id: crypto.randomUUID(), data: {}, flash: {}, createdAt: now, touchedAt: now }
+}
+
+function expiresAt(record: SessionRecord, options: SessionOptions): number {
+	const start = options.rolling ? record.touchedAt : record.createdAt
+	const expires = start + (options.maxAge ?? DEFAULT_MAX_AGE) * 1000
+	if (options.idleTimeout === undefined) return expires
+	return Math.min(expires, record.touchedAt + options.idleTimeout * 1000)
+}
+
+/**
+ * Open the session of a request from its session cookie, or a new one
+ */
+async function openSession(
+	cookies: Cookies,
+	options: SessionOptions & { store: SessionStore }
+): Promise<Session> {
+	const name = options.cookie?.name ?? DEFAULT_COOKIE
+	const value = cookies.get(name)
+	let stored = value === undefined ? undefined : await options.store.load(value, name)
+	if (stored && expiresAt(stored, options) <= Date.now()) {
+		await options.store.destroy(stored)
+		stored = undefined
+	}
+	if (stored) stored.touchedAt = Date.now()
+
+	const state: SessionState = {
+		record: stored ?? newRecord(),
+		options,
+		cookies,
+		loaded: !!stored,
+		modified: false,
+		destroyed: false,
+		committed: false,
+	}
+	const forget = () => {
+		if (state.loaded) state.previous ??= { ...state.record }
+	}
+	const session: Session = {
+		get id() {
+			return state.record.id
+		},
+		get(key) {
+			return state.record.data[key]
+		},
+		set(key, value) {
+			state.record.data[key] = value
+			state.modified = true
+		},
+		delete(key) {
+			if (!(key in state.record.data)) return
+			delete state.record.data[key]
+			state.modified = true
+		},
+		regenerate() {
+			forget()
+			state.record.id = crypto.randomUUID()
+			state.modified = true
+		},
+		destroy() {
+			forget()
+			state.record = newRecord()
+			state.modified = false
+			state.destroyed = true
+		},
+		flash(key, value) {
+			state.record.flash[key] = value
+			state.modified = true
+		},
+		getFlash(key) {
+			if (!(key in state.record.flash)) return undefined
+			const value = state.record.flash[key]
+			delete state.record.flash[key]
+			state.modified = true
+			return value
+		},
+	}
+	states.set(session, state)
+	return session
+}
+
+/**
+ * Store the changes of a session and set or delete its cookie. Sessions are
+ * committed once: by whoever opened them.
+ */
+async function commitSession(session: Session): Promise<void> {
+	const state = states.get(session)
+	if (!state || state.committed) return
+	state.committed = true
+	const { record, options, cookies } = state
+	const { name = DEFAULT_COOKIE, ...cookieOptions } = options.cookie ?? {}
+
+	if (state.previous) await options.store.destroy(state.previous)
+	// Sessions are stored once they hold values, then kept alive by requests
+	const touched = state.loaded && (options.rolling || options.idleTimeout !== undefined)
+	if (state.modified || (touched && !state.destroyed)) {
+		const expires = expiresAt(record, options)
+		const value = await options.store.save(record, new Date(expires), name)
+		cookies.set(name, value, {
+			...cookieOptions,
+			maxAge: Math.round((expires - Date.now()) / 1000),
+		})
+	} else if (state.destroyed) {
+		cookies.delete(name, cookieOptions)
+	}
+}
+
+/**
+ * Middleware giving the requests of the routes below its `common.ts` a `ctx.session`
+ * (see `SessionOptions`). Pages below it see the session too, through `getSession()`.
+ */
+export function sessionMiddleware(options: SessionOptions = {}): TypedMiddleware<{
+	session: Session
+}> {
+	const resolved = { ...options, store: options.store ?? memorySessionStore() }
+	const middleware = defineMiddleware<{ session: Session }>(async (ctx, next) => {
+		// Opened for the page rendering this request, or by an ancestor
+		if (ctx.session) return next()
+		const session = await openSession(ctx.cookies, resolved)
+		ctx.session = session
+		const response = await next()
+		await commitSession(session)
+		return response
+	})
+	return withPageMiddleware(middleware, async (scope) => {
+		if (!scope.cookies || scope.session) return undefined
+		const session = await openSession(scope.cookies, resolved)
+		scope.session = session
+		return () => commitSession(session)
+	})
+}
+
+/**
+ * Session of the current request on the server, when its route is below a
+ * `sessionMiddleware()`
+ */
+export function getSession(): Session | undefined {
+	return getContext()?.session
+}
+
+// Sessions of a memory store, until expiry
+interface MemoryEntry {
+	record: SessionRecord
+	expires: number
+}
+
+/**
+ * Store keeping sessions in memory, for development and single processes
+ */
+export function memorySessionStore(): SessionStore {
+	const entries = new Map<string, MemoryEntry>()
+	let swept = Date.now()
+	return {
+		async load(id) {
+			const entry = entries.get(id)
+			if (entry && entry.expires > Date.now()) return structuredClone(entry.record)
+			entries.delete(id)
+			return undefined
+		},
+		async save(record, expires) {
+			const now = Date.now()
+			// Expired sessions are swept once a minute
+			if (now - swept > 60_000) {
+				swept = now
+				for (const [id, entry] of entries) if (entry.expires <= now) entries.delete(id)
+			}
+			entries.set(record.id, { record: structuredClone(record), expires: expires.getTime() })
+			return record.id
+		},
+		async destroy(record) {
+			entries.delete(record.id)
+		},
+	}
+}
+
+/**
+ * Options of `cookieSessionStore`
+ */
+export interface CookieSessionStoreOptions {
+	/** Secret signing sessions, or secrets from newest to oldest (see `CookieConfig`) */
+	secret: string | string[]
+	/** Encrypt sessions instead of only signing them */
+	encrypted?: boolean
+}
+
+/**
+ * Store keeping sessions in the session cookie itself, signed or encrypted: nothing
+ * is kept on the server, and cookies are limited to about 4KB
+ */
+export function cookieSessionStore(options: CookieSessionStoreOptions): SessionStore {
+	const secrets = [options.secret].flat()
+	if (secrets.length === 0) {
+		throw new Error('[pounce-board] cookieSessionStore needs a secret')
+	}
+	return {
+		// Sealed with the name of the cookie, not to be read from another cookie
+		async load(value, cookie) {
+			const opened = await openValue(cookie, value, secrets, options.encrypted)
+			return opened === undefined ? undefined : (JSON.parse(opened) as SessionRecord)
+		},
+		save(record, _expires, cookie) {
+			return sealValue(cookie, JSON.stringify(record), secrets, options.encrypted)
+		},
+		async destroy() {
+			// The cookie is the only copy of the session
+		},
+	}
+}
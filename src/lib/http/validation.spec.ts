@@ -0,0 +1,169 @@
+import { Hono } from 'hono'
+import { afterEach, describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { createPounceMiddleware } from '../../adapters/hono.js'
+import { buildRouteTree, matchRoute } from '../router/index.js'
+import { api, clearRouteRegistry, disableSSR, enableSSR, setRouteRegistry } from './client.js'
+import { ApiError, type RequestContext } from './core.js'
+import { type ValidatedContext, validateRequest, withValidation } from './validation.js'
+
+const schemas = {
+	params: z.object({ id: z.coerce.number().int() }),
+	query: z.object({ tag: z.array(z.string()).or(z.string()).optional() }),
+	body: z.object({ name: z.string().min(1) }),
+}
+
+function contextOf(url: string, init?: RequestInit, params: Record<string, any> = {}) {
+	return { request: new Request(url, init), params } as RequestContext
+}
+
+function post(body: string, type = 'application/json') {
+	return { method: 'POST', body, headers: { 'Content-Type': type } }
+}
+
+describe('validateRequest', () => {
+	it('should store the parsed values on the context', async () => {
+		const context = contextOf('http://localhost/users/7?tag=a&tag=b', post('{"name":"Ada"}'), {
+			id: '7',
+		})
+		expect(await validateRequest(context, schemas)).toBeUndefined()
+		expect(context.params).toEqual({ id: 7 })
+		expect(context.query).toEqual({ tag: ['a', 'b'] })
+		expect(context.body).toEqual({ name: 'Ada' })
+		// The handler can still read the request
+		expect(await context.request.json()).toEqual({ name: 'Ada' })
+	})
+
+	it('should list the issues of every part with a 422', async () => {
+		const context = contextOf('http://localhost/users/x', post('{"name":""}'), { id: 'x' })
+		const response = await validateRequest(context, schemas)
+		expect(response?.status).toBe(422)
+		expect(response?.data).toEqual({
+			error: 'Unprocessable Entity',
+			issues: [
+				expect.objectContaining({ in: 'params', path: ['id'], code: 'invalid_type' }),
+				expect.objectContaining({ in: 'body', path: ['name'], code: 'too_small' }),
+			],
+		})
+		expect(context.body).toBeUndefined()
+	})
+
+	it('should answer 400 to malformed JSON', async () => {
+		const response = await validateRequest(contextOf('http://localhost/', post('{')), schemas)
+		expect(response).toEqual({
+			status: 400,
+			data: {
+				error: 'Invalid JSON',
+				issues: [{ in: 'body', path: [], code: 'invalid_json', message: 'Body is not valid JSON' }],
+			},
+		})
+	})
+
+	it('should read form bodies and headers', async () => {
+		const context = contextOf(
+			'http://localhost/',
+			post('name=Ada&role=a&role=b', 'application/x-www-form-urlencoded')
+		)
+		const response = await validateRequest(context, {
+			body: z.object({ name: z.string(), role: z.array(z.string()) }),
+			headers: z.object({ 'content-type': z.string() }),
+		})
+		expect(response).toBeUndefined()
+		expect(context.body).toEqual({ name: 'Ada', role: ['a', 'b'] })
+		expect(context.headers).toEqual({ 'content-type': 'application/x-www-form-urlencoded' })
+	})
+})
+
+describe('withValidation', () => {
+	it('should type the context of handlers with the parsed values', async () => {
+		const handler = async (ctx: ValidatedContext<typeof schemas>) => ({
+			status: 200,
+			data: { id: ctx.params.id + 1, name: ctx.body.name.toUpperCase() },
+		})
+		const validated = withValidation(handler as any, schemas)
+		const context = contextOf('http://localhost/users/1', post('{"name":"ada"}'), { id: '1' })
+		expect(await validated(context)).toEqual({ status: 200, data: { id: 2, name: 'ADA' } })
+	})
+
+	it('should return handlers without schemas unchanged', () => {
+		const handler = async () => ({ status: 200 })
+		expect(withValidation(handler)).toBe(handler)
+	})
+})
+
+describe('route schemas', () => {
+	const item = {
+		schemas: {
+			post: { body: z.object({ name: z.string() }) },
+			DELETE: { query: z.object({ force: z.enum(['true', 'false']) }) },
+		},
+		get: async () => ({ status: 200, data: 'unchecked' }),
+		post: async ({ body }: RequestContext) => ({ status: 201, data: body }),
+		del: async ({ query }: RequestContext) => ({ status: 200, data: query }),
+	}
+	const globRoutes = { '/validated-routes/items.ts': async () => item }
+
+	afterEach(() => {
+		disableSSR()
+		clearRouteRegistry()
+	})
+
+	it('should validate handlers by export name or method, eagerly or lazily', async () => {
+		for (const lazy of [false, true]) {
+			const tree = await buildRouteTree('/validated-routes', undefined, globRoutes, {
+				lazy,
+				routeExports: { 'items.ts': ['schemas', 'get', 'post', 'del'] },
+			})
+			const run = (method: string, url: string, init?: RequestInit) =>
+				matchRoute(new URL(url).pathname, tree, method)!.handler!(
+					contextOf(url, { method, ...init })
+				)
+
+			expect(await run('GET', 'http://localhost/items')).toEqual({ status: 200, data: 'unchecked' })
+			expect(await run('POST', 'http://localhost/items', post('{"name":1}'))).toMatchObject({
+				status: 422,
+			})
+			expect(await run('POST', 'http://localhost/items', post('{"name":"a"}'))).toEqual({
+				status: 201,
+				data: { name: 'a' },
+			})
+			expect(await run('DELETE', 'http://localhost/items?force=true')).toEqual({
+				status: 200,
+				data: { force: 'true' },
+			})
+		}
+	})
+
+	it('should answer validation errors through the adapter', async () => {
+		const app = new Hono()
+		app.use('*', createPounceMiddleware({ routesDir: '/validated-routes', globRoutes }))
+		const res = await app.request('http://localhost/items', {
+			method: 'POST',
+			body: '{}',
+			headers: { 'Content-Type': 'application/json' },
+		})
+		expect(res.status).toBe(422)
+		expect(await res.json()).toMatchObject({
+			error: 'Unprocessable Entity',
+			issues: [{ in: 'body', path: ['name'], code: 'invalid_type' }],
+		})
+	})
+
+	it('should validate requests dispatched locally during SSR', async () => {
+		const tree = await buildRouteTree('/validated-routes', undefined, globRoutes)
+		setRouteRegistry({
+			match: (url, method) => {
+				const match = matchRoute(url, tree, method)
+				return match && { handler: match.handler!, middlewareStack: [], params: match.params }
+			},
+		})
+		enableSSR()
+
+		expect(await api('/items').post({ name: 'a' })).toEqual({ name: 'a' })
+		const error = await api('/items')
+			.post({ name: 2 })
+			.catch((error: ApiError) => error)
+		expect(error).toBeInstanceOf(ApiError)
+		expect((error as ApiError).status).toBe(422)
+	})
+})
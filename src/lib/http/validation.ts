@@ -0,0 +1,157 @@
+/**
+ * Request validation for pounce-board
+ *
+ * Route modules export `schemas`: zod schemas of the `params`, `query`, `body` and
+ * `headers` of their handlers. Requests are validated after the middleware, right
+ * before the handler, which finds the parsed values on its context.
+ */
+import type { z } from 'zod'
+import type { RequestContext, RouteHandler, RouteResponse } from './core.js'
+
+/**
+ * Schemas of the request of a handler
+ */
+export interface RequestSchemas {
+	params?: z.ZodTypeAny
+	query?: z.ZodTypeAny
+	body?: z.ZodTypeAny
+	headers?: z.ZodTypeAny
+}
+
+/**
+ * `schemas` export of route modules: request schemas by handler export
+ * (`get`, `post`, `del`...) or by method (`DELETE`)
+ */
+export type SchemasExport = Record<string, RequestSchemas | undefined>
+
+/**
+ * Context of a handler whose request `Schemas` validate: the parsed values
+ * replace the raw ones, e.g. `ctx.body` for a `body` schema. `Base` can be the
+ * `RouteContext` of the route.
+ */
+export type ValidatedContext<Schemas extends RequestSchemas, Base = RequestContext> = Base & {
+	[K in keyof Schemas]-?: NonNullable<Schemas[K]> extends z.ZodTypeAny
+		? z.output<NonNullable<Schemas[K]>>
+		: never
+}
+
+/**
+ * Part of the request a validation issue is about
+ */
+export type RequestPart = keyof RequestSchemas
+
+/**
+ * Problem found in a request, as listed by validation error responses
+ */
+export interface ValidationIssue {
+	in: RequestPart
+	/** Path of the value in the request part */
+	path: (string | number)[]
+	code: string
+	message: string
+}
+
+// Repeated keys (`?tag=a&tag=b`) give arrays
+function collect(entries: Iterable<[string, unknown]>): Record<string, unknown> {
+	const values: Record<string, unknown> = {}
+	for (const [key, value] of entries) {
+		const previous = values[key]
+		if (previous === undefined) values[key] = value
+		else values[key] = Array.isArray(previous) ? [...previous, value] : [previous, value]
+	}
+	return values
+}
+
+/**
+ * Body of a request: JSON, form fields, or text. Returns undefined when a JSON body
+ * cannot be parsed. The request is cloned, so that handlers can still read it.
+ */
+async function readBody(request: Request): Promise<{ value: unknown } | undefined> {
+	if (!request.body) return { value: undefined }
+	const type = request.headers.get('Content-Type') ?? ''
+	const copy = request.clone()
+	if (type.includes('application/x-www-form-urlencoded') || type.includes('multipart/form-data')) {
+		return { value: collect(await copy.formData()) }
+	}
+	const text = await copy.text()
+	if (text === '') return { value: undefined }
+	if (type && !type.includes('json')) return { value: text }
+	try {
+		return { value: JSON.parse(text) }
+	} catch {
+		return undefined
+	}
+}
+
+function rawValue(context: RequestContext, part: Exclude<RequestPart, 'body'>): unknown {
+	if (part === 'params') return context.params
+	if (part === 'query') return collect(new URL(context.request.url).searchParams)
+	return Object.fromEntries(context.request.headers)
+}
+
+function errorResponse(status: number, error: string, issues: ValidationIssue[]): RouteResponse {
+	return { status, data: { error, issues } }
+}
+
+/**
+ * Validate the request of a context against schemas, storing the parsed values on
+ * the context. Returns the error response to send instead of running the handler:
+ * 400 for a body that is not valid JSON, 422 listing the issues of every part.
+ */
+export async function validateRequest(
+	context: RequestContext,
+	schemas: RequestSchemas
+): Promise<RouteResponse | undefined> {
+	const issues: ValidationIssue[] = []
+	const parsed: Partial<Record<RequestPart, unknown>> = {}
+
+	for (const part of ['params', 'query', 'headers', 'body'] as const) {
+		const schema = schemas[part]
+		if (!schema) continue
+		let value: unknown
+		if (part === 'body') {
+			const body = await readBody(context.request)
+			if (!body) {
+				return errorResponse(400, 'Invalid JSON', [
+					{ in: 'body', path: [], code: 'invalid_json', message: 'Body is not valid JSON' },
+				])
+			}
+			value = body.value
+		} else {
+			value = rawValue(context, part)
+		}
+
+		const result = await schema.safeParseAsync(value)
+		if (result.success) {
+			parsed[part] = result.data
+		} else {
+			for (const issue of result.error.issues) {
+				issues.push({ in: part, path: issue.path, code: issue.code, message: issue.message })
+			}
+		}
+	}
+
+	if (issues.length > 0) return errorResponse(422, 'Unprocessable Entity', issues)
+	Object.assign(context, parsed)
+	return undefined
+}
+
+/**
+ * Schemas of a handler in the `schemas` export of its module
+ */
+export function handlerSchemas(
+	exported: SchemasExport | undefined,
+	exportName: string,
+	method: string
+): RequestSchemas | undefined {
+	return exported?.[exportName] ?? exported?.[method]
+}
+
+/**
+ * Handler validating its request before running (see `validateRequest`),
+ * or the handler itself without schemas
+ */
+export function withValidation(handler: RouteHandler, schemas?: RequestSchemas): RouteHandler {
+	if (!schemas) return handler
+	return async (context) => (await validateRequest(context, schemas)) ?? handler(context)
+}
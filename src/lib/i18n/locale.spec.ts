@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { createScope, runWithContext } from '../http/context.js'
+import {
+	detectLocale,
+	getLocale,
+	localeCookie,
+	localizePath,
+	negotiateLocale,
+	splitLocalePath,
+} from './locale.js'
+
+const options = { locales: ['en', 'fr', 'pt-BR'], defaultLocale: 'en' }
+
+describe('splitLocalePath', () => {
+	it('should split a supported locale prefix', () => {
+		expect(splitLocalePath('/fr/users/42', options.locales)).toEqual({
+			locale: 'fr',
+			path: '/users/42',
+		})
+		expect(splitLocalePath('/PT-br', options.locales)).toEqual({ locale: 'pt-BR', path: '/' })
+		expect(splitLocalePath('/users/42', options.locales)).toEqual({ path: '/users/42' })
+		expect(splitLocalePath('/french', options.locales)).toEqual({ path: '/french' })
+	})
+})
+
+describe('negotiateLocale', () => {
+	it('should pick the best supported locale by quality', () => {
+		expect(negotiateLocale('de, fr;q=0.5, en;q=0.8', options.locales)).toBe('en')
+		expect(negotiateLocale('fr-CA', options.locales)).toBe('fr')
+		expect(negotiateLocale('pt-br;q=0.9, en;q=0', options.locales)).toBe('pt-BR')
+		expect(negotiateLocale('de', options.locales)).toBeUndefined()
+		expect(negotiateLocale(null, options.locales)).toBeUndefined()
+	})
+})
+
+describe('detectLocale', () => {
+	const request = (headers: Record<string, string>) => new Request('http://localhost/', { headers })
+
+	it('should prefer the cookie, then Accept-Language, then the default locale', () => {
+		expect(detectLocale(request({ Cookie: 'locale=fr', 'Accept-Language': 'en' }), options)).toBe(
+			'fr'
+		)
+		expect(detectLocale(request({ Cookie: 'locale=xx', 'Accept-Language': 'fr' }), options)).toBe(
+			'fr'
+		)
+		expect(detectLocale(request({ 'Accept-Language': 'fr' }), { ...options, detect: false })).toBe(
+			'en'
+		)
+		expect(detectLocale(request({ Cookie: 'locale=fr' }), { ...options, cookie: false })).toBe('en')
+	})
+
+	it('should not set the cookie the request already carries', () => {
+		expect(localeCookie('fr', options)).toBe('locale=fr; Path=/; Max-Age=31536000; SameSite=Lax')
+		expect(localeCookie('fr', options, request({ Cookie: 'locale=fr' }))).toBeUndefined()
+		expect(localeCookie('fr', { ...options, cookie: false })).toBeUndefined()
+	})
+})
+
+describe('localizePath', () => {
+	it('should prefix paths unless served in the default locale without prefix', () => {
+		const state = { defaultLocale: 'en', prefixDefaultLocale: false }
+		expect(localizePath('/users/42', 'fr', state)).toBe('/fr/users/42')
+		expect(localizePath('/', 'fr', state)).toBe('/fr')
+		expect(localizePath('/users/42', 'en', state)).toBe('/users/42')
+		expect(localizePath('/', 'en', { ...state, prefixDefaultLocale: true })).toBe('/en')
+	})
+})
+
+describe('getLocale', () => {
+	it('should read the locale of the current request', async () => {
+		const scope = createScope()
+		scope.locale = {
+			locale: 'fr',
+			locales: options.locales,
+			defaultLocale: 'en',
+			prefixDefaultLocale: false,
+		}
+		expect(await runWithContext(scope, async () => getLocale())).toBe('fr')
+	})
+})
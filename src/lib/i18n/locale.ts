@@ -0,0 +1,181 @@
+/**
+ * Locale-prefixed routing and message loading for pounce-board
+ *
+ * With `i18n` options, the adapter strips a locale prefix from request paths
+ * (`/fr/users/42` is routed as `/users/42`), detects the locale of unprefixed
+ * requests (cookie, then `Accept-Language`) and redirects to the localized path.
+ * The locale is exposed as `ctx.locale` to handlers, as the `locale` prop to
+ * pages and layouts, and through `getLocale()` on both sides: the server
+ * injects it with the messages of the locale into the hydration payload.
+ */
+import { getContext } from '../http/context.js'
+import { getSSRData } from '../ssr/utils.js'
+
+/**
+ * Messages of a locale, as loaded from its bundle
+ */
+export type Messages = Record<string, unknown>
+
+/**
+ * Locale options of `PounceMiddlewareOptions.i18n`
+ */
+export interface I18nOptions {
+	/** Supported locales, used as path prefixes (e.g. `['en', 'fr', 'de', 'es']`) */
+	locales: string[]
+	/** Locale of requests that name none and cannot be detected */
+	defaultLocale: string
+	/** Prefix the paths of the default locale too. Default: false (`/users/42` is in the default locale) */
+	prefixDefaultLocale?: boolean
+	/** Cookie remembering the locale of the last prefixed request, or false. Default: `'locale'` */
+	cookie?: string | false
+	/** Detect the locale of unprefixed requests from `Accept-Language`. Default: true */
+	detect?: boolean
+	/** Load the message bundle of a locale, injected into the hydration payload of pages */
+	messages?: (locale: string) => Messages | Promise<Messages>
+}
+
+/**
+ * Locale of the current request, shared with the client through the hydration payload
+ */
+export interface LocaleState {
+	locale: string
+	locales: string[]
+	defaultLocale: string
+	prefixDefaultLocale: boolean
+	messages?: Messages
+}
+
+/** Id of the hydration payload entry holding the `LocaleState` */
+export const LOCALE_DATA_ID = 'pounce-locale'
+
+const DEFAULT_COOKIE = 'locale'
+
+/**
+ * Split the locale prefix from a URL path. The remaining path keeps its encoding.
+ */
+export function splitLocalePath(
+	urlPath: string,
+	locales: string[]
+): { locale?: string; path: string } {
+	const match = /^\/([^/]+)(\/.*)?$/.exec(urlPath)
+	const prefix = match && locales.find((locale) => locale.toLowerCase() === match[1].toLowerCase())
+	if (!match || !prefix) return { path: urlPath }
+	return { locale: prefix, path: match[2] ?? '/' }
+}
+
+/**
+ * Best supported locale of an `Accept-Language` header, by quality then order.
+ * A region falls back to its language (`fr-CA` accepts `fr`).
+ */
+export function negotiateLocale(header: string | null, locales: string[]): string | undefined {
+	if (!header) return undefined
+	const ranges = header
+		.split(',')
+		.map((part, index) => {
+			const [range, ...attributes] = part.trim().split(';')
+			const quality = attributes
+				.map((attribute) => /^\s*q=([\d.]+)/.exec(attribute)?.[1])
+				.find(Boolean)
+			return { range: range.trim().toLowerCase(), quality: quality ? Number(quality) : 1, index }
+		})
+		.filter(({ range, quality }) => range && quality > 0)
+		.sort((a, b) => b.quality - a.quality || a.index - b.index)
+	for (const { range } of ranges) {
+		const exact = locales.find((locale) => locale.toLowerCase() === range)
+		if (exact) return exact
+		const language = locales.find((locale) => locale.toLowerCase() === range.split('-')[0])
+		if (language) return language
+	}
+	return undefined
+}
+
+function readCookie(header: string | null, name: string): string | undefined {
+	for (const part of header?.split(';') ?? []) {
+		const [key, ...value] = part.trim().split('=')
+		if (key === name) return decodeURIComponent(value.join('='))
+	}
+	return undefined
+}
+
+/**
+ * Locale of a request without locale prefix: that of its cookie, then of its
+ * `Accept-Language` header, then the default one
+ */
+export function detectLocale(request: Request, options: I18nOptions): string {
+	const cookieName = options.cookie ?? DEFAULT_COOKIE
+	const cookie = cookieName ? readCookie(request.headers.get('Cookie'), cookieName) : undefined
+	if (cookie && options.locales.includes(cookie)) return cookie
+	const accepted =
+		options.detect === false
+			? undefined
+			: negotiateLocale(request.headers.get('Accept-Language'), options.locales)
+	return accepted ?? options.defaultLocale
+}
+
+/**
+ * `Set-Cookie` header remembering a locale, unless the request already carries it
+ */
+export function localeCookie(
+	locale: string,
+	options: I18nOptions,
+	request?: Request
+): string | undefined {
+	const cookieName = options.cookie ?? DEFAULT_COOKIE
+	if (!cookieName) return undefined
+	if (request && readCookie(request.headers.get('Cookie'), cookieName) === locale) return undefined
+	return `${cookieName}=${encodeURIComponent(locale)}; Path=/; Max-Age=31536000; SameSite=Lax`
+}
+
+/**
+ * Path of a locale: prefixed, unless it is the default locale served without prefix
+ */
+export function localizePath(
+	path: string,
+	locale: string,
+	options: Pick<LocaleState, 'defaultLocale' | 'prefixDefaultLocale'>
+): string {
+	if (locale === options.defaultLocale && !options.prefixDefaultLocale) return path
+	return path === '/' ? `/${locale}` : `/${locale}${path}`
+}
+
+// Locale read from the hydration payload, kept for the lifetime of the page
+let clientState: LocaleState | undefined
+let clientHydrated = false
+
+/**
+ * Locale of the current request on the server, or of the hydrated page on the client
+ */
+export function getLocaleState(): LocaleState | undefined {
+	const context = getContext()
+	if (context) return context.locale
+	if (!clientHydrated && typeof document !== 'undefined') {
+		clientHydrated = true
+		// Pages served without `i18n` options carry no locale
+		if (document.getElementById(LOCALE_DATA_ID)) {
+			clientState = getSSRData<LocaleState>(LOCALE_DATA_ID)
+		}
+	}
+	return clientState
+}
+
+/**
+ * Set the locale of the page on the client, e.g. after switching language
+ */
+export function setLocaleState(state: LocaleState | undefined): void {
+	clientHydrated = true
+	clientState = state
+}
+
+/**
+ * Current locale (see `getLocaleState`)
+ */
+export function getLocale(): string | undefined {
+	return getLocaleState()?.locale
+}
+
+/**
+ * Messages of the current locale (see `I18nOptions.messages`)
+ */
+export function getMessages(): Messages | undefined {
+	return getLocaleState()?.messages
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { z } from 'zod'
+import { createScope, runWithContext } from '../http/context'
 import { defineRoute } from './defs'
 
 describe('defineRoute', () => {
@@ -46,4 +47,28 @@ describe('defineRoute', () => {
         const url = route.buildUrl({ id: '123', details: true })
         expect(url).toBe('/users/123?details=true')
     })
+
+	it('should substitute optional catch-all params', () => {
+		const route = defineRoute('/docs/[[...slug]]')
+		expect(route.buildUrl({ slug: 'guide/intro' })).toBe('/docs/guide/intro')
+		expect(route.buildUrl({ slug: 'guide' })).toBe('/docs/guide')
+		expect(route.buildUrl({})).toBe('/docs')
+	})
+
+	it('should key param matcher segments by their param name', () => {
+		const route = defineRoute('/items/[id=int]')
+		expect(route.buildUrl({ id: 42 })).toBe('/items/42')
+	})
+
+	it('should prefix the locale of the current request', async () => {
+		const route = defineRoute('/users/[id]')
+		const scope = createScope()
+		scope.locale = { locale: 'fr', locales: ['en', 'fr'], defaultLocale: 'en', prefixDefaultLocale: false }
+		const urls = await runWithContext(scope, async () => [
+			route.buildUrl({ id: '42' }),
+			route.buildUrl({ id: '42' }, { locale: 'en' }),
+		])
+		expect(urls).toEqual(['/fr/users/42', '/users/42'])
+		expect(route.buildUrl({ id: '42' }, { locale: 'fr' })).toBe('/users/42')
+	})
 })
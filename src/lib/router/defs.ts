@@ -1,28 +1,50 @@
 import { z } from 'zod'
 import { parsePathSegment } from 'pounce-ts'
+import { getLocaleState, localizePath } from '../i18n/locale.js'
+import type { ParamMatcherTypes } from './params.js'
 
 export type RouteParams<Path extends string> = Record<string, string>
 
-// Helper to extract params from path string like /users/[id]
+// Helper to extract params from path string like /users/[id]. Catch-all params are
+// the joined rest of the path (`guide/intro`), like at runtime.
 type ExtractParams<Path extends string> = Path extends `${infer Start}/${infer Rest}`
 	? ExtractParams<Start> & ExtractParams<Rest>
+	: Path extends `[[...${infer Param}]]`
+	? { [K in Param]?: string }
 	: Path extends `[...${infer Param}]`
 	? { [K in Param]: string }
+	: Path extends `[${infer Param}=${infer Matcher}]`
+	? { [K in Param]: Matcher extends keyof ParamMatcherTypes ? ParamMatcherTypes[Matcher] : string }
 	: Path extends `[${infer Param}]`
 	? { [K in Param]: string }
 	: {}
 
+/**
+ * Params of a route pattern, typed by the matchers of its segments
+ */
+export type PathParams<Path extends string> = ExtractParams<Path>
+
 export interface RouteDefinition<
 	Path extends string = string,
 	QuerySchema extends z.ZodType = z.ZodType,
 > {
 	path: Path
 	querySchema?: QuerySchema
+	/**
+	 * URL of the route. With `i18n` options, the path is prefixed with the locale
+	 * of the current request (or page), unless another `locale` is given.
+	 */
 	buildUrl: (
-		params: ExtractParams<Path> & z.input<QuerySchema>
+		params: ExtractParams<Path> & z.input<QuerySchema>,
+		options?: BuildUrlOptions
 	) => string
 }
 
+export interface BuildUrlOptions {
+	/** Locale of the URL, among `I18nOptions.locales` */
+	locale?: string
+}
+
 export function defineRoute<
 	Path extends string,
 	QuerySchema extends z.ZodType
@@ -33,29 +55,41 @@ export function defineRoute<
 	return {
 		path,
 		querySchema,
-		buildUrl: (params: any) => {
-			let url: string = path
+		buildUrl: (params: any, options?: BuildUrlOptions) => {
 			const queryParams = new URLSearchParams()
-			
-			// Separate path params and query params
-			// This is a bit naive, ideally we'd separate them based on the path structure
-			// But since we have the path string, we can regex replace
-			
 			const pathKeys = new Set<string>()
-            const segments = path.split('/')
-            for (const segment of segments) {
-                 if (segment.startsWith('[') && segment.endsWith(']')) {
-                     const isCatchAll = segment.startsWith('[...')
-                     const key = segment.slice(isCatchAll ? 4 : 1, -1)
-                     pathKeys.add(key)
-                     
-                     if (params[key] === undefined) {
-                         throw new Error(`Missing path parameter: ${key}`)
-                     }
-                     
-                     url = url.replace(segment, params[key])
-                 }
-            }
+			const urlSegments: string[] = []
+
+			// Substitute path params segment by segment
+			for (const segment of path.split('/')) {
+				if (!(segment.startsWith('[') && segment.endsWith(']'))) {
+					urlSegments.push(segment)
+					continue
+				}
+
+				const isOptional = segment.startsWith('[[...') && segment.endsWith(']]')
+				const isCatchAll = isOptional || segment.startsWith('[...')
+				// `[id=int]` is keyed by `id`
+				const key = (
+					isOptional ? segment.slice(5, -2) : segment.slice(isCatchAll ? 4 : 1, -1)
+				).split('=')[0]
+				pathKeys.add(key)
+
+				const value = params[key]
+				// An omitted optional catch-all drops its segment entirely
+				if (isOptional && (value === undefined || value === '')) continue
+				if (value === undefined) {
+					throw new Error(`Missing path parameter: ${key}`)
+				}
+
+				urlSegments.push(String(value))
+			}
+			const localeState = getLocaleState()
+			const locale = options?.locale ?? localeState?.locale
+			const url =
+				localeState && locale
+					? localizePath(urlSegments.join('/') || '/', locale, localeState)
+					: urlSegments.join('/') || '/'
 
 			// Validate and append query params
 			if (querySchema) {
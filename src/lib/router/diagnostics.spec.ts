@@ -0,0 +1,207 @@
+import { describe, expect, it, vi } from 'vitest'
+import { formatRouteDiagnostics, getRouteDiagnostics, RouteBuildError } from './diagnostics.js'
+import { buildRouteTree, matchRoute } from './index.js'
+
+const handlers = async () => ({ get: () => {} })
+
+async function diagnose(globRoutes: Record<string, () => Promise<any>>) {
+	const onDiagnostics = vi.fn()
+	const tree = await buildRouteTree('/routes', undefined, globRoutes, { onDiagnostics })
+	return { tree, diagnostics: getRouteDiagnostics(tree), onDiagnostics }
+}
+
+describe('route diagnostics', () => {
+	it('should report a named file and a directory index defining the same method', async () => {
+		const { diagnostics } = await diagnose({
+			'/routes/users.ts': handlers,
+			'/routes/users/index.ts': async () => ({ get: () => {}, post: () => {} }),
+		})
+
+		expect(diagnostics).toEqual([
+			expect.objectContaining({
+				severity: 'error',
+				code: 'conflicting-handlers',
+				path: '/users',
+				files: ['users.ts', 'users/index.ts'],
+			}),
+		])
+	})
+
+	it('should merge handlers of different methods from both files', async () => {
+		const { tree, diagnostics } = await diagnose({
+			'/routes/users.ts': handlers,
+			'/routes/users/index.ts': async () => ({ post: () => {} }),
+		})
+
+		expect(diagnostics).toEqual([])
+		expect(matchRoute('/users', tree, 'GET')?.handler).toBeDefined()
+		expect(matchRoute('/users', tree, 'POST')?.handler).toBeDefined()
+	})
+
+	it('should report route groups defining the same URL', async () => {
+		const { diagnostics } = await diagnose({
+			'/routes/(auth)/login.ts': handlers,
+			'/routes/(legacy)/login.ts': handlers,
+		})
+
+		expect(diagnostics).toEqual([
+			expect.objectContaining({
+				code: 'shadowed-route',
+				path: '/(legacy)/login',
+				files: ['(auth)/login.ts', '(legacy)/login.ts'],
+			}),
+		])
+	})
+
+	it('should report dynamic siblings answering the same URLs', async () => {
+		const { diagnostics } = await diagnose({
+			'/routes/posts/[id]/index.ts': handlers,
+			'/routes/posts/[slug]/index.ts': handlers,
+		})
+
+		expect(diagnostics).toEqual([
+			expect.objectContaining({ code: 'unreachable-dynamic', path: '/posts/[slug]' }),
+		])
+	})
+
+	it('should not report dynamic siblings told apart by a param matcher', async () => {
+		const { diagnostics } = await diagnose({
+			'/routes/posts/[id=int]/index.ts': handlers,
+			'/routes/posts/[slug]/index.ts': handlers,
+		})
+
+		expect(diagnostics).toEqual([])
+	})
+
+	it('should report modules that fail to load and keep building', async () => {
+		const { tree, diagnostics } = await diagnose({
+			'/routes/broken/index.ts': async () => {
+				throw new Error('Syntax error')
+			},
+			'/routes/ok/index.ts': handlers,
+		})
+
+		expect(diagnostics).toEqual([
+			expect.objectContaining({
+				code: 'load-failed',
+				path: '/broken',
+				files: ['broken/index.ts'],
+				cause: expect.any(Error),
+			}),
+		])
+		expect(matchRoute('/ok', tree)).not.toBeNull()
+	})
+
+	it('should warn about common.ts without a middleware export', async () => {
+		const { diagnostics } = await diagnose({
+			'/routes/admin/common.ts': async () => ({ middlewares: [] }),
+		})
+
+		expect(diagnostics).toEqual([
+			expect.objectContaining({
+				severity: 'warning',
+				code: 'missing-middleware-export',
+				path: '/admin',
+			}),
+		])
+	})
+
+	it('should report segments naming an unknown param matcher', async () => {
+		const { diagnostics } = await diagnose({ '/routes/items/[id=nope].ts': handlers })
+
+		expect(diagnostics).toEqual([
+			expect.objectContaining({ code: 'unknown-param-matcher', path: '/items/[id=nope]' }),
+		])
+	})
+
+	it('should report routes nested deeper than the matcher goes', async () => {
+		const deep = Array.from({ length: 52 }, (_, index) => `d${index}`).join('/')
+		const { tree, diagnostics } = await diagnose({ [`/routes/${deep}/index.ts`]: handlers })
+
+		expect(diagnostics).toEqual([
+			expect.objectContaining({ severity: 'warning', code: 'too-deep' }),
+		])
+		expect(matchRoute(`/${deep}`, tree)).toBeNull()
+	})
+
+	it('should pass diagnostics to onDiagnostics instead of logging them', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+		const { onDiagnostics } = await diagnose({
+			'/routes/(a)/login.ts': handlers,
+			'/routes/(b)/login.ts': handlers,
+		})
+
+		expect(onDiagnostics).toHaveBeenCalledWith([
+			expect.objectContaining({ code: 'shadowed-route' }),
+		])
+		expect(error).not.toHaveBeenCalled()
+		error.mockRestore()
+	})
+
+	it('should log errors by default', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+		await buildRouteTree('/routes', undefined, {
+			'/routes/(a)/login.ts': handlers,
+			'/routes/(b)/login.ts': handlers,
+		})
+
+		expect(error).toHaveBeenCalledWith(expect.stringContaining('shadowed-route'))
+		error.mockRestore()
+	})
+
+	describe('strict mode', () => {
+		it('should throw a RouteBuildError carrying the diagnostics', async () => {
+			const build = buildRouteTree(
+				'/routes',
+				undefined,
+				{ '/routes/users.ts': handlers, '/routes/users/index.ts': handlers },
+				{ strict: true }
+			)
+
+			await expect(build).rejects.toBeInstanceOf(RouteBuildError)
+			await expect(build).rejects.toMatchObject({
+				diagnostics: [expect.objectContaining({ code: 'conflicting-handlers' })],
+			})
+		})
+
+		it('should not throw for warnings only', async () => {
+			const tree = await buildRouteTree(
+				'/routes',
+				undefined,
+				{ '/routes/common.ts': async () => ({}) },
+				{ strict: true, onDiagnostics: () => {} }
+			)
+
+			expect(getRouteDiagnostics(tree)).toHaveLength(1)
+		})
+	})
+
+	it('should format diagnostics for the terminal', () => {
+		const output = formatRouteDiagnostics([
+			{
+				severity: 'error',
+				code: 'conflicting-handlers',
+				path: '/users',
+				files: ['users.ts', 'users/index.ts'],
+				message: 'GET is defined by both users.ts and users/index.ts',
+			},
+			{
+				severity: 'warning',
+				code: 'missing-middleware-export',
+				path: '/admin',
+				files: ['admin/common.ts'],
+				message: 'admin/common.ts does not export `middleware`',
+			},
+		])
+
+		expect(output).toBe(
+			[
+				'[pounce-board] Route diagnostics: 1 error, 1 warning',
+				'  ✖ /users (conflicting-handlers)',
+				'    GET is defined by both users.ts and users/index.ts',
+				'  ⚠ /admin (missing-middleware-export)',
+				'    admin/common.ts does not export `middleware`',
+			].join('\n')
+		)
+	})
+})
@@ -0,0 +1,257 @@
+/**
+ * Route tree diagnostics for pounce-board
+ *
+ * `buildRouteTree` records where every handler, page and middleware comes
+ * from, then checks the finished tree for routes that cannot be reached.
+ * Problems are reported as structured diagnostics instead of being logged
+ * one by one, and fail the build in strict mode.
+ */
+import type { RouteTreeNode } from './index.js'
+import { getParamMatcher } from './params.js'
+
+export type RouteDiagnosticSeverity = 'error' | 'warning'
+
+export type RouteDiagnosticCode =
+	/** Two files of the same route define the same method or page */
+	| 'conflicting-handlers'
+	/** A route is answered by another route with the same URL (e.g. in another group) */
+	| 'shadowed-route'
+	/** A route under a dynamic segment is answered by a dynamic sibling */
+	| 'unreachable-dynamic'
+	/** A route module threw while loading */
+	| 'load-failed'
+	/** A `common.ts` file does not export `middleware` */
+	| 'missing-middleware-export'
+	/** A rule of `redirects.ts` is malformed (it is ignored) */
+	| 'invalid-redirect'
+	/** A module of the `params/` directory does not export a matcher */
+	| 'invalid-param-matcher'
+	/** A `[param=matcher]` segment names no registered matcher (it never matches) */
+	| 'unknown-param-matcher'
+	/** Routes are nested deeper than the matcher goes (they never match) */
+	| 'too-deep'
+	/** A mounted routes directory has a `redirects.ts` (its rules are ignored) */
+	| 'ignored-redirects'
+
+/**
+ * Problem found while building a route tree.
+ */
+export interface RouteDiagnostic {
+	severity: RouteDiagnosticSeverity
+	code: RouteDiagnosticCode
+	/** Route path in the tree, route groups included (e.g. `/(auth)/login`) */
+	path: string
+	/** Route files involved, relative to the routes directory */
+	files: string[]
+	message: string
+	/** Error thrown by the module, for `load-failed` */
+	cause?: unknown
+}
+
+/**
+ * Thrown by `buildRouteTree` in strict mode when the tree has errors.
+ */
+export class RouteBuildError extends Error {
+	constructor(public diagnostics: RouteDiagnostic[]) {
+		super(formatRouteDiagnostics(diagnostics))
+		this.name = 'RouteBuildError'
+	}
+}
+
+/**
+ * Files a route node was assembled from, and problems met while loading them.
+ * @internal
+ */
+export interface RouteNodeSources {
+	/** File defining each method handler */
+	handlers: Record<string, string>
+	/** File defining the page component */
+	component?: string
+	/** `common.tsx` of the directory */
+	layout?: string
+	/** `common.ts` of the directory */
+	middleware?: string
+	/** Routes directory the files are relative to (that of their mount) */
+	routesDir?: string
+	issues: Omit<RouteDiagnostic, 'path'>[]
+}
+
+/**
+ * Per-build bookkeeping of route files, keyed by tree node.
+ * @internal
+ */
+export type RouteSources = WeakMap<RouteTreeNode, RouteNodeSources>
+
+/**
+ * Get (or create) the source record of a node.
+ * @internal
+ */
+export function getNodeSources(sources: RouteSources, node: RouteTreeNode): RouteNodeSources {
+	let record = sources.get(node)
+	if (!record) {
+		record = { handlers: {}, issues: [] }
+		sources.set(node, record)
+	}
+	return record
+}
+
+// Nesting depth the matcher gives up at
+const MAX_DEPTH = 50
+
+const treeDiagnostics = new WeakMap<RouteTreeNode, RouteDiagnostic[]>()
+const treeSources = new WeakMap<RouteTreeNode, RouteSources>()
+
+/**
+ * Diagnostics recorded when the tree was built (empty for trees built by hand).
+ */
+export function getRouteDiagnostics(tree: RouteTreeNode): RouteDiagnostic[] {
+	return treeDiagnostics.get(tree) ?? []
+}
+
+/**
+ * Source records of a tree as of its last diagnosis (empty for trees built by hand).
+ * @internal
+ */
+export function getRouteSources(tree: RouteTreeNode): RouteSources {
+	return treeSources.get(tree) ?? new WeakMap()
+}
+
+// Segment as seen by the matcher: param names do not tell routes apart, matchers do
+function matchKey(node: RouteTreeNode): string {
+	if (node.isCatchAll) return node.isOptional ? '[[...]]' : '[...]'
+	if (node.isDynamic) return node.paramMatcher ? `[=${node.paramMatcher}]` : '[]'
+	return node.segment
+}
+
+// Children in the order the compiled matcher tries them
+function orderedChildren(node: RouteTreeNode): RouteTreeNode[] {
+	const children = [...node.children.values()]
+	const rank = (child: RouteTreeNode) => {
+		if (child.isRouteGroup) return 3
+		if (child.isCatchAll) return 4
+		if (child.isDynamic) return child.paramMatcher ? 1 : 2
+		return 0
+	}
+	return children.sort((a, b) => rank(a) - rank(b))
+}
+
+interface RouteClaim {
+	node: RouteTreeNode
+	path: string
+	file?: string
+}
+
+/**
+ * Check a route tree and store the diagnostics on it (see `getRouteDiagnostics`).
+ * Reports the problems recorded in `sources` while loading, then routes that
+ * another route with the same URL answers first.
+ */
+export function diagnoseRouteTree(
+	tree: RouteTreeNode,
+	sources: RouteSources = new WeakMap()
+): RouteDiagnostic[] {
+	const diagnostics: RouteDiagnostic[] = []
+	// URL pattern -> method (or `*` for pages, which accept every method) -> first route
+	const claims = new Map<string, Map<string, RouteClaim>>()
+
+	function claim(pattern: string, method: string, route: RouteClaim) {
+		let methods = claims.get(pattern)
+		if (!methods) {
+			methods = new Map()
+			claims.set(pattern, methods)
+		}
+
+		const previous = methods.get(method) ?? methods.get('*')
+		if (previous && previous.node !== route.node) {
+			const label = method === '*' ? 'Page' : method
+			// Same URL once groups are removed: a group (or the plain tree) shadows another
+			const byDynamic = stripGroups(previous.path) !== stripGroups(route.path)
+			diagnostics.push({
+				severity: 'error',
+				code: byDynamic ? 'unreachable-dynamic' : 'shadowed-route',
+				path: route.path,
+				files: [previous.file, route.file].filter((file): file is string => !!file),
+				message: `${label} ${route.path} is unreachable: ${previous.path} matches the same URLs first`,
+			})
+		} else if (!methods.has(method)) {
+			methods.set(method, route)
+		}
+	}
+
+	function visit(node: RouteTreeNode, path: string, pattern: string, depth: number) {
+		if (depth > MAX_DEPTH) {
+			diagnostics.push({
+				severity: 'warning',
+				code: 'too-deep',
+				path,
+				files: [],
+				message: `Routes below ${path} are nested more than ${MAX_DEPTH} levels deep and never match`,
+			})
+			return
+		}
+		const record = sources.get(node)
+		const routePath = path || '/'
+
+		for (const issue of record?.issues ?? []) diagnostics.push({ ...issue, path: routePath })
+		if (node.paramMatcher && !getParamMatcher(node.paramMatcher)) {
+			diagnostics.push({
+				severity: 'warning',
+				code: 'unknown-param-matcher',
+				path: routePath,
+				files: [],
+				message: `Unknown param matcher "${node.paramMatcher}" in segment ${node.segment}: it never matches`,
+			})
+		}
+
+		if (node.component || node.loaders?.component) {
+			claim(pattern || '/', '*', { node, path: routePath, file: record?.component })
+		}
+		for (const method of Object.keys(node.handlers ?? {})) {
+			claim(pattern || '/', method, { node, path: routePath, file: record?.handlers[method] })
+		}
+
+		for (const child of orderedChildren(node)) {
+			const name = child.isRouteGroup ? findKey(node, child) : child.segment
+			visit(
+				child,
+				`${path}/${name}`,
+				child.isRouteGroup ? pattern : `${pattern}/${matchKey(child)}`,
+				depth + 1
+			)
+		}
+	}
+
+	visit(tree, '', '', 0)
+	treeDiagnostics.set(tree, diagnostics)
+	treeSources.set(tree, sources)
+	return diagnostics
+}
+
+function findKey(parent: RouteTreeNode, child: RouteTreeNode): string {
+	for (const [key, value] of parent.children) if (value === child) return key
+	return ''
+}
+
+function stripGroups(path: string): string {
+	return path.replace(/\/\([^)]*\)/g, '') || '/'
+}
+
+/**
+ * Render diagnostics for the terminal, one block per diagnostic.
+ */
+export function formatRouteDiagnostics(diagnostics: RouteDiagnostic[]): string {
+	const errors = diagnostics.filter((d) => d.severity === 'error').length
+	const warnings = diagnostics.length - errors
+	const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+	const lines = [
+		`[pounce-board] Route diagnostics: ${plural(errors, 'error')}, ${plural(warnings, 'warning')}`,
+	]
+	for (const diagnostic of diagnostics) {
+		const icon = diagnostic.severity === 'error' ? '✖' : '⚠'
+		lines.push(`  ${icon} ${diagnostic.path} (${diagnostic.code})`)
+		lines.push(`    ${diagnostic.message}`)
+		if (diagnostic.cause instanceof Error) lines.push(`    ${diagnostic.cause.message}`)
+	}
+	return lines.join('\n')
+}
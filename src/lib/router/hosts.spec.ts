@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { globRoutesIn, matchHostPattern, resolveHost } from './hosts.js'
+
+describe('matchHostPattern', () => {
+	it('should match host labels and capture params', () => {
+		expect(matchHostPattern('admin.example.com', 'Admin.Example.com')).toEqual({})
+		expect(matchHostPattern('[tenant].example.com', 'acme.example.com')).toEqual({ tenant: 'acme' })
+		expect(matchHostPattern('*.example.com', 'acme.example.com')).toEqual({})
+		expect(matchHostPattern('[tenant].example.com', 'example.com')).toBeUndefined()
+		expect(matchHostPattern('[tenant].example.com', 'a.b.example.com')).toBeUndefined()
+	})
+})
+
+describe('resolveHost', () => {
+	const hosts = {
+		'[tenant].example.com': './hosts/tenant',
+		'admin.example.com': './hosts/admin',
+	}
+
+	it('should try static patterns first', () => {
+		expect(resolveHost(hosts, 'admin.example.com')).toEqual({
+			pattern: 'admin.example.com',
+			routesDir: './hosts/admin',
+			params: {},
+		})
+		expect(resolveHost(hosts, 'acme.example.com')?.params).toEqual({ tenant: 'acme' })
+		expect(resolveHost(hosts, 'localhost')).toBeUndefined()
+	})
+})
+
+describe('globRoutesIn', () => {
+	it('should keep the files of a routes directory', () => {
+		const load = async () => ({})
+		const glob = {
+			'/hosts/admin/index.ts': load,
+			'/hosts/admin-legacy/index.ts': load,
+			'/hosts/tenant/index.ts': load,
+		}
+		expect(Object.keys(globRoutesIn(glob, './hosts/admin'))).toEqual(['/hosts/admin/index.ts'])
+	})
+})
@@ -0,0 +1,77 @@
+/**
+ * Host-based route trees for pounce-board
+ *
+ * Host patterns map request hosts to routes directories, each served by its own
+ * route tree. Patterns use the segment syntax of route files on host labels:
+ * `[tenant].example.com` matches one label and captures it as the `tenant` param,
+ * `*` matches one label without capturing it.
+ */
+
+/**
+ * Routes directory by host pattern, e.g.
+ * `{ 'admin.example.com': './hosts/admin', '[tenant].example.com': './hosts/tenant' }`
+ */
+export type HostRoutes = Record<string, string>
+
+/**
+ * Routes directory of a request host, with the params captured from its labels
+ */
+export interface HostMatch {
+	pattern: string
+	routesDir: string
+	params: Record<string, string>
+}
+
+const PARAM_PATTERN = /^\[([^\]]+)\]$/
+
+function labels(host: string): string[] {
+	return host.toLowerCase().replace(/\.$/, '').split('.')
+}
+
+/**
+ * Match a hostname (without port) against a host pattern. Returns its params, or
+ * undefined when the hostname does not match.
+ */
+export function matchHostPattern(
+	pattern: string,
+	hostname: string
+): Record<string, string> | undefined {
+	const parts = labels(pattern)
+	const host = labels(hostname)
+	if (parts.length !== host.length) return undefined
+	const params: Record<string, string> = {}
+	for (const [index, part] of parts.entries()) {
+		const param = PARAM_PATTERN.exec(part)
+		if (param) params[param[1]] = host[index]
+		else if (part !== '*' && part !== host[index]) return undefined
+	}
+	return params
+}
+
+/**
+ * Routes directory of a hostname. Static patterns are tried before patterns
+ * with wildcards or params, then in declaration order.
+ */
+export function resolveHost(hosts: HostRoutes, hostname: string): HostMatch | undefined {
+	const dynamic = (pattern: string) =>
+		labels(pattern).some((part) => part === '*' || PARAM_PATTERN.test(part))
+	const patterns = Object.keys(hosts).sort((a, b) => Number(dynamic(a)) - Number(dynamic(b)))
+	for (const pattern of patterns) {
+		const params = matchHostPattern(pattern, hostname)
+		if (params) return { pattern, routesDir: hosts[pattern], params }
+	}
+	return undefined
+}
+
+/**
+ * Entries of a routes glob under a routes directory, for host trees sharing one glob
+ */
+export function globRoutesIn(
+	globRoutes: Record<string, () => Promise<any>>,
+	routesDir: string
+): Record<string, () => Promise<any>> {
+	const dir = `${routesDir.replace(/^\.\//, '').replace(/\/$/, '')}/`
+	return Object.fromEntries(
+		Object.entries(globRoutes).filter(([filePath]) => filePath.includes(dir))
+	)
+}
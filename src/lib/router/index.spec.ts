@@ -1,9 +1,12 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 import type { RequestContext } from '../http/core.js'
 import {
+	addRoute,
+	buildRouteTree,
+	getAllowedMethods,
+	loadNotFound,
 	type Middleware,
 	matchRoute,
-	buildRouteTree,
 	parseSegment,
 	type RouteHandler,
 	type RouteTreeNode,
@@ -41,6 +44,32 @@ describe('router', () => {
 		})
 	})
 
+	describe('parseSegment (param matchers)', () => {
+		it('should parse param matcher segments [id=int]', () => {
+			const result = parseSegment('[id=int]')
+			expect(result).toEqual({
+				isDynamic: true,
+				isCatchAll: false,
+				paramName: 'id',
+				paramMatcher: 'int',
+				normalizedSegment: '[id=int]',
+			})
+		})
+	})
+
+	describe('parseSegment (optional catch-all)', () => {
+		it('should parse optional catch-all segments [[...slug]]', () => {
+			const result = parseSegment('[[...slug]]')
+			expect(result).toEqual({
+				isDynamic: true,
+				isCatchAll: true,
+				isOptional: true,
+				paramName: 'slug',
+				normalizedSegment: '[[...slug]]',
+			})
+		})
+	})
+
 	describe('matchRoute', () => {
 		// Helper to create mock handler
 		const createHandler = (name: string): RouteHandler => {
@@ -191,6 +220,56 @@ describe('router', () => {
 			expect(match?.params).toEqual({ slug: 'api/users/create' })
 		})
 
+		it('should match optional catch-all with and without remaining segments', () => {
+			const slugNode: RouteTreeNode = {
+				segment: '[[...slug]]',
+				isDynamic: true,
+				isCatchAll: true,
+				isOptional: true,
+				paramName: 'slug',
+				children: new Map(),
+				handlers: { GET: createHandler('docs') },
+			}
+
+			const docsNode: RouteTreeNode = {
+				segment: 'docs',
+				isDynamic: false,
+				isCatchAll: false,
+				children: new Map([['[[...slug]]', slugNode]]),
+			}
+
+			const tree: RouteTreeNode = {
+				segment: '',
+				isDynamic: false,
+				isCatchAll: false,
+				children: new Map([['docs', docsNode]]),
+			}
+
+			expect(matchRoute('/docs/guide/intro', tree)?.params).toEqual({ slug: 'guide/intro' })
+			expect(matchRoute('/docs', tree)?.params).toEqual({})
+			expect(matchRoute('/docs/', tree)?.params).toEqual({})
+		})
+
+		it('should not match a required catch-all without remaining segments', () => {
+			const slugNode: RouteTreeNode = {
+				segment: '[...slug]',
+				isDynamic: true,
+				isCatchAll: true,
+				paramName: 'slug',
+				children: new Map(),
+				handlers: { GET: createHandler('docs') },
+			}
+
+			const tree: RouteTreeNode = {
+				segment: '',
+				isDynamic: false,
+				isCatchAll: false,
+				children: new Map([['[...slug]', slugNode]]),
+			}
+
+			expect(matchRoute('/', tree)).toBeNull()
+		})
+
 		it('should collect middleware from parent nodes', () => {
 			const mw1 = createMiddleware('mw1')
 			const mw2 = createMiddleware('mw2')
@@ -307,6 +386,45 @@ describe('router', () => {
 		})
 	})
 
+	describe('getAllowedMethods', () => {
+		const handler: RouteHandler = async () => ({ status: 200 })
+
+		it('should list handler methods with HEAD and OPTIONS', () => {
+			const tree: RouteTreeNode = {
+				segment: '',
+				isDynamic: false,
+				isCatchAll: false,
+				children: new Map(),
+				handlers: { GET: handler, POST: handler },
+			}
+
+			expect(getAllowedMethods('/', tree)).toEqual(['GET', 'HEAD', 'POST', 'OPTIONS'])
+		})
+
+		it('should allow GET for page components', () => {
+			const tree: RouteTreeNode = {
+				segment: '',
+				isDynamic: false,
+				isCatchAll: false,
+				children: new Map(),
+				component: () => null,
+			}
+
+			expect(getAllowedMethods('/', tree)).toEqual(['GET', 'HEAD', 'OPTIONS'])
+		})
+
+		it('should return an empty list for unknown paths', () => {
+			const tree: RouteTreeNode = {
+				segment: '',
+				isDynamic: false,
+				isCatchAll: false,
+				children: new Map(),
+			}
+
+			expect(getAllowedMethods('/nowhere', tree)).toEqual([])
+		})
+	})
+
 	describe('buildRouteTree', () => {
 		it('should build tree from globRoutes', async () => {
 			const globRoutes = {
@@ -318,15 +436,28 @@ describe('router', () => {
 			const tree = await buildRouteTree('/routes', undefined, globRoutes)
 
 			expect(tree.handlers?.GET).toBeDefined()
-			
+
 			const usersNode = tree.children.get('users')
 			const idNode = usersNode?.children.get('[id]')
-			
+
 			expect(idNode).toBeDefined()
 			expect(idNode?.handlers?.GET).toBeDefined()
 			expect(idNode?.types).toBe('/routes/users/[id]/types.d.ts')
 		})
 
+		it('should build optional catch-all nodes from globRoutes', async () => {
+			const globRoutes = {
+				'/routes/docs/[[...slug]]/index.ts': async () => ({ get: () => {} }),
+			}
+
+			const tree = await buildRouteTree('/routes', undefined, globRoutes)
+			const slugNode = tree.children.get('docs')?.children.get('[[...slug]]')
+
+			expect(slugNode?.isOptional).toBe(true)
+			expect(slugNode?.paramName).toBe('slug')
+			expect(matchRoute('/docs', tree)).not.toBeNull()
+		})
+
 		it('should handle named type files', async () => {
 			const globRoutes = {
 				'/routes/users.ts': async () => ({ get: () => {} }),
@@ -340,5 +471,263 @@ describe('router', () => {
 			expect(usersNode?.handlers?.GET).toBeDefined()
 			expect(usersNode?.types).toBe('/routes/users.d.ts')
 		})
+
+		it('should collect the nearest error and not-found boundaries', async () => {
+			const RootError = () => null
+			const UsersError = () => null
+			const NotFound = () => null
+			const Layout = () => null
+			const globRoutes = {
+				'/routes/common.tsx': async () => ({ default: Layout }),
+				'/routes/error.tsx': async () => ({ default: RootError }),
+				'/routes/not-found.tsx': async () => ({ default: NotFound }),
+				'/routes/index.tsx': async () => ({ default: () => null }),
+				'/routes/users/error.tsx': async () => ({ default: UsersError }),
+				'/routes/users/[id]/index.tsx': async () => ({ default: () => null }),
+			}
+
+			const tree = await buildRouteTree('/routes', undefined, globRoutes)
+
+			// Boundary files are not routes
+			expect(tree.children.has('error')).toBe(false)
+			expect(matchRoute('/not-found', tree)).toBeNull()
+
+			expect(matchRoute('/', tree)?.errorBoundary).toEqual({
+				component: RootError,
+				layouts: [Layout],
+			})
+			const userMatch = matchRoute('/users/42', tree)
+			expect(userMatch?.errorBoundary?.component).toBe(UsersError)
+			expect(userMatch?.notFoundBoundary).toEqual({ component: NotFound, layouts: [Layout] })
+		})
+
+		it('should find the not-found boundary of the deepest directory of unmatched paths', async () => {
+			const RootNotFound = () => null
+			const UsersNotFound = () => null
+			const globRoutes = {
+				'/routes/not-found.tsx': async () => ({ default: RootNotFound }),
+				'/routes/users/not-found.tsx': async () => ({ default: UsersNotFound }),
+				'/routes/users/[id=int]/index.ts': async () => ({ get: () => {} }),
+			}
+
+			const tree = await buildRouteTree('/routes', undefined, globRoutes)
+
+			expect((await loadNotFound('/users/abc', tree))?.component).toBe(UsersNotFound)
+			expect((await loadNotFound('/users/42/missing', tree))?.component).toBe(UsersNotFound)
+			expect((await loadNotFound('/other', tree))?.component).toBe(RootNotFound)
+		})
+
+		it('should collect meta exports of layouts and pages from root to leaf', async () => {
+			const rootMeta = { title: 'Site' }
+			const userMeta = ({ params }: any) => ({ title: `User ${params.id}` })
+			const globRoutes = {
+				'/routes/common.tsx': async () => ({ default: () => null, meta: rootMeta }),
+				'/routes/users/common.tsx': async () => ({ default: () => null }),
+				'/routes/users/[id]/index.tsx': async () => ({ default: () => null, meta: userMeta }),
+				'/routes/users/list.tsx': async () => ({ default: () => null }),
+			}
+
+			const tree = await buildRouteTree('/routes', undefined, globRoutes)
+
+			expect(matchRoute('/users/42', tree)?.meta).toEqual([rootMeta, userMeta])
+			expect(matchRoute('/users/list', tree)?.meta).toEqual([rootMeta])
+		})
+
+		it('should merge config exports down the tree', async () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+			const globRoutes = {
+				'/routes/common.ts': async () => ({ config: { timeout: 1000, auth: true } }),
+				'/routes/public/common.ts': async () => ({ config: { auth: false } }),
+				'/routes/public/index.ts': async () => ({ get: () => {}, config: { cache: 'max-age=60' } }),
+				'/routes/public/index.tsx': async () => ({ default: () => null, config: { ssr: false } }),
+				'/routes/admin.ts': async () => ({ get: () => {} }),
+			}
+
+			const tree = await buildRouteTree('/routes', undefined, globRoutes)
+
+			expect(matchRoute('/admin', tree)?.config).toEqual({ timeout: 1000, auth: true })
+			expect(matchRoute('/public', tree)?.config).toEqual({
+				timeout: 1000,
+				auth: false,
+				cache: 'max-age=60',
+				ssr: false,
+			})
+			// common.ts files exporting only a config are not missing their middleware
+			expect(warn).not.toHaveBeenCalled()
+			warn.mockRestore()
+		})
+
+		it('should resolve middleware inheritance controls', async () => {
+			const [auth, audit, api, docs, local]: any[] = [1, 2, 3, 4, 5].map(
+				() => async (_ctx: any, next: any) => next()
+			)
+			const handler = async () => ({ get: () => {}, post: () => {} })
+			const globRoutes = {
+				'/routes/common.ts': async () => ({ middleware: { '*': [auth], post: [audit] } }),
+				'/routes/(api)/common.ts': async () => ({ middleware: [api], exclude: ['status'] }),
+				'/routes/(api)/users.ts': handler,
+				'/routes/(api)/status/index.ts': handler,
+				'/routes/(api)/status/deep.ts': handler,
+				'/routes/docs/common.ts': async () => ({ middleware: [docs], exclude: ['./open/'] }),
+				'/routes/docs/open/index.ts': handler,
+				'/routes/docs/index.ts': async () => ({ get: () => {}, middleware: { GET: [local] } }),
+				'/routes/(public)/common.ts': async () => ({ reset: true }),
+				'/routes/(public)/about.ts': handler,
+			}
+
+			const tree = await buildRouteTree('/routes', undefined, globRoutes)
+
+			expect(matchRoute('/users', tree, 'POST')?.middlewareStack).toEqual([auth, audit, api])
+			// Excluded paths are relative to the common.ts directory, route groups being transparent
+			expect(matchRoute('/status/deep', tree, 'POST')?.middlewareStack).toEqual([auth, audit])
+			expect(matchRoute('/docs/open', tree, 'GET')?.middlewareStack).toEqual([auth])
+			expect(matchRoute('/docs', tree, 'GET')?.middlewareStack).toEqual([auth, docs, local])
+			expect(matchRoute('/about', tree, 'POST')?.middlewareStack).toEqual([])
+		})
+
+		it('should mount route sources under prefixes, diagnosing conflicts', async () => {
+			const [auth, billing]: any[] = [1, 2].map(() => async (_ctx: any, next: any) => next())
+			const handler = async () => ({ get: () => {} })
+			const onDiagnostics = vi.fn()
+			const tree = await buildRouteTree(
+				'/routes',
+				undefined,
+				{
+					'/routes/common.ts': async () => ({ middleware: [auth] }),
+					'/routes/billing/status.ts': handler,
+				},
+				{
+					onDiagnostics,
+					mounts: [
+						{
+							prefix: '/billing',
+							routesDir: '/billing/routes',
+							globRoutes: {
+								'/billing/routes/common.ts': async () => ({ middleware: [billing] }),
+								'/billing/routes/invoices/[id].ts': handler,
+								'/billing/routes/status.ts': handler,
+							},
+						},
+						{
+							prefix: '/admin',
+							routesDir: '/admin/routes',
+							globRoutes: { '/admin/routes/index.ts': handler },
+							inheritMiddleware: false,
+						},
+					],
+				}
+			)
+
+			const invoice = matchRoute('/billing/invoices/42', tree, 'GET')
+			expect(invoice?.params).toEqual({ id: '42' })
+			expect(invoice?.middlewareStack).toEqual([auth, billing])
+			expect(matchRoute('/admin', tree, 'GET')?.middlewareStack).toEqual([])
+			expect(tree.children.get('billing')?.children.has('(mount:billing)')).toBe(true)
+			expect(onDiagnostics).toHaveBeenCalledWith([
+				expect.objectContaining({
+					code: 'shadowed-route',
+					path: '/billing/(mount:billing)/status',
+					files: ['billing/status.ts', 'status.ts'],
+				}),
+			])
+		})
+
+		it('should report the ignored redirects.ts of mounts', async () => {
+			const onDiagnostics = vi.fn()
+			const tree = await buildRouteTree(
+				'/routes',
+				undefined,
+				{},
+				{
+					onDiagnostics,
+					mounts: [
+						{
+							prefix: '/billing',
+							routesDir: '/billing/routes',
+							globRoutes: {
+								'/billing/routes/redirects.ts': async () => ({
+									redirects: [{ source: '/old', destination: '/new' }],
+								}),
+							},
+						},
+					],
+				}
+			)
+
+			expect(tree.redirects).toBeUndefined()
+			expect(onDiagnostics).toHaveBeenCalledWith([
+				expect.objectContaining({
+					severity: 'warning',
+					code: 'ignored-redirects',
+					path: '/billing/(mount:billing)',
+					files: ['redirects.ts'],
+				}),
+			])
+		})
+
+		it('should add virtual routes that take part in matching and diagnostics', async () => {
+			const guard: any = async (_ctx: any, next: any) => next()
+			const callback = async () => ({ status: 200 })
+			const onDiagnostics = vi.fn()
+			const tree = await buildRouteTree(
+				'/routes',
+				undefined,
+				{
+					'/routes/auth/[provider].ts': async () => ({ get: async () => ({ status: 200 }) }),
+					'/routes/__health.ts': async () => ({ get: async () => ({ status: 200 }) }),
+				},
+				{
+					onDiagnostics,
+					routes: [{ path: '/auth', source: 'auth-plugin', common: { middleware: [guard] } }],
+				}
+			)
+
+			expect(await addRoute(tree, { path: '/auth/callback', handlers: { get: callback } })).toBe(
+				true
+			)
+			const match = matchRoute('/auth/callback', tree, 'GET')
+			expect(match?.handler).toBe(callback)
+			expect(match?.middlewareStack).toEqual([guard])
+			expect(matchRoute('/auth/github', tree, 'GET')?.params).toEqual({ provider: 'github' })
+
+			await addRoute(tree, { path: '/__health', source: 'health', handlers: { get: callback } })
+			expect(onDiagnostics).toHaveBeenLastCalledWith([
+				expect.objectContaining({
+					code: 'conflicting-handlers',
+					files: ['__health.ts', 'health:__health/index.ts'],
+				}),
+			])
+			expect(
+				await addRoute(
+					{ segment: '', isDynamic: false, isCatchAll: false, children: new Map() },
+					{ path: '/x' }
+				)
+			).toBe(false)
+		})
+
+		it('should load redirects.ts rules, reporting malformed ones', async () => {
+			const onDiagnostics = vi.fn()
+			const tree = await buildRouteTree(
+				'/routes',
+				undefined,
+				{
+					'/routes/redirects.ts': async () => ({
+						redirects: [
+							{ source: '/a', destination: '/b' },
+							{ source: '/c', destination: '/d', status: 200 },
+						],
+						rewrites: [{ source: '/e', destination: '/f' }],
+					}),
+				},
+				{ onDiagnostics }
+			)
+
+			expect(tree.redirects).toEqual([{ source: '/a', destination: '/b' }])
+			expect(tree.rewrites).toEqual([{ source: '/e', destination: '/f' }])
+			expect(tree.children.has('redirects')).toBe(false)
+			expect(onDiagnostics).toHaveBeenCalledWith([
+				expect.objectContaining({ code: 'invalid-redirect', files: ['redirects.ts'] }),
+			])
+		})
 	})
 })
@@ -1,7 +1,43 @@
 import * as fs from 'node:fs/promises'
 import * as path from 'node:path'
 import { parsePathSegment, type ParsedPathSegment, type RouteParams } from 'pounce-ts'
-import type { Middleware, RouteHandler } from '../http/core.js'
+import {
+	normalizeMiddleware,
+	type MethodMiddleware,
+	type Middleware,
+	type MiddlewareExport,
+	type RouteConfig,
+	type RouteHandler,
+} from '../http/core.js'
+import { handlerSchemas, type SchemasExport, withValidation } from '../http/validation.js'
+import type { RouteMetaExport } from '../ssr/head.js'
+import {
+	compileRouteTree,
+	getRouteMatcher,
+	matchCompiled,
+	matchDeepest,
+	middlewareFor,
+	recompileRouteNode,
+	type CompiledBoundary,
+} from './matcher.js'
+import { loadParamMatchers } from './params.js'
+import { parsePath } from './path.js'
+import { validateRule, type RedirectRule, type RewriteRule } from './redirects.js'
+import {
+	createLazyHandlers,
+	createLazyMiddleware,
+	lazyModule,
+	scanModuleExports,
+	type RouteExportsManifest,
+} from './lazy.js'
+import {
+	diagnoseRouteTree,
+	formatRouteDiagnostics,
+	getNodeSources,
+	RouteBuildError,
+	type RouteDiagnostic,
+	type RouteSources,
+} from './diagnostics.js'
 
 /**
  * Convert a file path to a file:// URL without encoding special characters like brackets.
@@ -14,24 +50,85 @@ function toFileUrl(filePath: string): string {
 }
 
 // Re-export for convenience
-export type { Middleware, RouteHandler, RouteParams, ParsedPathSegment }
+export type { Middleware, RouteConfig, RouteHandler, RouteParams, ParsedPathSegment }
+export {
+	compileRouteTree,
+	invalidateRouteMatcher,
+	recompileRouteNode,
+	type CompiledRouteMatcher,
+	type CompiledRouteNode,
+} from './matcher.js'
+export {
+	RouteBuildError,
+	diagnoseRouteTree,
+	formatRouteDiagnostics,
+	getRouteDiagnostics,
+	type RouteDiagnostic,
+	type RouteDiagnosticCode,
+	type RouteDiagnosticSeverity,
+} from './diagnostics.js'
+export { scanModuleExports, scanRouteExports, type RouteExportsManifest } from './lazy.js'
+export { canonicalPath, parsePath, type ParsedPath, type PathPolicy } from './path.js'
+export {
+	resolveRedirect,
+	resolveRewrite,
+	rewriteRoutePath,
+	type RedirectRule,
+	type RedirectStatus,
+	type RedirectsModule,
+	type RewriteRule,
+} from './redirects.js'
+export {
+	defineParamMatcher,
+	getParamMatcher,
+	clearParamMatchers,
+	type ParamMatcher,
+	type ParamMatcherTypes,
+} from './params.js'
 
 /**
  * Result of a successful route match.
  */
 export type RouteMatch = {
-	/** Backend route handler functions (GET, POST, etc.) */
-	handler?: RouteHandler
+	/** Backend route handler functions (GET, POST, etc.), whose results are not known */
+	handler?: RouteHandler<any>
 	/** Frontend page component (from index.tsx or named.tsx) */
 	component?: any
 	/** Collected middleware stack from root to leaf */
 	middlewareStack: Middleware[]
 	/** Collected layout components from root to leaf (common.tsx) */
 	layouts?: any[]
-	/** Extracted path parameters (e.g., { id: "123" }) */
-	params: RouteParams
-	/** The normalized matched path */
+	/** Extracted path parameters (e.g., { id: "123" }), coerced by param matchers */
+	params: Record<string, any>
+	/** The normalized matched path (see `parsePath`) */
 	path: string
+	/** Decoded URL segments of the match, static ones in the case of the route files */
+	segments?: string[]
+	/** Nearest error.tsx of the route, rendered when rendering the page throws */
+	errorBoundary?: RouteBoundary
+	/** Nearest not-found.tsx of the route */
+	notFoundBoundary?: RouteBoundary
+	/** `meta` exports of the layouts and the page, from root to leaf (see `resolveMeta`) */
+	meta?: RouteMetaExport[]
+	/** `config` exports of `common.ts` files from root to leaf, then of the route, merged */
+	config?: RouteConfig
+}
+
+/**
+ * Options of `matchRoute` and `loadRoute`
+ */
+export interface MatchRouteOptions {
+	/** Match static segments regardless of case (see `PathPolicy.caseInsensitive`) */
+	caseInsensitive?: boolean
+}
+
+/**
+ * Boundary component (error.tsx or not-found.tsx) with the layouts wrapping it:
+ * those of its directory and above.
+ */
+export type RouteBoundary = {
+	component: any
+	layouts: any[]
 }
 
 /**
@@ -44,22 +141,59 @@ export type RouteTreeNode = {
 	isDynamic: boolean
 	/** True if this is a catch-all segment (e.g., [...slug]) */
 	isCatchAll: boolean
+	/** True if this catch-all also matches zero segments (e.g., [[...slug]]) */
+	isOptional?: boolean
 	/** The name of the parameter for dynamic/catch-all segments */
 	paramName?: string
+	/** Name of the param matcher restricting a dynamic segment (e.g. `int` for [id=int]) */
+	paramMatcher?: string
 	/** Child nodes mapped by their segment name */
 	children: Map<string, RouteTreeNode>
 	/** Route handlers loaded from index.ts or named.ts */
-	handlers?: Record<string, RouteHandler>
+	handlers?: Record<string, RouteHandler<any>>
 	/** Page component loaded from index.tsx or named.tsx */
 	component?: any
-	/** Middleware loaded from common.ts */
+	/** Middleware loaded from common.ts, run for every method */
 	middleware?: Middleware[]
+	/** Per-method middleware loaded from common.ts */
+	methodMiddleware?: MethodMiddleware
+	/** `reset` export of common.ts: ancestors' middleware is not inherited */
+	resetMiddleware?: boolean
+	/** `exclude` export of common.ts: paths (relative to its directory) its middleware skips */
+	excludeMiddleware?: string[]
+	/** Route-local `middleware` export of the route modules, run after the inherited one */
+	routeMiddleware?: MethodMiddleware
+	/** `config` export of common.ts (inherited by children) */
+	commonConfig?: RouteConfig
+	/** `config` exports of the route modules (handlers and page) */
+	config?: RouteConfig
 	/** Layout component loaded from common.tsx */
 	layout?: any
+	/** Error boundary component loaded from error.tsx (inherited by children) */
+	errorComponent?: any
+	/** Not-found component loaded from not-found.tsx (inherited by children) */
+	notFoundComponent?: any
+	/** `meta` export of the page component */
+	meta?: RouteMetaExport
+	/** `meta` export of the layout (inherited by children) */
+	layoutMeta?: RouteMetaExport
+	/** Loaders of the components of a lazily built tree (see `loadRoute`) */
+	loaders?: {
+		component?: () => Promise<any>
+		layout?: () => Promise<any>
+		errorComponent?: () => Promise<any>
+		notFoundComponent?: () => Promise<any>
+		meta?: () => Promise<any>
+		layoutMeta?: () => Promise<any>
+	}
 	/** True if this is a route group (folder in parentheses) */
 	isRouteGroup?: boolean
 	/** Path to associated shared type definitions (.d.ts) */
 	types?: string
+	/** Redirect rules of `redirects.ts` (root node only) */
+	redirects?: RedirectRule[]
+	/** Rewrite rules of `redirects.ts` (root node only) */
+	rewrites?: RewriteRule[]
 }
 
 /**
@@ -69,7 +203,9 @@ export type RouteTreeNode = {
 export interface SegmentInfo {
 	isDynamic: boolean
 	isCatchAll: boolean
+	isOptional?: boolean
 	paramName?: string
+	paramMatcher?: string
 	normalizedSegment: string
 }
 
@@ -79,8 +215,34 @@ export interface SegmentInfo {
  *
  * [id] -> { isDynamic: true, paramName: 'id' }
  * [...slug] -> { isCatchAll: true, paramName: 'slug' }
+ * [[...slug]] -> { isCatchAll: true, isOptional: true, paramName: 'slug' }
+ * [id=int] -> { isDynamic: true, paramName: 'id', paramMatcher: 'int' }
  */
 export function parseSegment(segment: string): SegmentInfo {
+	// Optional catch-all is a pounce-board routing extension
+	const optionalCatchAll = /^\[\[\.\.\.([^\]]+)\]\]$/.exec(segment)
+	if (optionalCatchAll) {
+		return {
+			isDynamic: true,
+			isCatchAll: true,
+			isOptional: true,
+			paramName: optionalCatchAll[1],
+			normalizedSegment: segment,
+		}
+	}
+
+	// So are param matchers
+	const matched = /^\[([^\].=]+)=([^\]=]+)\]$/.exec(segment)
+	if (matched) {
+		return {
+			isDynamic: true,
+			isCatchAll: false,
+			paramName: matched[1],
+			paramMatcher: matched[2],
+			normalizedSegment: segment,
+		}
+	}
+
 	const parsed = parsePathSegment(segment)
 
 	switch (parsed.kind) {
@@ -108,129 +270,370 @@ export function parseSegment(segment: string): SegmentInfo {
 	}
 }
 
+/**
+ * Create an empty tree node for a directory or named route file
+ * @param name Directory or file name without extension (e.g. `users`, `[id]`, `(auth)`)
+ * @param isDirectory Directories in parentheses are transparent route groups
+ */
+function createRouteNode(name: string, isDirectory = false): RouteTreeNode {
+	const segmentInfo = parseSegment(name)
+	const isGroup = isDirectory && name.startsWith('(') && name.endsWith(')')
+	return {
+		segment: isGroup ? '' : segmentInfo.normalizedSegment,
+		isDynamic: segmentInfo.isDynamic,
+		isCatchAll: segmentInfo.isCatchAll,
+		isOptional: segmentInfo.isOptional,
+		paramName: segmentInfo.paramName,
+		paramMatcher: segmentInfo.paramMatcher,
+		children: new Map(),
+		isRouteGroup: isGroup || undefined,
+	}
+}
+
 /**
  * Match a URL path against the route tree
  * Returns handler, middleware stack, and extracted params
  *
- * Priority: static routes > dynamic routes > catch-all routes > route groups
+ * Matching runs on the tree's compiled matcher (see `compileRouteTree`),
+ * built on first use and reused for subsequent requests.
+ *
+ * Priority: static routes > dynamic routes > route groups > catch-all routes,
+ * dynamic routes with a param matcher being tried before plain ones.
+ * Params are decoded; paths rejected by `parsePath` match nothing.
  */
 export function matchRoute(
 	urlPath: string,
 	routeTree: RouteTreeNode,
-	method = 'GET'
+	method = 'GET',
+	options: MatchRouteOptions = {}
 ): RouteMatch | null {
-	// Normalize path: remove trailing slash (except for root)
-	const normalizedPath = urlPath === '/' ? '/' : urlPath.replace(/\/$/, '')
-	const segments = normalizedPath.split('/').filter((s) => s !== '')
+	const parsed = parsePath(urlPath)
+	if (!parsed) return null
+	const result = matchCompiled(
+		getRouteMatcher(routeTree),
+		parsed.segments,
+		method,
+		options.caseInsensitive
+	)
+	if (!result) return null
 
-	/**
-	 * Recursive tree traversal with priority handling
-	 */
-	/**
-	 * Recursive tree traversal with priority handling
-	 */
-	function traverse(
-		node: RouteTreeNode,
-		segmentIndex: number,
-		depth = 0
-	): { node: RouteTreeNode; params: RouteParams; middlewareStack: Middleware[]; layouts: any[] } | null {
-		if (depth > 50) {
-			console.warn('[pounce-board] Route matching depth exceeded')
-			return null
-		}
-		// Base case: If we've consumed all segments, check for handler OR component at this node
-		if (segmentIndex >= segments.length) {
-			if (node.handlers?.[method] || node.component) {
-				return {
-					node,
-					params: {},
-					middlewareStack: node.middleware ? [...node.middleware] : [],
-					layouts: node.layout ? [node.layout] : [],
-				}
-			}
-		}
+	const { node, layouts, metaNodes, config, errorBoundary, notFoundBoundary } = result.target
+	return {
+		handler: node.handlers?.[method],
+		component: node.component,
+		middlewareStack: middlewareFor(result.target, method),
+		layouts: [...layouts],
+		params: result.params,
+		path: parsed.path,
+		segments: result.segments,
+		errorBoundary: toRouteBoundary(errorBoundary, 'errorComponent'),
+		notFoundBoundary: toRouteBoundary(notFoundBoundary, 'notFoundComponent'),
+		meta: routeMeta(metaNodes, node),
+		config: { ...config, ...node.config },
+	}
+}
+
+/**
+ * `meta` exports of the layouts above a page, then of the page itself
+ */
+function routeMeta(metaNodes: RouteTreeNode[], node: RouteTreeNode): RouteMetaExport[] {
+	return [...metaNodes.map((metaNode) => metaNode.layoutMeta), node.meta].filter(
+		(meta): meta is RouteMetaExport => meta !== undefined
+	)
+}
 
-		const currentSegment = segments[segmentIndex]
+function toRouteBoundary(
+	boundary: CompiledBoundary | undefined,
+	key: 'errorComponent' | 'notFoundComponent'
+): RouteBoundary | undefined {
+	const component = boundary?.node[key]
+	if (!component) return undefined
+	return { component, layouts: boundary.layoutNodes.map((layoutNode) => layoutNode.layout) }
+}
 
-		// Helper to prepend this node's middleware and layout to result
-		const withStack = (
-			result: { node: RouteTreeNode; params: RouteParams; middlewareStack: Middleware[]; layouts: any[] } | null
-		) => {
-			if (!result) return null
-			
-			if (node.middleware) {
-				result.middlewareStack.unshift(...node.middleware)
-			}
-			if (node.layout) {
-				result.layouts.unshift(node.layout)
-			}
-			return result
-		}
+/**
+ * Match a URL path like `matchRoute`, then load the page component and layouts
+ * that a lazily built tree only imports on demand (see `BuildRouteTreeOptions.lazy`).
+ * Loaded modules are kept on the tree; concurrent loads share the same import.
+ */
+export async function loadRoute(
+	urlPath: string,
+	routeTree: RouteTreeNode,
+	method = 'GET',
+	options: MatchRouteOptions = {}
+): Promise<RouteMatch | null> {
+	const parsed = parsePath(urlPath)
+	if (!parsed) return null
+	const result = matchCompiled(
+		getRouteMatcher(routeTree),
+		parsed.segments,
+		method,
+		options.caseInsensitive
+	)
+	if (!result) return null
 
-		// Priority 1: Try exact static match first
-		if (segmentIndex < segments.length) {
-			const staticChild = node.children.get(currentSegment)
-			if (staticChild && !staticChild.isDynamic && !staticChild.isRouteGroup) {
-				const result = traverse(staticChild, segmentIndex + 1, depth + 1)
-				if (result) return withStack(result)
-			}
-		}
+	const { node, layoutNodes, metaNodes, config, errorBoundary, notFoundBoundary } = result.target
+	await Promise.all(
+		[
+			...layoutNodes,
+			...metaNodes,
+			node,
+			...boundaryNodes(errorBoundary),
+			...boundaryNodes(notFoundBoundary),
+		].map(loadNodeModules)
+	)
+	return {
+		handler: node.handlers?.[method],
+		component: node.component,
+		middlewareStack: middlewareFor(result.target, method),
+		layouts: layoutNodes.map((layoutNode) => layoutNode.layout),
+		params: result.params,
+		path: parsed.path,
+		segments: result.segments,
+		errorBoundary: toRouteBoundary(errorBoundary, 'errorComponent'),
+		notFoundBoundary: toRouteBoundary(notFoundBoundary, 'notFoundComponent'),
+		meta: routeMeta(metaNodes, node),
+		config: { ...config, ...node.config },
+	}
+}
 
-		// Priority 2: Try dynamic segment match [id]
-		if (segmentIndex < segments.length) {
-			for (const [_, child] of node.children) {
-				if (child.isDynamic && !child.isCatchAll && !child.isRouteGroup) {
-					const result = traverse(child, segmentIndex + 1, depth + 1)
-					if (result) {
-						if (child.paramName) {
-							result.params[child.paramName] = currentSegment
-						}
-						return withStack(result)
-					}
-				}
-			}
-		}
+/**
+ * Find the nearest not-found.tsx for a path no route matches: the one of the
+ * deepest directory the path leads to, or of its closest ancestor.
+ * Loads it (and its layouts) on lazily built trees.
+ */
+export async function loadNotFound(
+	urlPath: string,
+	routeTree: RouteTreeNode
+): Promise<RouteBoundary | null> {
+	const segments = parsePath(urlPath)?.segments ?? []
+	const { notFoundBoundary } = matchDeepest(getRouteMatcher(routeTree), segments)
+	await Promise.all(boundaryNodes(notFoundBoundary).map(loadNodeModules))
+	return toRouteBoundary(notFoundBoundary, 'notFoundComponent') ?? null
+}
 
-		// Priority 3: Try route groups (transparent)
-		for (const [_, child] of node.children) {
-			if (child.isRouteGroup) {
-				const result = traverse(child, segmentIndex, depth + 1)
-				if (result) return withStack(result)
-			}
-		}
+function boundaryNodes(boundary: CompiledBoundary | undefined): RouteTreeNode[] {
+	return boundary ? [boundary.node, ...boundary.layoutNodes] : []
+}
 
-		// Priority 4: Try catch-all segment [...slug]
-		if (segmentIndex < segments.length) {
-			for (const [_, child] of node.children) {
-				if (child.isCatchAll && child.paramName) {
-					const remaining = segments.slice(segmentIndex).join('/')
-					if (child.handlers?.[method] || child.component) {
-						return withStack({
-							node: child,
-							params: { [child.paramName]: remaining },
-							middlewareStack: child.middleware ? [...child.middleware] : [],
-							layouts: child.layout ? [child.layout] : [],
-						})
-					}
-				}
-			}
+async function loadNodeModules(node: RouteTreeNode): Promise<void> {
+	const { loaders } = node
+	if (!loaders) return
+	const keys = ['component', 'layout', 'errorComponent', 'notFoundComponent', 'meta', 'layoutMeta']
+	for (const key of keys as (keyof typeof loaders)[]) {
+		const loader = loaders[key]
+		if (loader && !node[key]) node[key] = await loader()
+	}
+}
+
+/**
+ * Handler exports recognized in route modules, mapped to their HTTP method.
+ * `del` and `delete` are aliases; `head` and `options` override the automatic
+ * HEAD and OPTIONS answers of the adapter.
+ */
+const HANDLER_EXPORTS = {
+	get: 'GET',
+	post: 'POST',
+	put: 'PUT',
+	del: 'DELETE',
+	delete: 'DELETE',
+	patch: 'PATCH',
+	head: 'HEAD',
+	options: 'OPTIONS',
+}
+
+/**
+ * Collect the method handlers exported by a route module, validating their request
+ * when the module exports `schemas` for them
+ */
+function extractHandlers(mod: any): Record<string, RouteHandler> {
+	const handlers: Record<string, RouteHandler> = {}
+	for (const [exportName, method] of Object.entries(HANDLER_EXPORTS)) {
+		if (typeof mod[exportName] === 'function') {
+			handlers[method] = withValidation(
+				mod[exportName],
+				handlerSchemas(mod.schemas, exportName, method)
+			)
 		}
+	}
+	return handlers
+}
+
+/**
+ * Pick the handler exports among the export names of a route module, mapped to their method
+ */
+function handlerExports(exportNames: string[]): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(HANDLER_EXPORTS).filter(([exportName]) => exportNames.includes(exportName))
+	)
+}
+
+/**
+ * Per-directory boundary files, mapped to the node field holding their component
+ */
+const BOUNDARY_FILES: Record<string, 'errorComponent' | 'notFoundComponent'> = {
+	'error.tsx': 'errorComponent',
+	'not-found.tsx': 'notFoundComponent',
+}
+
+/**
+ * Exports needed to match requests, for which lazy trees import modules right away:
+ * route `config`, the middleware inheritance controls of `common.ts` and the rules
+ * of `redirects.ts`
+ */
+const MATCH_EXPORTS = ['config', 'reset', 'exclude', 'redirects', 'rewrites']
+
+/**
+ * File of the routes directory root declaring redirects and rewrites
+ */
+const REDIRECTS_FILE = 'redirects.ts'
+
+const ALLOWABLE_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS']
 
-		return null
+/**
+ * List the HTTP methods a URL path answers to, for `Allow` headers.
+ *
+ * GET is allowed when a handler or a page component matches; HEAD follows GET
+ * and OPTIONS is always answered. Returns an empty array when nothing matches
+ * the path at all.
+ */
+export function getAllowedMethods(urlPath: string, routeTree: RouteTreeNode): string[] {
+	const allowed = new Set<string>()
+	for (const method of ALLOWABLE_METHODS) {
+		const match = matchRoute(urlPath, routeTree, method)
+		if (match && (match.handler || method === 'GET')) allowed.add(method)
 	}
+	if (allowed.size === 0) return []
 
+	if (allowed.has('GET')) allowed.add('HEAD')
+	allowed.add('OPTIONS')
+	return ALLOWABLE_METHODS.filter((method) => allowed.has(method))
+}
 
-	const result = traverse(routeTree, 0)
-	if (!result) return null
+/**
+ * Options of `buildRouteTree`
+ */
+export interface BuildRouteTreeOptions {
+	/** Directory of user-defined param matchers (default: `params` next to the routes directory) */
+	paramsDir?: string
+	/** Param matcher modules from `import.meta.glob`, used instead of scanning `paramsDir` */
+	globParams?: Record<string, () => Promise<any>>
+	/** Throw a `RouteBuildError` when diagnostics contain errors */
+	strict?: boolean
+	/** Receive the diagnostics instead of having them logged (not called when strict mode throws) */
+	onDiagnostics?: (diagnostics: RouteDiagnostic[]) => void
+	/**
+	 * Import route modules when first needed rather than while building.
+	 * Exports are discovered by scanning sources, or from `routeExports` with `globRoutes`;
+	 * files whose exports are unknown are still imported eagerly.
+	 */
+	lazy?: boolean
+	/** Export names of route files for lazy builds (see `scanRouteExports`) */
+	routeExports?: RouteExportsManifest
+	/**
+	 * Route sources mounted under URL prefixes (e.g. the `routes` of feature packages).
+	 * Each is grafted as a route group under its prefix, so that its routes conflicting
+	 * with others are diagnosed like those of any group.
+	 */
+	mounts?: RouteMount[]
+	/** Routes contributed by code rather than files (see `addRoute`) */
+	routes?: VirtualRoute[]
+	/** @internal Source records of the tree a mount is grafted on */
+	sources?: RouteSources
+}
 
-	return {
-		handler: result.node.handlers?.[method],
-		component: result.node.component,
-		middlewareStack: result.middlewareStack,
-		layouts: result.layouts,
-		params: result.params,
-		path: normalizedPath,
+/**
+ * Route contributed by code (e.g. a plugin's `/auth/callback` handler) rather than
+ * by files. Each field holds the exports of the route file it stands for, with the
+ * same meaning as in files.
+ */
+export interface VirtualRoute {
+	/** Directory of the route, in the segment syntax of route files (e.g. `/users/[id]`, `/(admin)/stats`) */
+	path: string
+	/** Contributor of the route, naming it in diagnostics (default: `virtual`) */
+	source?: string
+	/** Exports of its `index.ts`: method handlers (`get`, `post`...), route-local `middleware`, `config`, `schemas` */
+	handlers?: Partial<Record<keyof typeof HANDLER_EXPORTS, RouteHandler>> & {
+		middleware?: MiddlewareExport
+		config?: RouteConfig
+		schemas?: SchemasExport
 	}
+	/** Exports of its `index.tsx`: the page component as `default`, `meta`, `config` */
+	page?: { default: unknown; meta?: RouteMetaExport; config?: RouteConfig }
+	/** Exports of its `common.ts`, applied to the subtree: `middleware`, `config`, `reset`, `exclude` */
+	common?: {
+		middleware?: MiddlewareExport
+		config?: RouteConfig
+		reset?: boolean
+		exclude?: string[]
+	}
+	/** Exports of its `common.tsx`: the layout as `default`, `meta` */
+	layout?: { default: unknown; meta?: RouteMetaExport }
+}
+
+/**
+ * Route source mounted under a URL prefix (see `BuildRouteTreeOptions.mounts`)
+ */
+export interface RouteMount {
+	/** URL prefix of the mounted routes, e.g. `/billing` (`/` mounts them at the root) */
+	prefix: string
+	/** Routes directory of the mount (as found in `globRoutes` keys, with `globRoutes`) */
+	routesDir: string
+	/** Glob routes object of the mount, used instead of scanning `routesDir` */
+	globRoutes?: Record<string, () => Promise<any>>
+	/** Export names of the mount's route files, for lazy builds with `globRoutes` */
+	routeExports?: RouteExportsManifest
+	/** Run the middleware of the `common.ts` files above the prefix. Default: true */
+	inheritMiddleware?: boolean
+}
+
+/**
+ * File system events applied by `updateRouteTree` (as emitted by chokidar)
+ */
+export type RouteFileEvent = 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir'
+
+type RouteTreeUpdater = (event: RouteFileEvent, filePath: string) => Promise<void>
+
+// Trees built from a routes directory know how to apply file changes
+const treeUpdaters = new WeakMap<RouteTreeNode, RouteTreeUpdater>()
+// Trees built by `buildRouteTree` know how to attach virtual routes
+const treeRegistrars = new WeakMap<RouteTreeNode, (route: VirtualRoute) => Promise<void>>()
+
+/**
+ * Add a route contributed by code to a tree built by `buildRouteTree`, as if its
+ * files existed: its nodes take part in matching priority, and its conflicts with
+ * other routes are diagnosed (files being named `<source>:<path>/<file>`).
+ * Virtual routes are kept when the files of the tree change.
+ *
+ * Returns false for trees built by hand. Throws a `RouteBuildError` in strict
+ * mode when the tree has errors.
+ */
+export async function addRoute(tree: RouteTreeNode, route: VirtualRoute): Promise<boolean> {
+	const register = treeRegistrars.get(tree)
+	if (!register) return false
+	await register(route)
+	return true
+}
+
+/**
+ * Apply a change of a file under the routes directory to a tree built by
+ * `buildRouteTree`, instead of rebuilding it: only the changed file is imported
+ * again, and middleware, layouts and boundaries are recompiled for the subtree
+ * of its directory. Diagnostics are reported as when building.
+ *
+ * Returns false when the tree cannot be updated in place (trees built from
+ * `globRoutes` or by hand), in which case it should be rebuilt.
+ * Throws a `RouteBuildError` in strict mode when the updated tree has errors.
+ */
+export async function updateRouteTree(
+	tree: RouteTreeNode,
+	event: RouteFileEvent,
+	filePath: string
+): Promise<boolean> {
+	const update = treeUpdaters.get(tree)
+	if (!update) return false
+	await update(event, filePath)
+	return true
 }
 
 /**
@@ -243,13 +646,27 @@ export function matchRoute(
  * - `common.tsx` -> Layouts (inherited, wraps children)
  * - `named.ts` -> Route handlers (e.g. `users.ts` -> `/users`)
  * - `named.tsx` -> Page components (e.g. `list.tsx` -> `/list`)
+ *
+ * Pages and layouts may also export `meta`, collected into `RouteMatch.meta`.
+ * - `error.tsx` -> Error boundary (inherited, rendered when SSR of a page throws)
+ * - `not-found.tsx` -> Not-found page (inherited, rendered for unmatched paths)
+ *
+ * Param matchers found in the params directory (`params/hex.ts` -> `[id=hex]`)
+ * are registered before the tree is compiled.
+ *
+ * Conflicting files, unreachable routes and modules that fail to load are
+ * reported as diagnostics (see `getRouteDiagnostics`) rather than aborting,
+ * unless `options.strict` is set.
+ *
+ * Trees scanned from the file system can then be kept up to date with `updateRouteTree`.
  * 
  * This uses node:fs and is intended for server-side usage.
  */
 export async function buildRouteTree(
 	routesDir: string,
 	importFn: (path: string) => Promise<any> = (p) => import(/* @vite-ignore */ toFileUrl(p)),
-	globRoutes?: Record<string, () => Promise<any>>
+	globRoutes?: Record<string, () => Promise<any>>,
+	options: BuildRouteTreeOptions = {}
 ): Promise<RouteTreeNode> {
 	const root: RouteTreeNode = {
 		segment: '',
@@ -257,6 +674,18 @@ export async function buildRouteTree(
 		isCatchAll: false,
 		children: new Map(),
 	}
+	const sources: RouteSources = options.sources ?? new WeakMap()
+	// Trees of `options.mounts`, grafted as route groups
+	const mounted: { mount: RouteMount; tree: RouteTreeNode }[] = []
+	// Files of virtual routes by name, to attach them again when a conflicting file changes
+	const virtualFiles = new Map<string, { name: string; node: RouteTreeNode; exports: unknown }>()
+
+	// Glob builds have no params directory to scan unless matcher modules are globbed too
+	if (options.globParams || !globRoutes) {
+		const paramsDir = options.paramsDir ?? path.join(routesDir, '..', 'params')
+		const issues = await loadParamMatchers(paramsDir, importFn, options.globParams)
+		getNodeSources(sources, root).issues.push(...issues)
+	}
 
 	// If globRoutes is provided, use it instead of fs scanning
 	if (globRoutes) {
@@ -298,69 +727,96 @@ export async function buildRouteTree(
 			for (const segmentName of segments) {
 				if (segmentName === '' || segmentName === '.') continue
 				
-				const segmentInfo = parseSegment(segmentName)
-				const isGroup = segmentName.startsWith('(') && segmentName.endsWith(')')
-				
 				let child = currentNode.children.get(segmentName)
 				if (!child) {
-					child = {
-						segment: isGroup ? '' : segmentInfo.normalizedSegment,
-						isDynamic: segmentInfo.isDynamic,
-						isCatchAll: segmentInfo.isCatchAll,
-						paramName: segmentInfo.paramName,
-						children: new Map(),
-						isRouteGroup: isGroup,
-					}
+					child = createRouteNode(segmentName, true)
 					currentNode.children.set(segmentName, child)
 				}
 				currentNode = child
 			}
 			
 			// Handle the file
-			await processFile(fileName, loader, currentNode, filePath)
+			await processFile(fileName, loader, currentNode, relativePath, filePath)
 		}
-		
-		return root
+
+		return finish()
 	}
 
-	async function processFile(name: string, loader: () => Promise<any>, node: RouteTreeNode, fullPath?: string) {
-		if (name === 'common.ts') {
+	/**
+	 * Attach a route file to its directory node.
+	 * Shared by filesystem scanning and globRoutes.
+	 * @param file Path relative to the routes directory, for diagnostics
+	 */
+	async function processFile(
+		name: string,
+		loader: () => Promise<any>,
+		node: RouteTreeNode,
+		file: string,
+		fullPath?: string
+	) {
+		// Lazy trees attach loaders instead of importing, when the exports are known.
+		// Exports needed to match requests (`config`, middleware inheritance) are
+		// imported right away.
+		const exportNames = options.lazy ? await discoverExports(name, file, fullPath) : undefined
+		if (exportNames && !exportNames.some((exportName) => MATCH_EXPORTS.includes(exportName))) {
+			attachLazyFile(name, lazyModule(loader), node, file, exportNames)
+			return
+		}
+
+		// Load the module, recording a diagnostic on the route instead of throwing
+		const load = async (target: RouteTreeNode, what: string) => {
 			try {
-				const mod = await loader()
-				if (mod.middleware) node.middleware = mod.middleware
+				return await loader()
 			} catch (e) {
-				console.error(`Failed to load middleware`, e)
+				getNodeSources(sources, target).issues.push({
+					severity: 'error',
+					code: 'load-failed',
+					files: [file],
+					message: `Failed to load ${what} from ${file}`,
+					cause: e,
+				})
+				return undefined
 			}
-		} else if (name === 'common.tsx') {
-			try {
-				const mod = await loader()
-				if (mod.default) node.layout = mod.default
-			} catch (e) {
-				console.error(`Failed to load layout`, e)
+		}
+
+		if (name === REDIRECTS_FILE && node === root) {
+			const mod = await load(node, 'redirects')
+			node.redirects = validRules(mod?.redirects, true, file)
+			node.rewrites = validRules(mod?.rewrites, false, file)
+		} else if (name === 'common.ts') {
+			recordMiddleware(node, file)
+			const mod = await load(node, 'middleware')
+			if (mod?.config) node.commonConfig = mod.config
+			if (mod?.reset) node.resetMiddleware = true
+			if (mod?.exclude) node.excludeMiddleware = mod.exclude
+			if (mod?.middleware) {
+				const { '*': middleware, ...methodMiddleware } = normalizeMiddleware(mod.middleware)
+				if (middleware) node.middleware = middleware
+				if (Object.keys(methodMiddleware).length > 0) node.methodMiddleware = methodMiddleware
+			} else if (mod && !mod.config && !mod.reset) {
+				reportMissingMiddleware(node, file)
 			}
+		} else if (name === 'common.tsx') {
+			getNodeSources(sources, node).layout = file
+			const mod = await load(node, 'layout')
+			if (mod?.default) node.layout = mod.default
+			if (mod?.meta) node.layoutMeta = mod.meta
 		} else if (name === 'index.ts') {
-			try {
-				const mod = await loader()
-				const handlers: Record<string, RouteHandler> = {}
-				const methods = ['get', 'post', 'put', 'del', 'patch', 'delete']
-				for (const method of methods) {
-					const exportName = method
-					if (typeof mod[exportName] === 'function') {
-						const upperMethod = method === 'del' || method === 'delete' ? 'DELETE' : method.toUpperCase()
-						handlers[upperMethod] = mod[exportName]
-					}
-				}
-				node.handlers = handlers
-			} catch (e) {
-				console.error(`Failed to load handlers`, e)
-			}
+			const mod = await load(node, 'handlers')
+			if (mod) addHandlers(node, extractHandlers(mod), file)
+			addConfig(node, mod?.config)
+			addRouteMiddleware(node, mod?.middleware)
 		} else if (name === 'index.tsx') {
-			try {
-				const mod = await loader()
-				if (mod.default) node.component = mod.default
-			} catch (e) {
-				console.error(`Failed to load component`, e)
+			const mod = await load(node, 'component')
+			addConfig(node, mod?.config)
+			if (mod?.default) {
+				recordComponent(node, file)
+				node.component = mod.default
+				node.meta = mod.meta
 			}
+		} else if (name in BOUNDARY_FILES) {
+			const mod = await load(node, 'boundary component')
+			if (mod?.default) node[BOUNDARY_FILES[name]] = mod.default
 		} else if (name.endsWith('.d.ts')) {
 			// Type definition file
 			if (name === 'types.d.ts' || name === 'index.d.ts') {
@@ -368,61 +824,198 @@ export async function buildRouteTree(
 			} else {
 				// Named type file e.g. users.d.ts -> /users
 				const fileNameNoExt = name.slice(0, -5) // remove .d.ts
-				const segmentInfo = parseSegment(fileNameNoExt)
-				const segment = segmentInfo.normalizedSegment
-
-				let childNode = node.children.get(segment)
-				if (!childNode) {
-					childNode = {
-						segment: segment,
-						isDynamic: segmentInfo.isDynamic,
-						isCatchAll: segmentInfo.isCatchAll,
-						paramName: segmentInfo.paramName,
-						children: new Map(),
-					}
-					node.children.set(segment, childNode)
-				}
+				const childNode = node.children.get(fileNameNoExt) ?? createRouteNode(fileNameNoExt)
+				node.children.set(fileNameNoExt, childNode)
 				childNode.types = fullPath
 			}
-		} else if ((name.endsWith('.ts') && !name.endsWith('.d.ts')) || name.endsWith('.tsx')) {
-			// Named route file
-			const fileNameNoExt = path.parse(name).name
-			const segmentInfo = parseSegment(fileNameNoExt)
-			const segment = segmentInfo.normalizedSegment
-
-			let childNode = node.children.get(segment)
-			if (!childNode) {
-				childNode = {
-					segment: segment,
-					isDynamic: segmentInfo.isDynamic,
-					isCatchAll: segmentInfo.isCatchAll,
-					paramName: segmentInfo.paramName,
-					children: new Map(),
-				}
-				node.children.set(segment, childNode)
+		} else if (name.endsWith('.ts') || name.endsWith('.tsx')) {
+			// Named route file (e.g. users.ts -> /users or users.tsx)
+			const childNode = namedChild(node, name)
+			const isHandlers = name.endsWith('.ts')
+			const mod = await load(childNode, isHandlers ? 'handlers' : 'component')
+			if (!mod) return
+			addConfig(childNode, mod.config)
+			if (isHandlers) {
+				addHandlers(childNode, extractHandlers(mod), file)
+				addRouteMiddleware(childNode, mod.middleware)
+			} else if (mod.default) {
+				recordComponent(childNode, file)
+				childNode.component = mod.default
+				childNode.meta = mod.meta
 			}
+		}
+	}
 
-			try {
-				const mod = await loader()
-				if (name.endsWith('.ts')) {
-					const handlers: Record<string, RouteHandler> = {}
-					const methods = ['get', 'post', 'put', 'del', 'patch', 'delete']
-					for (const method of methods) {
-						const exportName = method
-						if (typeof mod[exportName] === 'function') {
-							const upperMethod =
-								method === 'del' || method === 'delete' ? 'DELETE' : method.toUpperCase()
-							handlers[upperMethod] = mod[exportName]
-						}
-					}
-					childNode.handlers = handlers
-				} else if (name.endsWith('.tsx')) {
-					if (mod.default) childNode.component = mod.default
-				}
-			} catch (e) {
-				console.error(`Failed to load handlers/component`, e)
+	/**
+	 * Rules of `redirects.ts` that can be applied, reporting the others
+	 */
+	function validRules<Rule extends RedirectRule | RewriteRule>(
+		rules: Rule[] | undefined,
+		redirect: boolean,
+		file: string
+	): Rule[] | undefined {
+		if (!rules) return undefined
+		return rules.filter((rule, index) => {
+			const problem = validateRule(rule, redirect)
+			if (problem) {
+				getNodeSources(sources, root).issues.push({
+					severity: 'error',
+					code: 'invalid-redirect',
+					files: [file],
+					message: `${redirect ? 'Redirect' : 'Rewrite'} #${index + 1} of ${file}: ${problem}`,
+				})
+			}
+			return !problem
+		})
+	}
+
+	/**
+	 * Merge the `config` export of a route module into its node
+	 * (`index.ts` and `index.tsx` may both define one)
+	 */
+	function addConfig(target: RouteTreeNode, config: RouteConfig | undefined) {
+		if (config) target.config = { ...target.config, ...config }
+	}
+
+	/**
+	 * Add the route-local `middleware` export of a handlers module to its node
+	 * (`users.ts` and `users/index.ts` may both define one)
+	 */
+	function addRouteMiddleware(target: RouteTreeNode, exported: MiddlewareExport | undefined) {
+		if (!exported) return
+		const merged: Record<string, Middleware[]> = { ...target.routeMiddleware }
+		for (const [method, middleware] of Object.entries(normalizeMiddleware(exported))) {
+			merged[method] = [...(merged[method] ?? []), ...(middleware ?? [])]
+		}
+		target.routeMiddleware = merged
+	}
+
+	/**
+	 * Node of a named route file, reused if already created
+	 * (e.g. by the matching .ts/.tsx file or a directory)
+	 */
+	function namedChild(node: RouteTreeNode, name: string): RouteTreeNode {
+		const fileNameNoExt = path.parse(name).name
+		const childNode = node.children.get(fileNameNoExt) ?? createRouteNode(fileNameNoExt)
+		node.children.set(fileNameNoExt, childNode)
+		return childNode
+	}
+
+	/**
+	 * Export names of a route file, if they can be known without importing it
+	 */
+	async function discoverExports(
+		name: string,
+		file: string,
+		fullPath?: string
+	): Promise<string[] | undefined> {
+		if (!/\.tsx?$/.test(name) || name.endsWith('.d.ts')) return undefined
+		const listed = options.routeExports?.[file]
+		if (listed || globRoutes || !fullPath) return listed
+		try {
+			return scanModuleExports(await fs.readFile(fullPath, 'utf-8'))
+		} catch {
+			return undefined
+		}
+	}
+
+	/**
+	 * Attach the loaders of a route file whose exports are known, without importing it
+	 */
+	function attachLazyFile(
+		name: string,
+		load: () => Promise<any>,
+		node: RouteTreeNode,
+		file: string,
+		exportNames: string[]
+	) {
+		if (name === 'common.ts') {
+			recordMiddleware(node, file)
+			if (exportNames.includes('middleware')) {
+				node.middleware = [createLazyMiddleware(load)]
+			} else {
+				reportMissingMiddleware(node, file)
+			}
+			return
+		}
+
+		const isDirectoryFile = name === 'common.tsx' || name.startsWith('index.') || name in BOUNDARY_FILES
+		const target = isDirectoryFile ? node : namedChild(node, name)
+		const loadDefault = async () => (await load()).default
+		const loadMeta = exportNames.includes('meta') ? async () => (await load()).meta : undefined
+		if (name.endsWith('.ts')) {
+			addHandlers(target, createLazyHandlers(handlerExports(exportNames), load), file)
+			if (exportNames.includes('middleware')) {
+				addRouteMiddleware(target, [createLazyMiddleware(load)])
+			}
+		} else if (!exportNames.includes('default')) {
+			// Neither a layout, a boundary nor a page
+		} else if (name === 'common.tsx') {
+			getNodeSources(sources, node).layout = file
+			node.loaders = { ...node.loaders, layout: loadDefault, layoutMeta: loadMeta }
+		} else if (name in BOUNDARY_FILES) {
+			node.loaders = { ...node.loaders, [BOUNDARY_FILES[name]]: loadDefault }
+		} else {
+			recordComponent(target, file)
+			target.loaders = { ...target.loaders, component: loadDefault, meta: loadMeta }
+		}
+	}
+
+	function reportMissingMiddleware(node: RouteTreeNode, file: string) {
+		getNodeSources(sources, node).issues.push({
+			severity: 'warning',
+			code: 'missing-middleware-export',
+			files: [file],
+			message: `${file} does not export \`middleware\``,
+		})
+	}
+
+	/**
+	 * Merge handlers into a node, reporting methods another file already defines
+	 * (e.g. `users.ts` and `users/index.ts`). The last file loaded wins.
+	 */
+	function addHandlers(target: RouteTreeNode, handlers: Record<string, RouteHandler>, file: string) {
+		const record = getNodeSources(sources, target)
+		record.routesDir = routesDir
+		for (const method of Object.keys(handlers)) {
+			const previous = record.handlers[method]
+			if (previous) {
+				record.issues.push({
+					severity: 'error',
+					code: 'conflicting-handlers',
+					files: [previous, file],
+					message: `${method} is defined by both ${previous} and ${file}`,
+				})
 			}
+			record.handlers[method] = file
+		}
+		target.handlers = { ...target.handlers, ...handlers }
+	}
+
+	/**
+	 * Record the file defining the page of a node, reporting another file defining it too
+	 */
+	function recordComponent(target: RouteTreeNode, file: string) {
+		const record = getNodeSources(sources, target)
+		if (record.component) {
+			record.issues.push({
+				severity: 'error',
+				code: 'conflicting-handlers',
+				files: [record.component, file],
+				message: `Page is defined by both ${record.component} and ${file}`,
+			})
 		}
+		record.component = file
+		record.routesDir = routesDir
+	}
+
+	/**
+	 * Record the `common.ts` of a directory node
+	 */
+	function recordMiddleware(node: RouteTreeNode, file: string) {
+		const record = getNodeSources(sources, node)
+		record.middleware = file
+		record.routesDir = routesDir
 	}
 
 	async function scan(dir: string, node: RouteTreeNode) {
@@ -442,137 +1035,321 @@ export async function buildRouteTree(
 			const entryPath = path.join(dir, entry.name)
 
 			if (entry.isFile()) {
-				if (entry.name === 'common.ts') {
-					try {
-						// For fs scanning we use the provided importFn which likely does dynamic import
-						const mod = await importFn(entryPath)
-						if (mod.middleware) {
-							node.middleware = mod.middleware
-						}
-					} catch (e) {
-						console.error(`Failed to load middleware from ${entryPath}`, e)
-					}
-				} else if (entry.name === 'common.tsx') {
-					try {
-						const mod = await importFn(entryPath)
-						if (mod.default) {
-							node.layout = mod.default
-						}
-					} catch (e) {
-						console.error(`Failed to load layout from ${entryPath}`, e)
-					}
-				} else if (entry.name === 'index.ts') {
-					try {
-						const mod = await importFn(entryPath)
-						const handlers: Record<string, RouteHandler> = {}
-						const methods = ['get', 'post', 'put', 'del', 'patch', 'delete'] // include delete alias
-						for (const method of methods) {
-							// exports can be 'get', 'GET', etc.
-							const exportName = method
-							if (typeof mod[exportName] === 'function') {
-								const upperMethod = method === 'del' || method === 'delete' ? 'DELETE' : method.toUpperCase()
-								handlers[upperMethod] = mod[exportName]
-							}
-						}
-						// Don't overwrite if empty, checks are done lazily
-						node.handlers = handlers
-					} catch (e) {
-						console.error(`Failed to load handlers from ${entryPath}`, e)
-					}
-				} else if (entry.name === 'index.tsx') {
-					try {
-						const mod = await importFn(entryPath)
-						if (mod.default) {
-							node.component = mod.default
-						}
-					} catch (e) {
-						console.error(`Failed to load component from ${entryPath}`, e)
-					}
-				} else if ((entry.name.endsWith('.ts') && !entry.name.endsWith('.d.ts')) || entry.name.endsWith('.tsx')) {
-					// Named route file (e.g. users.ts -> /users or users.tsx)
-					const fileName = path.parse(entry.name).name
-					const segmentInfo = parseSegment(fileName)
-					const segment = segmentInfo.normalizedSegment
-
-					// Check if child node already exists (e.g. created by matching .ts file)
-					let childNode = node.children.get(segment)
-					if (!childNode) {
-						childNode = {
-							segment: segment,
-							isDynamic: segmentInfo.isDynamic,
-							isCatchAll: segmentInfo.isCatchAll,
-							paramName: segmentInfo.paramName,
-							children: new Map(),
-						}
-						node.children.set(segment, childNode)
-					}
-
-					try {
-						const mod = await importFn(entryPath)
-						
-						if (entry.name.endsWith('.ts')) {
-							const handlers: Record<string, RouteHandler> = {}
-							const methods = ['get', 'post', 'put', 'del', 'patch', 'delete']
-							for (const method of methods) {
-								const exportName = method
-								if (typeof mod[exportName] === 'function') {
-									const upperMethod =
-										method === 'del' || method === 'delete' ? 'DELETE' : method.toUpperCase()
-									handlers[upperMethod] = mod[exportName]
-								}
-							}
-							childNode.handlers = handlers
-						} else if (entry.name.endsWith('.tsx')) {
-							if (mod.default) {
-								childNode.component = mod.default
-							}
-						}
-					} catch (e) {
-						console.error(`Failed to load handlers/component from ${entryPath}`, e)
-					}
-				} else if (entry.name.endsWith('.d.ts')) {
-					if (entry.name === 'types.d.ts' || entry.name === 'index.d.ts') {
-						node.types = entryPath
-					} else {
-						const fileNameNoExt = entry.name.slice(0, -5)
-						const segmentInfo = parseSegment(fileNameNoExt)
-						const segment = segmentInfo.normalizedSegment
-
-						let childNode = node.children.get(segment)
-						if (!childNode) {
-							childNode = {
-								segment: segment,
-								isDynamic: segmentInfo.isDynamic,
-								isCatchAll: segmentInfo.isCatchAll,
-								paramName: segmentInfo.paramName,
-								children: new Map(),
-							}
-							node.children.set(segment, childNode)
-						}
-						childNode.types = entryPath
-					}
-				}
+				// For fs scanning we use the provided importFn which likely does dynamic import
+				const file = path.relative(routesDir, entryPath).split(path.sep).join('/')
+				await processFile(entry.name, () => importFn(entryPath), node, file, entryPath)
 			} else if (entry.isDirectory()) {
-				const segmentInfo = parseSegment(entry.name)
-				const isGroup = entry.name.startsWith('(') && entry.name.endsWith(')')
-
-				const childNode: RouteTreeNode = {
-					segment: isGroup ? '' : segmentInfo.normalizedSegment,
-					isDynamic: segmentInfo.isDynamic,
-					isCatchAll: segmentInfo.isCatchAll,
-					paramName: segmentInfo.paramName,
-					children: new Map(),
-					isRouteGroup: isGroup,
-				}
-
+				const childNode = node.children.get(entry.name) ?? createRouteNode(entry.name, true)
 				node.children.set(entry.name, childNode)
 				await scan(entryPath, childNode)
 			}
 		}
 	}
 
+	/**
+	 * Remove what a file contributed to the tree, before it is loaded again or after
+	 * its deletion. Returns the files it conflicted with, as it may have overwritten
+	 * their definitions.
+	 */
+	function detachFile(name: string, node: RouteTreeNode, file: string): string[] {
+		type LoadedKey = keyof NonNullable<RouteTreeNode['loaders']>
+		const clear = (target: RouteTreeNode, keys: LoadedKey[]) => {
+			for (const key of keys) {
+				delete target[key]
+				delete target.loaders?.[key]
+			}
+		}
+
+		if (name.endsWith('.d.ts')) {
+			const target =
+				name === 'types.d.ts' || name === 'index.d.ts' ? node : node.children.get(name.slice(0, -5))
+			if (target) delete target.types
+			return []
+		}
+		if (!/\.tsx?$/.test(name)) return []
+		if (name === REDIRECTS_FILE && node === root) {
+			delete root.redirects
+			delete root.rewrites
+			const record = getNodeSources(sources, root)
+			record.issues = record.issues.filter((issue) => !issue.files.includes(file))
+			return []
+		}
+
+		const isDirectoryFile =
+			name.startsWith('common.') || name.startsWith('index.') || name in BOUNDARY_FILES
+		const target = isDirectoryFile ? node : node.children.get(path.parse(name).name)
+		if (!target) return []
+
+		const record = getNodeSources(sources, target)
+		const conflicting = record.issues
+			.filter((issue) => issue.files.includes(file))
+			.flatMap((issue) => issue.files)
+			.filter((other) => other !== file)
+		record.issues = record.issues.filter((issue) => !issue.files.includes(file))
+
+		if (name === 'common.ts') {
+			delete node.middleware
+			delete node.methodMiddleware
+			delete node.resetMiddleware
+			delete node.excludeMiddleware
+			delete node.commonConfig
+			delete record.middleware
+			return [...new Set(conflicting)]
+		}
+		if (name === 'common.tsx') {
+			clear(node, ['layout', 'layoutMeta'])
+			delete record.layout
+			return [...new Set(conflicting)]
+		}
+		if (name in BOUNDARY_FILES) {
+			clear(node, [BOUNDARY_FILES[name]])
+			return [...new Set(conflicting)]
+		}
+
+		if (target.config || target.routeMiddleware) {
+			// The config and middleware of the other modules of the route are merged in:
+			// load them again too
+			delete target.config
+			delete target.routeMiddleware
+			const others = [...Object.values(record.handlers), record.component]
+			conflicting.push(...others.filter((other): other is string => !!other && other !== file))
+		}
+		if (name.endsWith('.ts')) {
+			for (const [method, source] of Object.entries(record.handlers)) {
+				if (source !== file) continue
+				delete record.handlers[method]
+				delete target.handlers?.[method]
+			}
+		} else if (record.component === file) {
+			delete record.component
+			clear(target, ['component', 'meta'])
+		}
+		return [...new Set(conflicting)]
+	}
+
+	/**
+	 * Directory node of a file, created if missing, with the closest node that
+	 * existed before (the one to recompile)
+	 */
+	function locate(file: string, create: boolean) {
+		const segments = file.split('/')
+		const name = segments.pop()!
+		let node = root
+		let anchor: RouteTreeNode | undefined
+		for (const segment of segments) {
+			let child = node.children.get(segment)
+			if (!child) {
+				if (!create) return undefined
+				child = createRouteNode(segment, true)
+				node.children.set(segment, child)
+				anchor ??= node
+			}
+			node = child
+		}
+		return { name, node, anchor: anchor ?? node }
+	}
+
+	/**
+	 * Import a file of the routes directory again, as `scan` does
+	 */
+	async function processPath(file: string, name: string, node: RouteTreeNode) {
+		const fullPath = path.join(routesDir, file)
+		await processFile(name, () => importFn(fullPath), node, file, fullPath)
+	}
+
+	/**
+	 * Whether a node defines nothing anymore and can be removed from its parent
+	 */
+	function isEmpty(node: RouteTreeNode): boolean {
+		const defined = [
+			node.component,
+			node.middleware,
+			node.methodMiddleware,
+			node.resetMiddleware,
+			node.excludeMiddleware,
+			node.routeMiddleware,
+			node.layout,
+			node.layoutMeta,
+			node.meta,
+			node.config,
+			node.commonConfig,
+		]
+		return (
+			node.children.size === 0 &&
+			Object.keys(node.handlers ?? {}).length === 0 &&
+			defined.every((value) => value === undefined) &&
+			!node.errorComponent &&
+			!node.notFoundComponent &&
+			!node.types &&
+			Object.values(node.loaders ?? {}).every((loader) => !loader)
+		)
+	}
+
+	/**
+	 * Apply a file system event to the tree (see `updateRouteTree`)
+	 */
+	async function update(event: RouteFileEvent, filePath: string) {
+		const target = mounted.find(({ mount }) => !mount.globRoutes && isInside(mount.routesDir, filePath))
+		if (target) {
+			await updateRouteTree(target.tree, event, filePath)
+			if (target.mount.inheritMiddleware === false) target.tree.resetMiddleware = true
+			recompileRouteNode(root, target.tree)
+			check()
+			return
+		}
+
+		const file = path
+			.relative(path.resolve(routesDir), path.resolve(filePath))
+			.split(path.sep)
+			.join('/')
+		if (!file || file.startsWith('..') || path.isAbsolute(file) || event === 'addDir') return
+
+		const removed = event === 'unlink' || event === 'unlinkDir'
+		const location = locate(file, !removed)
+		if (!location) return
+		const { name, node, anchor } = location
+
+		if (event === 'unlinkDir') {
+			const child = node.children.get(name)
+			if (child && isEmpty(child)) node.children.delete(name)
+		} else {
+			const others = detachFile(name, node, file)
+			// Conflicting files get their overwritten definitions back
+			for (const other of others) {
+				const otherLocation = virtualFiles.has(other) ? undefined : locate(other, false)
+				if (!otherLocation) continue
+				detachFile(otherLocation.name, otherLocation.node, other)
+				await processPath(other, otherLocation.name, otherLocation.node)
+			}
+			if (!removed) await processPath(file, name, node)
+			// Virtual routes are attached after files, as when building
+			for (const other of others) {
+				const virtual = virtualFiles.get(other)
+				if (!virtual) continue
+				detachFile(virtual.name, virtual.node, other)
+				await processFile(virtual.name, async () => virtual.exports, virtual.node, other)
+			}
+			const key = name.endsWith('.d.ts') ? name.slice(0, -5) : path.parse(name).name
+			const named = node.children.get(key)
+			if (removed && named && isEmpty(named)) node.children.delete(key)
+		}
+
+		recompileRouteNode(root, anchor)
+		check()
+	}
+
+	/**
+	 * Diagnose the tree, throwing in strict mode when it has errors
+	 */
+	function check() {
+		const diagnostics = diagnoseRouteTree(root, sources)
+		if (options.strict && diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+			throw new RouteBuildError(diagnostics)
+		}
+		report(diagnostics)
+	}
+
+	/**
+	 * Attach a virtual route to the node of its path, as the files it stands for.
+	 * Returns the closest node that existed before (the one to recompile).
+	 */
+	async function attachVirtual(route: VirtualRoute): Promise<RouteTreeNode> {
+		const dir = route.path.split('/').filter(Boolean).join('/')
+		const { node, anchor } = locate(dir ? `${dir}/index.ts` : 'index.ts', true)!
+		const files: [string, unknown][] = [
+			['common.ts', route.common],
+			['common.tsx', route.layout],
+			['index.ts', route.handlers],
+			['index.tsx', route.page],
+		]
+		for (const [name, exports] of files) {
+			if (!exports) continue
+			const file = `${route.source ?? 'virtual'}:${dir ? `${dir}/` : ''}${name}`
+			virtualFiles.set(file, { name, node, exports })
+			await processFile(name, async () => exports, node, file)
+		}
+		return anchor
+	}
+
+	/**
+	 * Build the trees of `options.mounts` and graft them under their prefix, as route
+	 * groups named after it (e.g. `/billing/(mount:billing)`)
+	 */
+	async function mountAll() {
+		for (const mount of options.mounts ?? []) {
+			const tree = await buildRouteTree(mount.routesDir, importFn, mount.globRoutes, {
+				globParams: options.globParams,
+				lazy: options.lazy,
+				routeExports: mount.routeExports,
+				sources,
+				// Reported with the diagnostics of the whole tree
+				onDiagnostics: () => {},
+			})
+			const segments = mount.prefix.split('/').filter(Boolean)
+			let parent = root
+			for (const segment of segments) {
+				let child = parent.children.get(segment)
+				if (!child) {
+					child = createRouteNode(segment, true)
+					parent.children.set(segment, child)
+				}
+				parent = child
+			}
+			const name = segments.length ? `mount:${segments.at(-1)}` : 'mount'
+			let key = `(${name})`
+			for (let index = 2; parent.children.has(key); index++) key = `(${name}#${index})`
+			tree.isRouteGroup = true
+			if (mount.inheritMiddleware === false) tree.resetMiddleware = true
+			if (tree.redirects || tree.rewrites) {
+				getNodeSources(sources, tree).issues.push({
+					severity: 'warning',
+					code: 'ignored-redirects',
+					files: [REDIRECTS_FILE],
+					message: `${REDIRECTS_FILE} of mounted ${mount.routesDir} is ignored: declare its rules in the root routes directory`,
+				})
+			}
+			parent.children.set(key, tree)
+			mounted.push({ mount, tree })
+		}
+	}
+
+	/**
+	 * Pass diagnostics to `onDiagnostics`, or log them
+	 */
+	function report(diagnostics: RouteDiagnostic[]) {
+		if (diagnostics.length === 0) return
+		if (options.onDiagnostics) {
+			options.onDiagnostics(diagnostics)
+		} else if (diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+			console.error(formatRouteDiagnostics(diagnostics))
+		} else {
+			console.warn(formatRouteDiagnostics(diagnostics))
+		}
+	}
+
+	/**
+	 * Attach virtual routes, graft the mounts, report diagnostics of the finished tree (throwing in strict mode) and compile it
+	 */
+	async function finish(): Promise<RouteTreeNode> {
+		for (const route of options.routes ?? []) await attachVirtual(route)
+		await mountAll()
+		check()
+		compileRouteTree(root)
+		treeRegistrars.set(root, async (route) => {
+			recompileRouteNode(root, await attachVirtual(route))
+			check()
+		})
+		return root
+	}
+
 	await scan(routesDir, root)
-	return root
+	treeUpdaters.set(root, update)
+	return finish()
+}
+
+function isInside(dir: string, filePath: string): boolean {
+	const relative = path.relative(path.resolve(dir), path.resolve(filePath))
+	return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)
 }
 
 /**
@@ -0,0 +1,350 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { Hono } from 'hono'
+import { describe, expect, it, vi } from 'vitest'
+import { createPounceMiddleware } from '../../adapters/hono.js'
+import { api } from '../http/client.js'
+import { runMiddlewares } from '../http/core.js'
+import { CSRF_DATA_ID, csrfMiddleware } from '../http/csrf.js'
+import { getSession, sessionMiddleware } from '../http/session.js'
+import { buildRouteTree, getAllowedMethods, loadNotFound, loadRoute, matchRoute } from './index.js'
+import { lazyModule, scanModuleExports, scanRouteExports } from './lazy.js'
+
+const MINIMAL_APP_ROUTES = path.resolve(__dirname, '../../../tests/consumers/minimal-app/routes')
+
+describe('lazyModule', () => {
+	it('should share one import between concurrent calls', async () => {
+		const loader = vi.fn(async () => ({ value: 1 }))
+		const load = lazyModule(loader)
+
+		const [a, b] = await Promise.all([load(), load()])
+		expect(a).toBe(b)
+		await load()
+		expect(loader).toHaveBeenCalledTimes(1)
+	})
+
+	it('should retry after a failed import', async () => {
+		const loader = vi
+			.fn()
+			.mockRejectedValueOnce(new Error('network'))
+			.mockResolvedValueOnce({ value: 1 })
+		const load = lazyModule(loader)
+
+		await expect(load()).rejects.toThrow('network')
+		await expect(load()).resolves.toEqual({ value: 1 })
+	})
+})
+
+describe('scanModuleExports', () => {
+	it('should find declared, listed and default exports', () => {
+		const source = `
+			import type { Middleware } from 'pounce-board/server'
+			export async function get(ctx) {}
+			export const middleware: Middleware[] = []
+			const remove = () => {}
+			export { remove as del, type Helper }
+			export type { Other } from './other'
+			// export function post() {}
+			export default function Page() {}
+		`
+		expect(scanModuleExports(source)?.sort()).toEqual(['default', 'del', 'get', 'middleware'])
+	})
+
+	it('should read declarations whose types and values hold commas', () => {
+		const source = `
+			export const get: Handler<Query, Output> = async (ctx, next) => ({ status: 200, data: [1, 2] })
+			export const middleware = [auth, 'a,b']
+			export * as helpers from './helpers'
+		`
+		expect(scanModuleExports(source)?.sort()).toEqual(['get', 'helpers', 'middleware'])
+	})
+
+	it('should not guess at exports it cannot name', () => {
+		expect(scanModuleExports(`export * from './handlers'`)).toBeUndefined()
+		expect(scanModuleExports('export const get = handler, post = handler')).toBeUndefined()
+		expect(scanModuleExports('export const { get, post } = handlers')).toBeUndefined()
+	})
+})
+
+describe('lazy route trees', () => {
+	it('should not import route modules while building', async () => {
+		const loader = vi.fn(async () => ({ get: async () => ({ status: 200, data: 'ok' }) }))
+		const tree = await buildRouteTree(
+			'/routes',
+			undefined,
+			{ '/routes/users/index.ts': loader },
+			{ lazy: true, routeExports: { 'users/index.ts': ['get'] } }
+		)
+
+		expect(loader).not.toHaveBeenCalled()
+		expect(getAllowedMethods('/users', tree)).toEqual(['GET', 'HEAD', 'OPTIONS'])
+
+		const match = matchRoute('/users', tree, 'GET')!
+		const response = await match.handler!({
+			request: new Request('http://localhost/users'),
+			params: {},
+		})
+		expect(response).toEqual({ status: 200, data: 'ok' })
+		expect(loader).toHaveBeenCalledTimes(1)
+	})
+
+	it('should import files missing from the manifest eagerly', async () => {
+		const loader = vi.fn(async () => ({ get: () => {} }))
+		await buildRouteTree(
+			'/routes',
+			undefined,
+			{ '/routes/index.ts': loader },
+			{ lazy: true, routeExports: {} }
+		)
+
+		expect(loader).toHaveBeenCalledTimes(1)
+	})
+
+	it('should load page components and layouts once on loadRoute', async () => {
+		const Layout = () => null
+		const Page = () => null
+		const layoutLoader = vi.fn(async () => ({ default: Layout }))
+		const pageLoader = vi.fn(async () => ({ default: Page }))
+		const tree = await buildRouteTree(
+			'/routes',
+			undefined,
+			{ '/routes/common.tsx': layoutLoader, '/routes/about.tsx': pageLoader },
+			{ lazy: true, routeExports: { 'common.tsx': ['default'], 'about.tsx': ['default'] } }
+		)
+
+		expect(matchRoute('/about', tree)?.component).toBeUndefined()
+
+		const [first, second] = await Promise.all([
+			loadRoute('/about', tree),
+			loadRoute('/about', tree),
+		])
+		expect(first?.component).toBe(Page)
+		expect(first?.layouts).toEqual([Layout])
+		expect(second?.component).toBe(Page)
+		expect(pageLoader).toHaveBeenCalledTimes(1)
+		expect(layoutLoader).toHaveBeenCalledTimes(1)
+	})
+
+	it('should run lazily imported middleware in order', async () => {
+		const calls: string[] = []
+		const tree = await buildRouteTree(
+			'/routes',
+			undefined,
+			{
+				'/routes/common.ts': async () => ({
+					middleware: [
+						async (_ctx: any, next: () => Promise<Response>) => {
+							calls.push('first')
+							return next()
+						},
+						async (_ctx: any, next: () => Promise<Response>) => {
+							calls.push('second')
+							return next()
+						},
+					],
+				}),
+				'/routes/index.ts': async () => ({
+					get: async () => {
+						calls.push('handler')
+						return { status: 200 }
+					},
+				}),
+			},
+			{ lazy: true, routeExports: { 'common.ts': ['middleware'], 'index.ts': ['get'] } }
+		)
+
+		const match = matchRoute('/', tree)!
+		await runMiddlewares(
+			match.middlewareStack,
+			{ request: new Request('http://localhost/'), params: {} },
+			match.handler!
+		)
+		expect(calls).toEqual(['first', 'second', 'handler'])
+	})
+
+	it('should discover exports by scanning sources on the filesystem', async () => {
+		const importFn = vi.fn((p: string) => import(p))
+		const tree = await buildRouteTree(MINIMAL_APP_ROUTES, importFn, undefined, { lazy: true })
+
+		expect(importFn).not.toHaveBeenCalled()
+		expect(matchRoute('/users/42', tree, 'GET')?.handler).toBeDefined()
+		expect(matchRoute('/users/list', tree, 'GET')).not.toBeNull()
+	})
+
+	it('should import files whose exports cannot be scanned while building', async () => {
+		const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'pounce-lazy-'))
+		try {
+			await fs.writeFile(path.join(dir, 'users.ts'), `export * from './handlers'`)
+			await fs.writeFile(path.join(dir, 'items.ts'), 'export const get = list, post = create')
+			const handler = async () => ({ status: 200 })
+			const importFn = vi.fn(async () => ({ get: handler, post: handler }))
+			const tree = await buildRouteTree(dir, importFn, undefined, { lazy: true })
+
+			expect(importFn).toHaveBeenCalledTimes(2)
+			expect(getAllowedMethods('/users', tree)).toContain('POST')
+			expect(matchRoute('/items', tree, 'POST')?.handler).toBe(handler)
+			expect(await scanRouteExports(dir)).toEqual({})
+		} finally {
+			await fs.rm(dir, { recursive: true, force: true })
+		}
+	})
+
+	it('should generate a manifest of route exports', async () => {
+		const manifest = await scanRouteExports(MINIMAL_APP_ROUTES)
+
+		expect(manifest['users/[id]/index.ts']).toEqual(['get'])
+		expect(manifest['users/common.ts']).toEqual(['middleware'])
+		expect(manifest['users/[id]/types.d.ts']).toBeUndefined()
+	})
+	it('should load error and not-found boundaries on demand', async () => {
+		const ErrorPage = () => null
+		const NotFound = () => null
+		const errorLoader = vi.fn(async () => ({ default: ErrorPage }))
+		const notFoundLoader = vi.fn(async () => ({ default: NotFound }))
+		const tree = await buildRouteTree(
+			'/routes',
+			undefined,
+			{
+				'/routes/error.tsx': errorLoader,
+				'/routes/not-found.tsx': notFoundLoader,
+				'/routes/index.tsx': async () => ({ default: () => null }),
+			},
+			{
+				lazy: true,
+				routeExports: {
+					'error.tsx': ['default'],
+					'not-found.tsx': ['default'],
+					'index.tsx': ['default'],
+				},
+			}
+		)
+
+		expect(errorLoader).not.toHaveBeenCalled()
+		expect((await loadRoute('/', tree))?.errorBoundary?.component).toBe(ErrorPage)
+		expect((await loadNotFound('/missing', tree))?.component).toBe(NotFound)
+		expect(notFoundLoader).toHaveBeenCalledTimes(1)
+	})
+
+	it('should load meta exports with their page and layout', async () => {
+		const pageLoader = vi.fn(async () => ({ default: () => null, meta: { title: 'About' } }))
+		const tree = await buildRouteTree(
+			'/routes',
+			undefined,
+			{
+				'/routes/common.tsx': async () => ({ default: () => null, meta: { title: 'Site' } }),
+				'/routes/about.tsx': pageLoader,
+			},
+			{
+				lazy: true,
+				routeExports: { 'common.tsx': ['default', 'meta'], 'about.tsx': ['default', 'meta'] },
+			}
+		)
+
+		expect(matchRoute('/about', tree)?.meta).toEqual([])
+		expect((await loadRoute('/about', tree))?.meta).toEqual([{ title: 'Site' }, { title: 'About' }])
+		expect(pageLoader).toHaveBeenCalledTimes(1)
+	})
+
+	it('should import modules exporting a config while building', async () => {
+		const loader = vi.fn(async () => ({ get: () => {}, config: { timeout: 500 } }))
+		const tree = await buildRouteTree(
+			'/routes',
+			undefined,
+			{ '/routes/index.ts': loader },
+			{ lazy: true, routeExports: { 'index.ts': ['get', 'config'] } }
+		)
+
+		expect(loader).toHaveBeenCalledTimes(1)
+		expect(matchRoute('/', tree)?.config).toEqual({ timeout: 500 })
+	})
+
+	it('should import common.ts files controlling inheritance while building', async () => {
+		const loader = vi.fn(async () => ({ reset: true }))
+		const tree = await buildRouteTree(
+			'/routes',
+			undefined,
+			{
+				'/routes/common.ts': async () => ({ middleware: [async () => new Response()] }),
+				'/routes/public/common.ts': loader,
+				'/routes/public/index.ts': async () => ({ get: () => {} }),
+			},
+			{
+				lazy: true,
+				routeExports: {
+					'common.ts': ['middleware'],
+					'public/common.ts': ['reset'],
+					'public/index.ts': ['get'],
+				},
+			}
+		)
+
+		expect(loader).toHaveBeenCalledTimes(1)
+		expect(matchRoute('/public', tree)?.middlewareStack).toEqual([])
+	})
+
+	it('should run route-local middleware of the request method on first call', async () => {
+		const order: string[] = []
+		const track = (name: string) => async (_ctx: any, next: () => Promise<Response>) => {
+			order.push(name)
+			return next()
+		}
+		const loader = vi.fn(async () => ({
+			get: async () => ({ status: 200 }),
+			post: async () => ({ status: 201 }),
+			middleware: { '*': [track('all')], POST: [track('post')] },
+		}))
+		const tree = await buildRouteTree(
+			'/routes',
+			undefined,
+			{ '/routes/index.ts': loader },
+			{ lazy: true, routeExports: { 'index.ts': ['get', 'post', 'middleware'] } }
+		)
+		expect(loader).not.toHaveBeenCalled()
+
+		const match = matchRoute('/', tree, 'POST')!
+		const request = new Request('http://localhost/', { method: 'POST' })
+		const response = await runMiddlewares(
+			match.middlewareStack,
+			{ request, params: {} },
+			match.handler!
+		)
+
+		expect(response.status).toBe(201)
+		expect(order).toEqual(['all', 'post'])
+	})
+
+	it('should open the session and hydrate the CSRF token of pages', async () => {
+		const globRoutes = {
+			'/lazy-page-routes/common.ts': async () => ({
+				middleware: [sessionMiddleware(), csrfMiddleware({ strategy: 'session' })],
+			}),
+			'/lazy-page-routes/items.ts': async () => ({
+				get: async () => ({ status: 200, data: [] }),
+				post: async () => ({ status: 200, data: 'posted' }),
+			}),
+		}
+		const routeExports = { 'common.ts': ['middleware'], 'items.ts': ['get', 'post'] }
+		const app = new Hono()
+		app.use(
+			'*',
+			createPounceMiddleware({
+				routesDir: '/lazy-page-routes',
+				globRoutes,
+				lazy: true,
+				routeExports,
+			})
+		)
+		app.get('*', async (c) => {
+			getSession()?.set('user', 'ada')
+			const posted = await api('/items').post({})
+			return c.html(`<html><head></head><body>${posted}</body></html>`)
+		})
+
+		const page = await app.request('http://localhost/items', { headers: { Accept: 'text/html' } })
+		const html = await page.text()
+		expect(html).toContain('<body>posted</body>')
+		expect(html).toContain(`id="${CSRF_DATA_ID}"`)
+		expect(page.headers.get('Set-Cookie')).toMatch(/^pounce-session=/)
+	})
+})
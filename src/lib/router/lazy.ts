@@ -0,0 +1,186 @@
+/**
+ * Lazy route module loading for pounce-board
+ *
+ * A lazily built route tree knows which exports each route file has (from a
+ * static scan of its source, or from a manifest generated at build time) and
+ * imports the file only when one of its handlers, middleware, layout or page
+ * component is first needed.
+ */
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import {
+	type Middleware,
+	type MiddlewareExport,
+	normalizeMiddleware,
+	type RouteHandler,
+	runPageMiddlewares,
+	selectMiddleware,
+	withPageMiddleware,
+} from '../http/core.js'
+import { handlerSchemas, withValidation } from '../http/validation.js'
+
+/**
+ * Export names of route files, keyed by path relative to the routes directory
+ * (e.g. `{ 'users/index.ts': ['get', 'post'] }`).
+ */
+export type RouteExportsManifest = Record<string, string[]>
+
+/**
+ * Wrap a module loader so that it runs at most once, concurrent calls sharing
+ * the same import. A failed import is retried on next call.
+ */
+export function lazyModule<T>(loader: () => Promise<T>): () => Promise<T> {
+	let pending: Promise<T> | undefined
+	return () => {
+		pending ??= loader().catch((error) => {
+			pending = undefined
+			throw error
+		})
+		return pending
+	}
+}
+
+/**
+ * List the export names of a module from its source, without importing it.
+ * Recognizes declarations (`export function get`, `export const middleware`),
+ * export lists (`export { handler as post }`), `export * as name` and
+ * `export default`. Returns undefined for exports it cannot name without importing
+ * the module (`export * from`, destructuring or several declarators).
+ */
+export function scanModuleExports(source: string): string[] | undefined {
+	const names = new Set<string>()
+	// Comments could hold commented-out exports
+	const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '')
+
+	if (/\bexport\s+\*\s+from\b/.test(code)) return undefined
+	if (/\bexport\s+(?:declare\s+)?(?:const|let|var)\s*[{[]/.test(code)) return undefined
+	for (const match of code.matchAll(
+		/\bexport\s+(?:declare\s+)?(?:async\s+)?(?:function\s*\*?|const|let|var|class)\s+([\w$]+)/g
+	)) {
+		const variable = /\b(?:const|let|var)\s+$/.test(match[0].slice(0, -match[1].length))
+		if (variable && declaresMore(code, match.index + match[0].length)) return undefined
+		names.add(match[1])
+	}
+	for (const match of code.matchAll(/\bexport\s+\*\s+as\s+([\w$]+)/g)) names.add(match[1])
+	for (const match of code.matchAll(/\bexport\s+(type\s+)?\{([^}]*)\}/g)) {
+		if (match[1]) continue // `export type { ... }`
+		for (const specifier of match[2].split(',')) {
+			if (/^\s*type\s/.test(specifier)) continue
+			const name = specifier
+				.split(/\s+as\s+/)
+				.pop()!
+				.trim()
+			if (name) names.add(name)
+		}
+	}
+	if (/\bexport\s+default\b/.test(code)) names.add('default')
+
+	return [...names]
+}
+
+const CLOSING: Record<string, string> = { '(': ')', '[': ']', '{': '}' }
+
+/**
+ * Whether the variable declaration going on at `start` declares other variables
+ * (`export const get = ..., post = ...`): a comma outside brackets and strings,
+ * before the end of the statement. Commas of the type annotation are skipped.
+ */
+function declaresMore(code: string, start: number): boolean {
+	const closing: string[] = []
+	let initialized = false
+	let generics = 0
+	for (let index = start; index < code.length; index++) {
+		const char = code[index]
+		if (char === "'" || char === '"' || char === '`') {
+			// Strings and templates are skipped whole, escapes included
+			while (++index < code.length && code[index] !== char) {
+				if (code[index] === '\\') index++
+			}
+		} else if (char in CLOSING) {
+			closing.push(CLOSING[char])
+		} else if (char === closing[closing.length - 1]) {
+			closing.pop()
+		} else if (closing.length > 0) {
+			// Inside brackets
+		} else if (!initialized && char === '<') {
+			generics++
+		} else if (!initialized && char === '>' && code[index - 1] !== '=') {
+			generics--
+		} else if (char === '=' && code[index + 1] !== '>' && generics === 0) {
+			initialized = true
+		} else if (char === ',' && generics === 0) {
+			return true
+		} else if (char === ';' || (initialized && char === '\n')) {
+			return false
+		}
+	}
+	return false
+}
+
+/**
+ * Generate the exports manifest of a routes directory, for lazy trees built
+ * from `globRoutes` where sources cannot be read at runtime.
+ */
+export async function scanRouteExports(routesDir: string): Promise<RouteExportsManifest> {
+	const manifest: RouteExportsManifest = {}
+
+	async function scan(dir: string, depth: number) {
+		if (depth > 20) return
+		const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => null)
+		if (!entries) return
+		for (const entry of entries) {
+			const entryPath = path.join(dir, entry.name)
+			if (entry.isDirectory()) {
+				await scan(entryPath, depth + 1)
+			} else if (/\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+				const file = path.relative(routesDir, entryPath).split(path.sep).join('/')
+				const exports = scanModuleExports(await fs.readFile(entryPath, 'utf-8'))
+				// Files left out are imported while building
+				if (exports) manifest[file] = exports
+			}
+		}
+	}
+
+	await scan(routesDir, 0)
+	return manifest
+}
+
+/**
+ * Handlers that import their module on first call
+ * @param exports Method of each handler export (e.g. `{ get: 'GET' }`)
+ */
+export function createLazyHandlers(
+	exports: Record<string, string>,
+	load: () => Promise<any>
+): Record<string, RouteHandler> {
+	const handlers: Record<string, RouteHandler> = {}
+	for (const [exportName, method] of Object.entries(exports)) {
+		handlers[method] = async (context) => {
+			const mod = await load()
+			const schemas = handlerSchemas(mod.schemas, exportName, method)
+			return withValidation(mod[exportName], schemas)(context)
+		}
+	}
+	return handlers
+}
+
+/**
+ * Middleware that imports a module on first call and runs its `middleware` export
+ * for the request method (`common.ts` or route-local middleware). Pages run the
+ * page parts of the `GET` middleware (see `withPageMiddleware`).
+ */
+export function createLazyMiddleware(load: () => Promise<any>): Middleware {
+	const loadMiddleware = async (method: string) => {
+		const exported: MiddlewareExport = (await load()).middleware ?? []
+		return selectMiddleware(normalizeMiddleware(exported), method)
+	}
+	const lazy: Middleware = async (context, next) => {
+		const middleware = await loadMiddleware(context.request.method)
+		const run = (index: number): Promise<Response> =>
+			index < middleware.length ? middleware[index](context, () => run(index + 1)) : next()
+		return run(0)
+	}
+	return withPageMiddleware(lazy, async (scope) =>
+		runPageMiddlewares(await loadMiddleware('GET'), scope)
+	)
+}
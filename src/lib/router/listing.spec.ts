@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import { buildRouteTree } from './index.js'
+import { explainMatch, listRoutes } from './listing.js'
+
+const ok = async () => ({ status: 200 })
+const pass = async (_ctx: any, next: () => Promise<Response>) => next()
+const Page = () => null
+
+async function buildTree() {
+	const glob: Record<string, () => Promise<any>> = {
+		'/routes/index.tsx': async () => ({ default: Page }),
+		'/routes/common.ts': async () => ({ middleware: [pass] }),
+		'/routes/common.tsx': async () => ({ default: Page }),
+		'/routes/redirects.ts': async () => ({
+			redirects: [{ source: '/old', destination: '/users' }],
+			rewrites: [{ source: '/people/[id]', destination: '/users/[id]' }],
+		}),
+		'/routes/users/index.ts': async () => ({ get: ok, post: ok }),
+		'/routes/users/[id].ts': async () => ({ get: ok, delete: ok }),
+		'/routes/users/[id=int].ts': async () => ({ get: ok }),
+		'/routes/users/me.tsx': async () => ({ default: Page }),
+		'/routes/(admin)/common.ts': async () => ({ middleware: { post: [pass] } }),
+		'/routes/(admin)/settings.ts': async () => ({ get: ok, post: ok }),
+		'/routes/docs/[...slug].ts': async () => ({ get: ok }),
+	}
+	return buildRouteTree('/routes', undefined, glob)
+}
+
+describe('listRoutes', () => {
+	it('should list routes in matching order with their sources', async () => {
+		const routes = listRoutes(await buildTree())
+		expect(routes.map((route) => route.path)).toEqual([
+			'/',
+			'/users',
+			'/users/me',
+			'/users/[id=int]',
+			'/users/[id]',
+			'/docs/[...slug]',
+			'/(admin)/settings',
+		])
+
+		const [home, users, me] = routes
+		expect(home).toMatchObject({
+			pattern: '/',
+			methods: [],
+			page: true,
+			pageFile: 'index.tsx',
+			layouts: ['common.tsx'],
+			middleware: { GET: 1 },
+		})
+		expect(users).toMatchObject({
+			methods: ['GET', 'POST'],
+			handlers: { GET: 'users/index.ts', POST: 'users/index.ts' },
+			page: false,
+			files: ['users/index.ts'],
+		})
+		expect(me.files).toEqual(['users/me.tsx'])
+
+		const settings = routes.at(-1)!
+		expect(settings).toMatchObject({
+			pattern: '/settings',
+			groups: ['(admin)'],
+			middleware: { GET: 1, POST: 2 },
+		})
+	})
+})
+
+describe('explainMatch', () => {
+	it('should explain the selected route and the routes it wins over', async () => {
+		const explanation = explainMatch(await buildTree(), '/users/42?tab=1')
+		expect(explanation.route?.path).toBe('/users/[id=int]')
+		expect(explanation.params).toEqual({ id: 42 })
+		expect(explanation.steps).toEqual([
+			{ name: 'users', segment: 'users', reason: 'static segment' },
+			{ name: '[id=int]', segment: '42', reason: 'param id, accepted by the int matcher' },
+		])
+		expect(explanation.candidates).toEqual([
+			{
+				route: expect.objectContaining({ path: '/users/[id]' }),
+				reason: 'param [id=int] is tried before param [id]',
+			},
+		])
+	})
+
+	it('should report candidates without a handler for the method', async () => {
+		const explanation = explainMatch(await buildTree(), '/users/42', 'DELETE')
+		expect(explanation.route?.path).toBe('/users/[id]')
+		expect(explanation.candidates).toEqual([
+			{
+				route: expect.objectContaining({ path: '/users/[id=int]' }),
+				reason: 'no DELETE handler or page',
+			},
+		])
+	})
+
+	it('should explain route groups and catch-alls', async () => {
+		const tree = await buildTree()
+		expect(explainMatch(tree, '/settings').steps).toEqual([
+			{ name: '(admin)', segment: '', reason: 'route group, consumes no segment' },
+			{ name: 'settings', segment: 'settings', reason: 'static segment' },
+		])
+		expect(explainMatch(tree, '/docs/a/b').steps.at(-1)).toEqual({
+			name: '[...slug]',
+			segment: 'a/b',
+			reason: 'catch-all, captures the remaining segments as slug',
+		})
+	})
+
+	it('should apply redirects and rewrites first', async () => {
+		const tree = await buildTree()
+		const redirected = explainMatch(tree, '/old')
+		expect(redirected.redirect).toEqual({ location: '/users', status: 308 })
+		expect(redirected.route).toBeUndefined()
+
+		const rewritten = explainMatch(tree, '/people/7')
+		expect(rewritten.rewrite).toBe('/users/7')
+		expect(rewritten.route?.path).toBe('/users/[id=int]')
+
+		expect(explainMatch(tree, '/nowhere').route).toBeUndefined()
+		expect(explainMatch(tree, '/a%2Fb').path).toBeUndefined()
+	})
+})
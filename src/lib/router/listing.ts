@@ -0,0 +1,297 @@
+/**
+ * Route listing for pounce-board
+ *
+ * Flattens a route tree into the routes it answers, in the order the compiled
+ * matcher tries them, and explains which route a URL selects and why.
+ * Backs the `pounce routes` command.
+ */
+import { getRouteSources } from './diagnostics.js'
+import type { MatchRouteOptions, RouteTreeNode } from './index.js'
+import { type CompiledRouteNode, getRouteMatcher, matchCompiled, middlewareFor } from './matcher.js'
+import { parsePath } from './path.js'
+import { type RedirectStatus, resolveRedirect, rewriteRoutePath } from './redirects.js'
+
+/**
+ * Route answered by a node of the tree
+ */
+export interface RouteEntry {
+	/** URL pattern, segments named as by the route files (e.g. `/users/[id=int]`) */
+	pattern: string
+	/** Path in the routes directory, route groups included (e.g. `/(admin)/users`) */
+	path: string
+	/** Route groups the route sits in, outermost first */
+	groups: string[]
+	/** Methods with a handler */
+	methods: string[]
+	/** File defining each method handler */
+	handlers: Record<string, string>
+	/** Whether the route renders a page */
+	page: boolean
+	/** File defining the page component */
+	pageFile?: string
+	/** `common.tsx` files wrapping the page, from root to leaf */
+	layouts: string[]
+	/** Number of middleware run per method, GET included for pages */
+	middleware: Record<string, number>
+	/** `common.ts` files whose middleware apply, from root to leaf */
+	middlewareFiles: { file: string; routesDir?: string }[]
+	/** Generated `.d.ts` file of the route */
+	types?: string
+	/** Files defining the route */
+	files: string[]
+	/** Routes directory the files are relative to (that of their mount) */
+	routesDir?: string
+}
+
+/**
+ * Node entered while matching a URL
+ */
+export interface MatchStep {
+	/** Name of the node's file or directory */
+	name: string
+	/** URL segments it consumes, joined (empty for route groups) */
+	segment: string
+	/** Why the node matches */
+	reason: string
+}
+
+/**
+ * Route matching a URL that was not selected
+ */
+export interface MatchCandidate {
+	route: RouteEntry
+	reason: string
+}
+
+/**
+ * How a URL is routed: redirect, rewrite, then the route `matchRoute` selects
+ */
+export interface MatchExplanation {
+	url: string
+	method: string
+	/** Normalized path, undefined when the URL cannot be routed (see `parsePath`) */
+	path?: string
+	/** Redirect of `redirects.ts` answering before any route is matched */
+	redirect?: { location: string; status: RedirectStatus }
+	/** Path routed instead of the URL, set by a rewrite of `redirects.ts` */
+	rewrite?: string
+	/** Selected route, undefined when none matches */
+	route?: RouteEntry
+	params?: Record<string, any>
+	/** Nodes entered down to the selected route */
+	steps: MatchStep[]
+	/** Other routes matching the path, and why they lose */
+	candidates: MatchCandidate[]
+}
+
+function isRoute(node: RouteTreeNode): boolean {
+	return Object.keys(node.handlers ?? {}).length > 0 || hasPage(node)
+}
+
+function hasPage(node: RouteTreeNode): boolean {
+	return !!(node.component || node.loaders?.component)
+}
+
+function accepts(node: RouteTreeNode, method: string): boolean {
+	return !!(node.handlers?.[method] || hasPage(node))
+}
+
+// Name of a child in its parent directory: groups and dynamic segments keep their brackets
+function childName(parent: CompiledRouteNode, child: CompiledRouteNode): string {
+	for (const [key, value] of parent.node.children) if (value === child.node) return key
+	return child.node.segment
+}
+
+function chainOf(compiled: CompiledRouteNode): CompiledRouteNode[] {
+	const chain: CompiledRouteNode[] = []
+	for (let node: CompiledRouteNode | undefined = compiled; node?.parent; node = node.parent) {
+		chain.unshift(node)
+	}
+	return chain
+}
+
+// Children in the order the compiled matcher tries them
+function childrenOf(compiled: CompiledRouteNode): CompiledRouteNode[] {
+	return [
+		...compiled.static.values(),
+		...compiled.dynamic,
+		...compiled.groups,
+		...compiled.catchAll,
+	]
+}
+
+function describe(compiled: CompiledRouteNode, name: string): string {
+	const { node } = compiled
+	if (node.isRouteGroup) return `route group ${name}`
+	if (node.isCatchAll) return `catch-all ${name}`
+	if (node.isDynamic) return `param ${name}`
+	return `static segment ${name}`
+}
+
+function toEntry(compiled: CompiledRouteNode, tree: RouteTreeNode): RouteEntry {
+	const sources = getRouteSources(tree)
+	const { node } = compiled
+	const names: string[] = []
+	const groups: string[] = []
+	const dirs = new Map<RouteTreeNode, string>([[tree, '']])
+	for (const each of chainOf(compiled)) {
+		const name = childName(each.parent!, each)
+		names.push(name)
+		if (each.node.isRouteGroup) groups.push(name)
+		dirs.set(each.node, `/${names.join('/')}`)
+	}
+
+	const record = sources.get(node)
+	const handlers = { ...record?.handlers }
+	const methods = Object.keys(node.handlers ?? {})
+	const page = hasPage(node)
+	const middleware: Record<string, number> = {}
+	for (const method of page && !methods.includes('GET') ? [...methods, 'GET'] : methods) {
+		middleware[method] = middlewareFor(compiled, method).length
+	}
+
+	return {
+		pattern: `/${compiled.path.join('/')}`,
+		path: `/${names.join('/')}`,
+		groups,
+		methods,
+		handlers,
+		page,
+		pageFile: record?.component,
+		layouts: compiled.layoutNodes.map(
+			(layoutNode) =>
+				sources.get(layoutNode)?.layout ?? `${dirs.get(layoutNode) ?? ''}/common.tsx`.slice(1)
+		),
+		middleware,
+		middlewareFiles: compiled.middlewareLayers.flatMap((layer) => {
+			const layerSources = sources.get(layer.node)
+			return layerSources?.middleware
+				? [{ file: layerSources.middleware, routesDir: layerSources.routesDir }]
+				: []
+		}),
+		types: node.types,
+		files: [...new Set([...Object.values(handlers), record?.component])].filter(
+			(file): file is string => !!file
+		),
+		routesDir: record?.routesDir,
+	}
+}
+
+/**
+ * Routes of a tree, in the order the compiled matcher tries them:
+ * static segments, dynamic ones, route groups, then catch-alls.
+ */
+export function listRoutes(tree: RouteTreeNode): RouteEntry[] {
+	const entries: RouteEntry[] = []
+	function visit(compiled: CompiledRouteNode, depth: number) {
+		if (depth > 50) return
+		if (isRoute(compiled.node)) entries.push(toEntry(compiled, tree))
+		for (const child of childrenOf(compiled)) visit(child, depth + 1)
+	}
+	visit(getRouteMatcher(tree).root, 0)
+	return entries
+}
+
+/**
+ * Explain how the adapter routes a URL: the redirect or rewrite of `redirects.ts`
+ * applying to it, the route `matchRoute` selects with the nodes entered to reach
+ * it, and the other routes matching the path with the reason they are not selected.
+ */
+export function explainMatch(
+	tree: RouteTreeNode,
+	url: string,
+	method = 'GET',
+	options: MatchRouteOptions = {}
+): MatchExplanation {
+	const explanation: MatchExplanation = { url, method, steps: [], candidates: [] }
+	const pathname = url.split(/[?#]/)[0]
+	const parsed = parsePath(pathname)
+	if (!parsed) return explanation
+	explanation.path = parsed.path
+
+	const redirect = resolveRedirect(tree.redirects, parsed)
+	if (redirect) {
+		explanation.redirect = redirect
+		return explanation
+	}
+	const routed = rewriteRoutePath(tree, parsed.path)
+	const target = routed === parsed.path ? parsed : parsePath(routed)
+	if (routed !== parsed.path) explanation.rewrite = routed
+	if (!target) return explanation
+
+	const matcher = getRouteMatcher(tree)
+	const { segments } = target
+	const result = matchCompiled(matcher, segments, method, options.caseInsensitive)
+	const selected = result ? chainOf(result.target) : []
+	if (result) {
+		explanation.route = toEntry(result.target, tree)
+		explanation.params = result.params
+		let index = 0
+		for (const compiled of selected) {
+			const name = childName(compiled.parent!, compiled)
+			const { node, paramMatcher } = compiled
+			if (node.isRouteGroup) {
+				explanation.steps.push({ name, segment: '', reason: 'route group, consumes no segment' })
+			} else if (node.isCatchAll) {
+				const rest = segments.slice(index).join('/')
+				index = segments.length
+				explanation.steps.push({
+					name,
+					segment: rest,
+					reason: rest
+						? `catch-all, captures the remaining segments as ${node.paramName}`
+						: 'optional catch-all, matches no segment',
+				})
+			} else {
+				const segment = segments[index++]
+				let reason = 'static segment'
+				if (node.isDynamic) {
+					reason = paramMatcher
+						? `param ${node.paramName}, accepted by the ${node.paramMatcher} matcher`
+						: `param ${node.paramName}, matches any segment`
+				}
+				explanation.steps.push({ name, segment, reason })
+			}
+		}
+	}
+
+	// Every route matching the path, whatever the method
+	const fold = (segment: string) => (options.caseInsensitive ? segment.toLowerCase() : segment)
+	const matching: CompiledRouteNode[] = []
+	function collect(compiled: CompiledRouteNode, index: number, depth: number) {
+		if (depth > 50) return
+		const remaining = index < segments.length
+		if (!remaining && isRoute(compiled.node)) matching.push(compiled)
+		if (remaining) {
+			for (const [key, child] of compiled.static) {
+				if (fold(key) === fold(segments[index])) collect(child, index + 1, depth + 1)
+			}
+			for (const child of compiled.dynamic) {
+				if (!child.paramMatcher || child.paramMatcher.match(segments[index])) {
+					collect(child, index + 1, depth + 1)
+				}
+			}
+		}
+		for (const child of compiled.groups) collect(child, index, depth + 1)
+		for (const child of compiled.catchAll) {
+			if ((remaining || child.node.isOptional) && isRoute(child.node)) matching.push(child)
+		}
+	}
+	collect(matcher.root, 0, 0)
+
+	for (const compiled of matching) {
+		if (compiled === result?.target) continue
+		let reason = `no ${method} handler or page`
+		if (result && accepts(compiled.node, method)) {
+			const chain = chainOf(compiled)
+			const index = chain.findIndex((each, at) => each !== selected[at])
+			const winner = selected[index]
+			const loser = chain[index]
+			reason = winner
+				? `${describe(winner, childName(winner.parent!, winner))} is tried before ${describe(loser, childName(loser.parent!, loser))}`
+				: `${explanation.route!.pattern} is matched first`
+		}
+		explanation.candidates.push({ route: toEntry(compiled, tree), reason })
+	}
+	return explanation
+}
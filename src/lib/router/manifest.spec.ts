@@ -0,0 +1,59 @@
+import * as path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { addRoute, buildRouteTree } from './index.js'
+import { generateRouteManifest, routeUrlType } from './manifest.js'
+
+const FIXTURE_DIR = path.resolve(import.meta.dirname, '../../../tests/fixtures/route-manifest')
+
+describe('routeUrlType', () => {
+	it('should type the URLs of a pattern', () => {
+		expect(routeUrlType('/')).toBe('"/"')
+		expect(routeUrlType('/users')).toBe('"/users"')
+		expect(routeUrlType('/users/[id]')).toBe(`\`/users/\${string}\``)
+		expect(routeUrlType('/users/[id=int]/posts')).toBe(`\`/users/\${number}/posts\``)
+		expect(routeUrlType('/files/[...path]')).toBe(`\`/files/\${string}\``)
+		expect(routeUrlType('/docs/[[...slug]]')).toBe(`"/docs" | \`/docs/\${string}\``)
+		expect(routeUrlType('/a`b')).toBe('"/a`b"')
+		expect(routeUrlType('/a`b/[id]')).toBe(`\`/a\\\`b/\${string}\``)
+	})
+})
+
+describe('generateRouteManifest', () => {
+	it('should map each pattern and method to the handler of its module', async () => {
+		const tree = await buildRouteTree(path.join(FIXTURE_DIR, 'routes'))
+		const source = await generateRouteManifest(tree, path.join(FIXTURE_DIR, 'pounce-routes.d.ts'))
+
+		expect(source).toContain("declare module 'pounce-board' {")
+		expect(source).toContain(
+			[
+				'\t\t"/users/[id=int]": {',
+				`\t\t\turl: \`/users/\${number}\``,
+				'\t\t\tparams: PathParams<"/users/[id=int]">',
+				'\t\t\tmethods: {',
+				`\t\t\t\tget: InferRouteMethod<typeof import("./routes/users/[id=int].js"), 'get'>`,
+				`\t\t\t\tdel: InferRouteMethod<typeof import("./routes/users/[id=int].js"), 'del'>`,
+				'\t\t\t}',
+				'\t\t\tmiddleware: [typeof import("./routes/common.js"), typeof import("./routes/users/common.js")]',
+				'\t\t}',
+			].join('\n')
+		)
+		expect(source).toContain(
+			`post: InferRouteMethod<typeof import("./routes/users/index.js"), 'post'>`
+		)
+		expect(source).toContain(`url: "/docs" | \`/docs/\${string}\``)
+		expect(source).toContain(
+			['\t\t\t}', '\t\t\tmiddleware: [typeof import("./routes/common.js")]', '\t\t}'].join('\n')
+		)
+		// Pages are not API routes
+		expect(source).not.toContain('"/": {')
+	})
+
+	it('should import modules relative to the manifest, and leave virtual routes untyped', async () => {
+		const tree = await buildRouteTree(path.join(FIXTURE_DIR, 'routes'))
+		await addRoute(tree, { path: '/health', handlers: { get: async () => ({ status: 200 }) } })
+		const source = await generateRouteManifest(tree, path.join(FIXTURE_DIR, 'types/routes.d.ts'))
+
+		expect(source).toContain('typeof import("../routes/users/index.js")')
+		expect(source).toContain('\t\t\t\tget: RouteMethodTypes\n')
+	})
+})
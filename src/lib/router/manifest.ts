@@ -0,0 +1,148 @@
+/**
+ * Route manifest generation for pounce-board
+ *
+ * Emits a `.d.ts` file augmenting `RouteManifest` with the routes of a tree: the
+ * URLs of each pattern, its params, and the query, body and output types of its
+ * handlers, which the type checker reads from the route modules themselves, and the
+ * `common.ts` modules whose middleware add to the context of its handlers.
+ */
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { RouteTreeNode } from './index.js'
+import { listRoutes, type RouteEntry } from './listing.js'
+
+const CLIENT_METHODS: Record<string, string> = {
+	GET: 'get',
+	POST: 'post',
+	PUT: 'put',
+	DELETE: 'del',
+	PATCH: 'patch',
+}
+
+const NUMBER_MATCHERS = ['int']
+
+// Segment of a URL type: static, or a placeholder of the template literal type
+type UrlPart = { segment: string } | { placeholder: 'string' | 'number' }
+
+function renderUrl(parts: UrlPart[]): string {
+	if (parts.every((part) => 'segment' in part)) {
+		return JSON.stringify(`/${parts.map((part) => part.segment).join('/')}`)
+	}
+	const rendered = parts.map((part) =>
+		'segment' in part ? part.segment.replace(/[`\\]|\$\{/g, '\\$&') : `\${${part.placeholder}}`
+	)
+	return `\`/${rendered.join('/')}\``
+}
+
+/**
+ * Template literal type of the URLs a route pattern answers, e.g.
+ * `/users/${number}` for `/users/[id=int]`
+ */
+export function routeUrlType(pattern: string): string {
+	const parts: UrlPart[] = []
+	const urls: string[] = []
+	for (const segment of pattern.split('/').filter(Boolean)) {
+		if (/^\[\[\.\.\.[^\]]+\]\]$/.test(segment)) {
+			// Optional catch-alls also answer their parent path
+			urls.push(renderUrl(parts))
+			parts.push({ placeholder: 'string' })
+			break
+		}
+		const param = /^\[(?:\.\.\.)?[^\]=]+(?:=([^\]]+))?\]$/.exec(segment)
+		if (param) {
+			parts.push({ placeholder: NUMBER_MATCHERS.includes(param[1]) ? 'number' : 'string' })
+		} else {
+			parts.push(segment.includes('[') ? { placeholder: 'string' } : { segment })
+		}
+	}
+	urls.push(renderUrl(parts))
+	return urls.join(' | ')
+}
+
+async function exists(file: string): Promise<boolean> {
+	return fs.stat(file).then(
+		(stat) => stat.isFile(),
+		() => false
+	)
+}
+
+/**
+ * Module specifier of a route file, as imported from the manifest
+ */
+function importPath(outFile: string, file: string): string {
+	const relative = path.relative(path.dirname(outFile), file).split(path.sep).join('/')
+	return `${relative.startsWith('.') ? '' : './'}${relative}`.replace(/\.ts$/, '.js')
+}
+
+async function methodTypes(entry: RouteEntry, method: string, outFile: string): Promise<string> {
+	const file = entry.handlers[method]
+	const modulePath = file && path.resolve(entry.routesDir ?? '.', file)
+	// Virtual routes have no module to read types from
+	if (!modulePath || !(await exists(modulePath))) return 'RouteMethodTypes'
+	const specifier = JSON.stringify(importPath(outFile, modulePath))
+	return `InferRouteMethod<typeof import(${specifier}), '${CLIENT_METHODS[method]}'>`
+}
+
+// `common.ts` modules typing the context of the route (see `RouteContext`)
+async function middlewareModules(entry: RouteEntry, outFile: string): Promise<string[]> {
+	const modules: string[] = []
+	for (const { file, routesDir } of entry.middlewareFiles) {
+		const modulePath = path.resolve(routesDir ?? '.', file)
+		if (await exists(modulePath)) {
+			modules.push(`typeof import(${JSON.stringify(importPath(outFile, modulePath))})`)
+		}
+	}
+	return modules
+}
+
+/**
+ * Source of the manifest of a tree, to be written to `outFile`: the routes with
+ * handlers, first of each pattern in matching order
+ */
+export async function generateRouteManifest(tree: RouteTreeNode, outFile: string): Promise<string> {
+	const routes = new Map<string, string>()
+	for (const entry of listRoutes(tree)) {
+		const methods = entry.methods.filter((method) => method in CLIENT_METHODS)
+		if (methods.length === 0 || routes.has(entry.pattern)) continue
+		const pattern = JSON.stringify(entry.pattern)
+		const lines = [
+			`\t\t${pattern}: {`,
+			`\t\t\turl: ${routeUrlType(entry.pattern)}`,
+			`\t\t\tparams: PathParams<${pattern}>`,
+			'\t\t\tmethods: {',
+		]
+		for (const method of methods) {
+			lines.push(`\t\t\t\t${CLIENT_METHODS[method]}: ${await methodTypes(entry, method, outFile)}`)
+		}
+		lines.push('\t\t\t}')
+		const modules = await middlewareModules(entry, outFile)
+		if (modules.length > 0) lines.push(`\t\t\tmiddleware: [${modules.join(', ')}]`)
+		lines.push('\t\t}')
+		routes.set(entry.pattern, lines.join('\n'))
+	}
+
+	return [
+		'// Generated by pounce-board from the route tree, do not edit',
+		"import type { InferRouteMethod, PathParams, RouteMethodTypes } from 'pounce-board'",
+		'',
+		"declare module 'pounce-board' {",
+		'\tinterface RouteManifest {',
+		...routes.values(),
+		'\t}',
+		'}',
+		'',
+	].join('\n')
+}
+
+/**
+ * Write the manifest of a tree, leaving the file untouched when it is up to date
+ * (to spare watchers). Returns whether it was written.
+ */
+export async function writeRouteManifest(tree: RouteTreeNode, outFile: string): Promise<boolean> {
+	const source = await generateRouteManifest(tree, outFile)
+	const previous = await fs.readFile(outFile, 'utf-8').catch(() => undefined)
+	if (previous === source) return false
+	await fs.mkdir(path.dirname(outFile), { recursive: true })
+	await fs.writeFile(outFile, source)
+	return true
+}
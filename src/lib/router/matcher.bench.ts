@@ -0,0 +1,176 @@
+/**
+ * Route matching benchmark: compiled matcher vs the former recursive traversal.
+ * Run with `npm run bench`.
+ */
+import { bench, describe } from 'vitest'
+import type { Middleware, RouteHandler } from '../http/core.js'
+import { matchRoute, type RouteParams, type RouteTreeNode } from './index.js'
+
+const handler: RouteHandler = async () => ({ status: 200 })
+const middleware: Middleware = async (_ctx, next) => next()
+const Layout = () => null
+
+function node(segment: string, extra: Partial<RouteTreeNode> = {}): RouteTreeNode {
+	return { segment, isDynamic: false, isCatchAll: false, children: new Map(), ...extra }
+}
+
+function dynamic(name: string, extra: Partial<RouteTreeNode> = {}): RouteTreeNode {
+	return node(`[${name}]`, { isDynamic: true, paramName: name, ...extra })
+}
+
+/**
+ * Builds an app-sized tree: 20 sections x 15 resources, each resource with
+ * list, detail, edit and nested comment routes, plus groups and catch-alls
+ * (~1500 routes).
+ */
+function buildLargeTree(): RouteTreeNode {
+	const root = node('', { middleware: [middleware], layout: Layout, handlers: { GET: handler } })
+	for (let s = 0; s < 20; s++) {
+		const section = node(`section${s}`, { middleware: [middleware], layout: Layout })
+		for (let r = 0; r < 15; r++) {
+			const comment = dynamic('commentId', { handlers: { GET: handler, DELETE: handler } })
+			const comments = node('comments', {
+				handlers: { GET: handler, POST: handler },
+				children: new Map([['[commentId]', comment]]),
+			})
+			const edit = node('edit', { component: Layout })
+			const detail = dynamic('id', {
+				handlers: { GET: handler, PUT: handler },
+				children: new Map([
+					['edit', edit],
+					['comments', comments],
+				]),
+			})
+			const resource = node(`resource${r}`, {
+				middleware: [middleware],
+				handlers: { GET: handler, POST: handler },
+				children: new Map([['[id]', detail]]),
+			})
+			section.children.set(resource.segment, resource)
+		}
+		const group = node('', {
+			isRouteGroup: true,
+			middleware: [middleware],
+			children: new Map([['login', node('login', { component: Layout })]]),
+		})
+		section.children.set('(auth)', group)
+		section.children.set(
+			'[...slug]',
+			node('[...slug]', { isDynamic: true, isCatchAll: true, paramName: 'slug', component: Layout })
+		)
+		root.children.set(section.segment, section)
+	}
+	return root
+}
+
+type LegacyResult = {
+	node: RouteTreeNode
+	params: RouteParams
+	middlewareStack: Middleware[]
+	layouts: any[]
+}
+
+/**
+ * The recursive traversal `matchRoute` used before the compiled matcher, as the
+ * baseline: same lookups, without the warning logged past the depth limit.
+ */
+function legacyMatchRoute(urlPath: string, routeTree: RouteTreeNode, method = 'GET') {
+	const normalizedPath = urlPath === '/' ? '/' : urlPath.replace(/\/$/, '')
+	const segments = normalizedPath.split('/').filter((s) => s !== '')
+
+	function traverse(node: RouteTreeNode, segmentIndex: number, depth = 0): LegacyResult | null {
+		if (depth > 50) return null
+		if (segmentIndex >= segments.length) {
+			if (node.handlers?.[method] || node.component) {
+				return {
+					node,
+					params: {},
+					middlewareStack: node.middleware ? [...node.middleware] : [],
+					layouts: node.layout ? [node.layout] : [],
+				}
+			}
+		}
+
+		const currentSegment = segments[segmentIndex]
+
+		const withStack = (result: LegacyResult | null) => {
+			if (!result) return null
+			if (node.middleware) result.middlewareStack.unshift(...node.middleware)
+			if (node.layout) result.layouts.unshift(node.layout)
+			return result
+		}
+
+		if (segmentIndex < segments.length) {
+			const staticChild = node.children.get(currentSegment)
+			if (staticChild && !staticChild.isDynamic && !staticChild.isRouteGroup) {
+				const result = traverse(staticChild, segmentIndex + 1, depth + 1)
+				if (result) return withStack(result)
+			}
+		}
+
+		if (segmentIndex < segments.length) {
+			for (const [_, child] of node.children) {
+				if (child.isDynamic && !child.isCatchAll && !child.isRouteGroup) {
+					const result = traverse(child, segmentIndex + 1, depth + 1)
+					if (result) {
+						if (child.paramName) result.params[child.paramName] = currentSegment
+						return withStack(result)
+					}
+				}
+			}
+		}
+
+		for (const [_, child] of node.children) {
+			if (child.isRouteGroup) {
+				const result = traverse(child, segmentIndex, depth + 1)
+				if (result) return withStack(result)
+			}
+		}
+
+		if (segmentIndex < segments.length) {
+			for (const [_, child] of node.children) {
+				if (child.isCatchAll && child.paramName) {
+					const remaining = segments.slice(segmentIndex).join('/')
+					if (child.handlers?.[method] || child.component) {
+						return withStack({
+							node: child,
+							params: { [child.paramName]: remaining },
+							middlewareStack: child.middleware ? [...child.middleware] : [],
+							layouts: child.layout ? [child.layout] : [],
+						})
+					}
+				}
+			}
+		}
+
+		return null
+	}
+
+	return traverse(routeTree, 0)
+}
+
+const tree = buildLargeTree()
+const requests: [string, string][] = [
+	['/', 'GET'],
+	['/section0/resource0', 'GET'],
+	['/section7/resource9/123', 'PUT'],
+	['/section19/resource14/42/comments/7', 'DELETE'],
+	['/section12/resource3/99/edit', 'GET'],
+	['/section5/login', 'GET'],
+	['/section18/some/deep/docs/page', 'GET'],
+	['/section3/unknown', 'POST'],
+	['/nowhere/at/all', 'GET'],
+]
+
+describe('matchRoute (~1500 routes)', () => {
+	// Compile once up front, as buildRouteTree does
+	matchRoute('/', tree)
+
+	bench('compiled matcher', () => {
+		for (const [path, method] of requests) matchRoute(path, tree, method)
+	})
+
+	bench('legacy recursive traversal', () => {
+		for (const [path, method] of requests) legacyMatchRoute(path, tree, method)
+	})
+})
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import type { Middleware, RouteHandler } from '../http/core.js'
+import { matchRoute, type RouteTreeNode } from './index.js'
+import { compileRouteTree, getRouteMatcher, invalidateRouteMatcher } from './matcher.js'
+
+const handler: RouteHandler = async () => ({ status: 200 })
+const middleware: Middleware = async (_ctx, next) => next()
+
+function node(segment: string, extra: Partial<RouteTreeNode> = {}): RouteTreeNode {
+	return {
+		segment,
+		isDynamic: false,
+		isCatchAll: false,
+		children: new Map(),
+		...extra,
+	}
+}
+
+describe('compiled matcher', () => {
+	it('should partition children by kind', () => {
+		const tree = node('', {
+			children: new Map([
+				['users', node('users')],
+				['[id]', node('[id]', { isDynamic: true, paramName: 'id' })],
+				['(auth)', node('', { isRouteGroup: true })],
+				['[...rest]', node('[...rest]', { isDynamic: true, isCatchAll: true, paramName: 'rest' })],
+			]),
+		})
+
+		const { root } = compileRouteTree(tree)
+		expect([...root.static.keys()]).toEqual(['users'])
+		expect(root.dynamic).toHaveLength(1)
+		expect(root.groups).toHaveLength(1)
+		expect(root.catchAll).toHaveLength(1)
+	})
+
+	it('should precompute middleware and layout chains per node', () => {
+		const Layout = () => null
+		const leaf = node('[id]', { isDynamic: true, paramName: 'id', handlers: { GET: handler } })
+		const users = node('users', { middleware: [middleware], children: new Map([['[id]', leaf]]) })
+		const tree = node('', { layout: Layout, children: new Map([['users', users]]) })
+
+		const { root } = compileRouteTree(tree)
+		const compiledLeaf = root.static.get('users')!.dynamic[0]
+		expect(compiledLeaf.middlewareStack).toEqual([middleware])
+		expect(compiledLeaf.layouts).toEqual([Layout])
+	})
+
+	it('should cache the matcher until the tree is recompiled', () => {
+		const tree = node('', { handlers: { GET: handler } })
+		const matcher = getRouteMatcher(tree)
+		expect(getRouteMatcher(tree)).toBe(matcher)
+
+		tree.children.set('late', node('late', { handlers: { GET: handler } }))
+		// Stale matcher does not know about the new child
+		expect(matchRoute('/late', tree)).toBeNull()
+
+		compileRouteTree(tree)
+		expect(matchRoute('/late', tree)).not.toBeNull()
+	})
+
+	it('should recompile lazily after invalidation', () => {
+		const tree = node('')
+		const matcher = getRouteMatcher(tree)
+		invalidateRouteMatcher(tree)
+		expect(getRouteMatcher(tree)).not.toBe(matcher)
+	})
+
+	it('should try route groups before catch-all routes', () => {
+		const groupLogin = node('login', { handlers: { GET: handler } })
+		const tree = node('', {
+			children: new Map([
+				[
+					'[...rest]',
+					node('[...rest]', {
+						isDynamic: true,
+						isCatchAll: true,
+						paramName: 'rest',
+						handlers: { GET: handler },
+					}),
+				],
+				['(auth)', node('', { isRouteGroup: true, children: new Map([['login', groupLogin]]) })],
+			]),
+		})
+
+		expect(matchRoute('/login', tree)?.params).toEqual({})
+		expect(matchRoute('/other/page', tree)?.params).toEqual({ rest: 'other/page' })
+	})
+
+	it('should backtrack from a static branch to a dynamic sibling', () => {
+		const tree = node('', {
+			children: new Map([
+				[
+					'users',
+					node('users', {
+						children: new Map([['new', node('new', { handlers: { GET: handler } })]]),
+					}),
+				],
+				[
+					'[section]',
+					node('[section]', {
+						isDynamic: true,
+						paramName: 'section',
+						children: new Map([
+							[
+								'[id]',
+								node('[id]', { isDynamic: true, paramName: 'id', handlers: { GET: handler } }),
+							],
+						]),
+					}),
+				],
+			]),
+		})
+
+		expect(matchRoute('/users/new', tree)?.params).toEqual({})
+		expect(matchRoute('/users/42', tree)?.params).toEqual({ section: 'users', id: '42' })
+	})
+
+	it('should try dynamic routes with a param matcher first and coerce their value', () => {
+		const tree = node('', {
+			children: new Map([
+				[
+					'[name]',
+					node('[name]', { isDynamic: true, paramName: 'name', handlers: { GET: handler } }),
+				],
+				[
+					'[id=int]',
+					node('[id=int]', {
+						isDynamic: true,
+						paramName: 'id',
+						paramMatcher: 'int',
+						handlers: { GET: handler },
+					}),
+				],
+			]),
+		})
+
+		expect(matchRoute('/42', tree)?.params).toEqual({ id: 42 })
+		expect(matchRoute('/widget', tree)?.params).toEqual({ name: 'widget' })
+	})
+
+	it('should never match segments with an unknown param matcher', () => {
+		const tree = node('', {
+			children: new Map([
+				[
+					'[id=nope]',
+					node('[id=nope]', {
+						isDynamic: true,
+						paramName: 'id',
+						paramMatcher: 'nope',
+						handlers: { GET: handler },
+					}),
+				],
+			]),
+		})
+
+		expect(matchRoute('/42', tree)).toBeNull()
+	})
+})
@@ -0,0 +1,385 @@
+/**
+ * Compiled route matcher for pounce-board
+ *
+ * Flattens a `RouteTreeNode` tree into a segment trie where children are
+ * pre-partitioned by kind and every node carries its full middleware and
+ * layout chain, so matching a request is a walk down the trie with no
+ * per-request filtering or array rebuilding.
+ */
+import { type Middleware, type RouteConfig, selectMiddleware } from '../http/core.js'
+import type { RouteTreeNode } from './index.js'
+import { getParamMatcher, type ParamMatcher } from './params.js'
+
+/**
+ * Node of the compiled segment trie.
+ */
+export interface CompiledRouteNode {
+	/** Source node in the route tree */
+	node: RouteTreeNode
+	/** Directory and file names from the root to this node, route groups excepted */
+	path: string[]
+	/** `common.ts` files whose middleware applies, from root to this node (inclusive) */
+	middlewareLayers: MiddlewareLayer[]
+	/** Middleware of every method collected from root to this node (inclusive) */
+	middlewareStack: Middleware[]
+	/** Middleware stacks of the methods some `common.ts` defines middleware for */
+	methodStacks: Record<string, Middleware[]>
+	/** `common.ts` configs merged from root to this node (inclusive) */
+	config: RouteConfig
+	/** Layouts collected from root to this node (inclusive) */
+	layouts: any[]
+	/** Nodes with a layout or layout loader, from root to this node (inclusive) */
+	layoutNodes: RouteTreeNode[]
+	/** Nodes whose layout exports `meta`, from root to this node (inclusive) */
+	metaNodes: RouteTreeNode[]
+	/** Nearest node (inclusive) with an error.tsx */
+	errorBoundary?: CompiledBoundary
+	/** Nearest node (inclusive) with a not-found.tsx */
+	notFoundBoundary?: CompiledBoundary
+	/** Resolved matcher of a `[param=matcher]` segment */
+	paramMatcher?: ParamMatcher
+	/** Compiled parent node, undefined at the root */
+	parent?: CompiledRouteNode
+	/** Static children keyed by URL segment */
+	static: Map<string, CompiledRouteNode>
+	/** Dynamic `[param]` children, those with a param matcher first */
+	dynamic: CompiledRouteNode[]
+	/** Route group children (transparent), in tree order */
+	groups: CompiledRouteNode[]
+	/** Catch-all `[...param]` and `[[...param]]` children, in tree order */
+	catchAll: CompiledRouteNode[]
+}
+
+/**
+ * `common.ts` middleware inherited by a compiled node
+ */
+export interface MiddlewareLayer {
+	/** Node of the `common.ts` directory */
+	node: RouteTreeNode
+	/** Length of the `path` of its directory */
+	depth: number
+}
+
+/**
+ * Node defining a boundary component, with the layout chain down to it.
+ */
+export interface CompiledBoundary {
+	node: RouteTreeNode
+	layoutNodes: RouteTreeNode[]
+}
+
+/**
+ * Precompiled matcher produced from a route tree.
+ */
+export interface CompiledRouteMatcher {
+	root: CompiledRouteNode
+}
+
+/**
+ * Result of running a compiled matcher against URL segments.
+ */
+export interface CompiledMatchResult {
+	target: CompiledRouteNode
+	params: Record<string, any>
+	/** Matched URL segments, static ones in the case of the route files */
+	segments: string[]
+}
+
+const MAX_MATCH_DEPTH = 50
+
+// Matchers are attached to their tree without mutating the public node shape
+const matcherCache = new WeakMap<RouteTreeNode, CompiledRouteMatcher>()
+// Last compiled node of each tree node, to recompile subtrees in place
+const compiledNodes = new WeakMap<RouteTreeNode, CompiledRouteNode>()
+
+// Unknown matcher names never match, so that a typo cannot widen a route (they are
+// reported by `diagnoseRouteTree`)
+const rejectAll: ParamMatcher = { match: () => false }
+
+function resolveParamMatcher(node: RouteTreeNode): ParamMatcher | undefined {
+	if (!node.paramMatcher) return undefined
+	return getParamMatcher(node.paramMatcher) ?? rejectAll
+}
+
+/**
+ * Whether a `common.ts` excludes a node from its middleware: an `exclude` entry
+ * names the node or one of its ancestors, relative to the `common.ts` directory
+ */
+function excludes(layer: MiddlewareLayer, path: string[]): boolean {
+	const relative = path.slice(layer.depth).join('/')
+	return (layer.node.excludeMiddleware ?? []).some((entry) => {
+		const excluded = entry.replace(/^\.?\/+|\/+$/g, '')
+		return relative === excluded || relative.startsWith(`${excluded}/`)
+	})
+}
+
+function layerMiddleware(layer: MiddlewareLayer, method?: string): Middleware[] {
+	const { middleware = [], methodMiddleware = {} } = layer.node
+	return method ? selectMiddleware({ ...methodMiddleware, '*': middleware }, method) : middleware
+}
+
+function compileNode(
+	node: RouteTreeNode,
+	parent?: CompiledRouteNode,
+	name = ''
+): CompiledRouteNode {
+	const path = parent && !node.isRouteGroup ? [...parent.path, name] : (parent?.path ?? [])
+	const inherited = node.resetMiddleware ? [] : (parent?.middlewareLayers ?? [])
+	const middlewareLayers = inherited.filter((layer) => !excludes(layer, path))
+	if (node.middleware || node.methodMiddleware) {
+		middlewareLayers.push({ node, depth: path.length })
+	}
+	const methodStacks: Record<string, Middleware[]> = {}
+	for (const layer of middlewareLayers) {
+		for (const method of Object.keys(layer.node.methodMiddleware ?? {})) {
+			methodStacks[method] ??= middlewareLayers.flatMap((each) => layerMiddleware(each, method))
+		}
+	}
+
+	const compiled: CompiledRouteNode = {
+		node,
+		path,
+		middlewareLayers,
+		middlewareStack: middlewareLayers.flatMap((layer) => layerMiddleware(layer)),
+		methodStacks,
+		config: node.commonConfig
+			? { ...parent?.config, ...node.commonConfig }
+			: (parent?.config ?? {}),
+		layouts: node.layout ? [...(parent?.layouts ?? []), node.layout] : (parent?.layouts ?? []),
+		layoutNodes:
+			node.layout || node.loaders?.layout
+				? [...(parent?.layoutNodes ?? []), node]
+				: (parent?.layoutNodes ?? []),
+		metaNodes:
+			node.layoutMeta || node.loaders?.layoutMeta
+				? [...(parent?.metaNodes ?? []), node]
+				: (parent?.metaNodes ?? []),
+		paramMatcher: resolveParamMatcher(node),
+		parent,
+		static: new Map(),
+		dynamic: [],
+		groups: [],
+		catchAll: [],
+	}
+	compiled.errorBoundary =
+		node.errorComponent || node.loaders?.errorComponent
+			? { node, layoutNodes: compiled.layoutNodes }
+			: parent?.errorBoundary
+	compiled.notFoundBoundary =
+		node.notFoundComponent || node.loaders?.notFoundComponent
+			? { node, layoutNodes: compiled.layoutNodes }
+			: parent?.notFoundBoundary
+
+	for (const [key, child] of node.children) {
+		const compiledChild = compileNode(child, compiled, key)
+		if (child.isRouteGroup) {
+			compiled.groups.push(compiledChild)
+		} else if (child.isCatchAll) {
+			if (child.paramName) compiled.catchAll.push(compiledChild)
+		} else if (child.isDynamic) {
+			compiled.dynamic.push(compiledChild)
+		} else {
+			compiled.static.set(key, compiledChild)
+		}
+	}
+
+	// Constrained segments are more specific than plain ones (stable sort keeps tree order)
+	compiled.dynamic.sort((a, b) => Number(!a.paramMatcher) - Number(!b.paramMatcher))
+
+	compiledNodes.set(node, compiled)
+	return compiled
+}
+
+/**
+ * Middleware of a request on a compiled node: the inherited `common.ts` middleware
+ * (for every method, then per method), then the route-local one
+ */
+export function middlewareFor(compiled: CompiledRouteNode, method: string): Middleware[] {
+	const { methodStacks, middlewareStack, node } = compiled
+	const inherited =
+		methodStacks[method] ?? (method === 'HEAD' ? methodStacks.GET : undefined) ?? middlewareStack
+	return node.routeMiddleware
+		? [...inherited, ...selectMiddleware(node.routeMiddleware, method)]
+		: [...inherited]
+}
+
+/**
+ * Compile a route tree into a matcher and attach it to the tree.
+ * Call again after mutating the tree to refresh the cached matcher.
+ */
+export function compileRouteTree(tree: RouteTreeNode): CompiledRouteMatcher {
+	const matcher: CompiledRouteMatcher = { root: compileNode(tree) }
+	matcherCache.set(tree, matcher)
+	return matcher
+}
+
+/**
+ * Get the compiled matcher of a tree, compiling it on first use.
+ */
+export function getRouteMatcher(tree: RouteTreeNode): CompiledRouteMatcher {
+	return matcherCache.get(tree) ?? compileRouteTree(tree)
+}
+
+/**
+ * Recompile the subtree of a node after it changed (handlers, middleware, layouts,
+ * boundaries or children), keeping the rest of the tree's compiled matcher.
+ * Compiles the whole tree when the node is not part of its current matcher.
+ */
+export function recompileRouteNode(tree: RouteTreeNode, node: RouteTreeNode): void {
+	const matcher = matcherCache.get(tree)
+	const compiled = compiledNodes.get(node)
+	let root = compiled
+	while (root?.parent) root = root.parent
+	if (!matcher || !compiled || root !== matcher.root) {
+		compileRouteTree(tree)
+		return
+	}
+
+	const { parent } = compiled
+	if (!parent) {
+		matcher.root = compileNode(node)
+		return
+	}
+	const key = [...parent.node.children].find(([, child]) => child === node)?.[0]
+	if (key === undefined) {
+		compileRouteTree(tree)
+		return
+	}
+	const fresh = compileNode(node, parent, key)
+	for (const [key, child] of parent.static) {
+		if (child === compiled) {
+			parent.static.set(key, fresh)
+			return
+		}
+	}
+	for (const siblings of [parent.dynamic, parent.groups, parent.catchAll]) {
+		const index = siblings.indexOf(compiled)
+		if (index >= 0) {
+			siblings[index] = fresh
+			return
+		}
+	}
+	compileRouteTree(tree)
+}
+
+/**
+ * Drop the compiled matcher of a tree so that it is recompiled on next match.
+ */
+export function invalidateRouteMatcher(tree: RouteTreeNode): void {
+	matcherCache.delete(tree)
+}
+
+function accepts(node: RouteTreeNode, method: string): boolean {
+	return !!(node.handlers?.[method] || node.component || node.loaders?.component)
+}
+
+/**
+ * Static child of a segment, compared regardless of case if asked
+ */
+function staticChild(
+	compiled: CompiledRouteNode,
+	segment: string,
+	caseInsensitive: boolean
+): [string, CompiledRouteNode] | undefined {
+	const exact = compiled.static.get(segment)
+	if (exact) return [segment, exact]
+	if (!caseInsensitive) return undefined
+	const folded = segment.toLowerCase()
+	for (const entry of compiled.static) {
+		if (entry[0].toLowerCase() === folded) return entry
+	}
+	return undefined
+}
+
+/**
+ * Match decoded URL segments against a compiled matcher.
+ *
+ * Priority: static routes > dynamic routes (with a param matcher first) > route groups >
+ * catch-all routes
+ */
+export function matchCompiled(
+	matcher: CompiledRouteMatcher,
+	segments: string[],
+	method: string,
+	caseInsensitive = false
+): CompiledMatchResult | null {
+	function visit(
+		compiled: CompiledRouteNode,
+		index: number,
+		depth: number
+	): CompiledMatchResult | null {
+		// Deeper routes are reported by `diagnoseRouteTree` (`too-deep`)
+		if (depth > MAX_MATCH_DEPTH) return null
+
+		const remaining = index < segments.length
+		if (!remaining && accepts(compiled.node, method)) {
+			return { target: compiled, params: {}, segments: [] }
+		}
+
+		if (remaining) {
+			const segment = segments[index]
+
+			const found = staticChild(compiled, segment, caseInsensitive)
+			if (found) {
+				const result = visit(found[1], index + 1, depth + 1)
+				if (result) {
+					result.segments.unshift(found[0])
+					return result
+				}
+			}
+
+			for (const child of compiled.dynamic) {
+				const { paramMatcher } = child
+				if (paramMatcher && !paramMatcher.match(segment)) continue
+				const result = visit(child, index + 1, depth + 1)
+				if (result) {
+					if (child.node.paramName) {
+						result.params[child.node.paramName] = paramMatcher?.parse
+							? paramMatcher.parse(segment)
+							: segment
+					}
+					result.segments.unshift(segment)
+					return result
+				}
+			}
+		}
+
+		for (const child of compiled.groups) {
+			const result = visit(child, index, depth + 1)
+			if (result) return result
+		}
+
+		// Optional catch-alls also match when no segment is left (their parent path)
+		for (const child of compiled.catchAll) {
+			if ((remaining || child.node.isOptional) && accepts(child.node, method)) {
+				const rest = segments.slice(index)
+				return {
+					target: child,
+					params: remaining ? { [child.node.paramName!]: rest.join('/') } : {},
+					segments: rest,
+				}
+			}
+		}
+
+		return null
+	}
+
+	return visit(matcher.root, 0, 0)
+}
+
+/**
+ * Walk URL segments as deep as the trie allows, regardless of routes being
+ * defined there, to find the directory an unmatched path belongs to.
+ * Route groups are not entered.
+ */
+export function matchDeepest(matcher: CompiledRouteMatcher, segments: string[]): CompiledRouteNode {
+	let compiled = matcher.root
+	for (const segment of segments.slice(0, MAX_MATCH_DEPTH)) {
+		const next =
+			compiled.static.get(segment) ??
+			compiled.dynamic.find((child) => !child.paramMatcher || child.paramMatcher.match(segment))
+		if (!next) break
+		compiled = next
+	}
+	return compiled
+}
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+	clearParamMatchers,
+	defineParamMatcher,
+	getParamMatcher,
+	loadParamMatchers,
+} from './params.js'
+
+describe('param matchers', () => {
+	afterEach(() => {
+		clearParamMatchers()
+	})
+
+	it('should provide built-in int, uuid and slug matchers', () => {
+		const int = getParamMatcher('int')!
+		expect(int.match('42')).toBe(true)
+		expect(int.match('-7')).toBe(true)
+		expect(int.match('4.2')).toBe(false)
+		expect(int.match('99999999999999999999')).toBe(false)
+		expect(int.parse!('42')).toBe(42)
+
+		const uuid = getParamMatcher('uuid')!
+		expect(uuid.match('123e4567-e89b-12d3-a456-426614174000')).toBe(true)
+		expect(uuid.match('123e4567')).toBe(false)
+
+		const slug = getParamMatcher('slug')!
+		expect(slug.match('hello-world')).toBe(true)
+		expect(slug.match('Hello World')).toBe(false)
+	})
+
+	it('should register and reset user-defined matchers', () => {
+		defineParamMatcher('even', { match: (value) => Number(value) % 2 === 0 })
+		expect(getParamMatcher('even')?.match('4')).toBe(true)
+
+		clearParamMatchers()
+		expect(getParamMatcher('even')).toBeUndefined()
+		expect(getParamMatcher('int')).toBeDefined()
+	})
+
+	it('should load matchers from globbed modules, named after the file', async () => {
+		await loadParamMatchers('/params', vi.fn(), {
+			'/params/hex.ts': async () => ({ match: (value: string) => /^[0-9a-f]+$/.test(value) }),
+			'/params/lang.ts': async () => ({
+				default: { match: (value: string) => value === 'en', parse: () => 'en-US' },
+			}),
+			'/params/types.d.ts': async () => ({}),
+		})
+
+		expect(getParamMatcher('hex')?.match('beef')).toBe(true)
+		expect(getParamMatcher('lang')?.parse?.('en')).toBe('en-US')
+		expect(getParamMatcher('types')).toBeUndefined()
+	})
+
+	it('should report modules without a matcher or failing to load', async () => {
+		const issues = await loadParamMatchers('/params', vi.fn(), {
+			'/params/broken.ts': async () => ({ notAMatcher: true }),
+			'/params/throws.ts': async () => {
+				throw new Error('boom')
+			},
+		})
+
+		expect(getParamMatcher('broken')).toBeUndefined()
+		expect(issues).toEqual([
+			expect.objectContaining({ code: 'invalid-param-matcher', files: ['/params/broken.ts'] }),
+			expect.objectContaining({ code: 'load-failed', files: ['/params/throws.ts'] }),
+		])
+	})
+})
@@ -0,0 +1,135 @@
+/**
+ * Parameter matchers for pounce-board
+ *
+ * Dynamic segments may name a matcher, as in `[id=int]`: the segment only
+ * matches when the matcher accepts the value, and the value exposed in
+ * `params` is the one returned by the matcher's `parse`.
+ */
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { RouteDiagnostic } from './diagnostics.js'
+
+/**
+ * Named matcher restricting and coercing a dynamic segment value.
+ */
+export interface ParamMatcher<T = unknown> {
+	/** Whether the raw segment value is accepted */
+	match(value: string): boolean
+	/** Convert an accepted value; values are kept as strings when omitted */
+	parse?(value: string): T
+}
+
+/**
+ * Types produced by named matchers, used by `defineRoute` to infer params.
+ * Augment it to type user-defined matchers; unknown matchers infer `string`.
+ */
+export interface ParamMatcherTypes {
+	int: number
+	uuid: string
+	slug: string
+}
+
+const builtinMatchers: Record<string, ParamMatcher> = {
+	int: {
+		match: (value) => /^-?\d+$/.test(value) && Number.isSafeInteger(Number(value)),
+		parse: (value) => Number(value),
+	},
+	uuid: {
+		match: (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+	},
+	slug: {
+		match: (value) => /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value),
+	},
+}
+
+const registry = new Map<string, ParamMatcher>(Object.entries(builtinMatchers))
+
+/**
+ * Register a named matcher, replacing any matcher of the same name.
+ * Route trees compiled afterwards pick it up.
+ */
+export function defineParamMatcher<T>(name: string, matcher: ParamMatcher<T>): ParamMatcher<T> {
+	registry.set(name, matcher)
+	return matcher
+}
+
+/**
+ * Look up a registered matcher by name
+ */
+export function getParamMatcher(name: string): ParamMatcher | undefined {
+	return registry.get(name)
+}
+
+/**
+ * Reset the registry to the built-in matchers (for testing)
+ */
+export function clearParamMatchers(): void {
+	registry.clear()
+	for (const [name, matcher] of Object.entries(builtinMatchers)) registry.set(name, matcher)
+}
+
+/**
+ * Register the matcher exported by a module of the `params/` directory.
+ * Modules either default-export a `ParamMatcher` or export `match` (and `parse`).
+ * Returns whether the module exports one.
+ */
+function registerMatcherModule(name: string, mod: any): boolean {
+	const matcher = mod?.default ?? mod
+	if (typeof matcher?.match !== 'function') return false
+	defineParamMatcher(name, { match: matcher.match, parse: matcher.parse })
+	return true
+}
+
+/**
+ * Load user-defined matchers, one per file, named after the file (`params/hex.ts` -> `[id=hex]`).
+ * Uses the glob of matcher modules when given, the `paramsDir` directory otherwise.
+ * Returns the problems met, for the diagnostics of the route tree.
+ */
+export async function loadParamMatchers(
+	paramsDir: string,
+	importFn: (path: string) => Promise<any>,
+	globParams?: Record<string, () => Promise<any>>
+): Promise<Omit<RouteDiagnostic, 'path'>[]> {
+	const issues: Omit<RouteDiagnostic, 'path'>[] = []
+	const files: [string, () => Promise<any>][] = []
+
+	if (globParams) {
+		files.push(...Object.entries(globParams))
+	} else {
+		const entries = await fs.readdir(paramsDir, { withFileTypes: true }).catch(() => null)
+		if (!entries) return issues // No params directory
+		for (const entry of entries) {
+			if (!entry.isFile()) continue
+			const entryPath = path.join(paramsDir, entry.name)
+			files.push([entryPath, () => importFn(entryPath)])
+		}
+	}
+
+	for (const [filePath, loader] of files) {
+		const fileName = path.basename(filePath)
+		if (fileName.endsWith('.d.ts') || !/\.[cm]?[jt]s$/.test(fileName)) continue
+
+		let mod: unknown
+		try {
+			mod = await loader()
+		} catch (e) {
+			issues.push({
+				severity: 'error',
+				code: 'load-failed',
+				files: [filePath],
+				message: `Failed to load param matcher from ${filePath}`,
+				cause: e,
+			})
+			continue
+		}
+		if (!registerMatcherModule(fileName.replace(/\.[^.]+$/, ''), mod)) {
+			issues.push({
+				severity: 'warning',
+				code: 'invalid-param-matcher',
+				files: [filePath],
+				message: `${filePath} does not export a param matcher`,
+			})
+		}
+	}
+	return issues
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { canonicalPath, parsePath } from './path.js'
+
+describe('parsePath', () => {
+	it('should decode segments and keep the encoded path', () => {
+		expect(parsePath('/users/J%C3%BCrgen/')).toEqual({
+			path: '/users/J%C3%BCrgen',
+			raw: ['users', 'J%C3%BCrgen'],
+			segments: ['users', 'Jürgen'],
+			trailingSlash: true,
+		})
+		expect(parsePath('/')).toEqual({ path: '/', raw: [], segments: [], trailingSlash: false })
+	})
+
+	it('should drop empty segments and resolve dot segments', () => {
+		expect(parsePath('//a/./b/../c//')?.segments).toEqual(['a', 'c'])
+		expect(parsePath('/a/%2E%2E/b')?.segments).toEqual(['b'])
+		expect(parsePath('/../../a')?.segments).toEqual(['a'])
+	})
+
+	it('should reject paths that cannot be routed safely', () => {
+		expect(parsePath('/a%2Fb')).toBeUndefined()
+		expect(parsePath('/a%5Cb')).toBeUndefined()
+		expect(parsePath('/a%00')).toBeUndefined()
+		expect(parsePath('/%E0%A4%A')).toBeUndefined()
+	})
+})
+
+describe('canonicalPath', () => {
+	const parsed = parsePath('/Users/J%C3%BCrgen/')!
+
+	it('should apply the trailing slash policy', () => {
+		expect(canonicalPath(parsed, {})).toBe('/Users/J%C3%BCrgen/')
+		expect(canonicalPath(parsed, { trailingSlash: 'never' })).toBe('/Users/J%C3%BCrgen')
+		expect(canonicalPath(parsePath('/a')!, { trailingSlash: 'always' })).toBe('/a/')
+		expect(canonicalPath(parsePath('/')!, { trailingSlash: 'always' })).toBe('/')
+	})
+
+	it('should use the case of the matched segments', () => {
+		expect(canonicalPath(parsed, { trailingSlash: 'never' }, ['users', 'Jürgen'])).toBe(
+			'/users/J%C3%BCrgen'
+		)
+	})
+})
@@ -0,0 +1,89 @@
+/**
+ * URL path normalization and canonical path policy for pounce-board
+ *
+ * Request paths are split into decoded segments before matching, so that params
+ * and static segments compare on their decoded value. Paths that cannot be
+ * matched safely are rejected instead of being guessed at.
+ */
+
+/**
+ * Canonical form of request paths, enforced with 308 redirects on matched routes
+ */
+export interface PathPolicy {
+	/**
+	 * Redirect to the path with (`'always'`) or without (`'never'`) a trailing slash.
+	 * Default `'ignore'`: both forms match the route.
+	 */
+	trailingSlash?: 'always' | 'never' | 'ignore'
+	/** Match static segments regardless of case, redirecting to the case of the route files */
+	caseInsensitive?: boolean
+}
+
+/**
+ * Request path split for matching
+ */
+export interface ParsedPath {
+	/** Normalized path, percent-encoded as requested, without trailing slash */
+	path: string
+	/** Percent-encoded segments */
+	raw: string[]
+	/** Decoded segments */
+	segments: string[]
+	/** Whether the requested path ends with a slash (always false for the root) */
+	trailingSlash: boolean
+}
+
+/**
+ * Split a URL path into decoded segments. Empty segments (double slashes) are
+ * dropped and dot segments resolved, encoded ones included.
+ *
+ * Returns undefined for paths that cannot be routed safely: malformed percent
+ * encoding, or segments containing an encoded slash, backslash or NUL.
+ */
+export function parsePath(urlPath: string): ParsedPath | undefined {
+	const raw: string[] = []
+	const segments: string[] = []
+	for (const part of urlPath.split('/')) {
+		if (part === '') continue
+		let segment: string
+		try {
+			segment = decodeURIComponent(part)
+		} catch {
+			return undefined
+		}
+		if (/[/\\\0]/.test(segment)) return undefined
+		if (segment === '.') continue
+		if (segment === '..') {
+			raw.pop()
+			segments.pop()
+			continue
+		}
+		raw.push(part)
+		segments.push(segment)
+	}
+	return {
+		path: `/${raw.join('/')}`,
+		raw,
+		segments,
+		trailingSlash: raw.length > 0 && /\/\.{0,2}$/.test(urlPath),
+	}
+}
+
+/**
+ * Canonical path of a request under a policy: normalized, with the case of the
+ * matched route's static segments and the trailing slash the policy requires.
+ *
+ * @param matched Decoded segments of the matched route (see `RouteMatch.segments`)
+ */
+export function canonicalPath(parsed: ParsedPath, policy: PathPolicy, matched?: string[]): string {
+	const raw = parsed.raw.map((part, index) => {
+		const segment = matched?.[index]
+		return segment === undefined || segment === parsed.segments[index]
+			? part
+			: encodeURIComponent(segment)
+	})
+	if (raw.length === 0) return '/'
+	const trailingSlash =
+		policy.trailingSlash === 'always' || (policy.trailingSlash !== 'never' && parsed.trailingSlash)
+	return `/${raw.join('/')}${trailingSlash ? '/' : ''}`
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { parsePath } from './path.js'
+import {
+	matchRulePattern,
+	resolveRedirect,
+	resolveRewrite,
+	substituteParams,
+	validateRule,
+} from './redirects.js'
+
+const segments = (urlPath: string) => parsePath(urlPath)!.segments
+
+describe('matchRulePattern', () => {
+	it('should match static segments and params', () => {
+		expect(matchRulePattern('/blog/[slug]', segments('/blog/hello'))).toEqual({ slug: 'hello' })
+		expect(matchRulePattern('/blog/[slug]', segments('/blog'))).toBeUndefined()
+		expect(matchRulePattern('/blog/[slug]', segments('/blog/a/b'))).toBeUndefined()
+		expect(matchRulePattern('/blog', segments('/news'))).toBeUndefined()
+	})
+
+	it('should match the remaining segments with a catch-all', () => {
+		expect(matchRulePattern('/docs/[...path]', segments('/docs/a/b'))).toEqual({
+			path: ['a', 'b'],
+		})
+		expect(matchRulePattern('/docs/[...path]', segments('/docs'))).toBeUndefined()
+	})
+})
+
+describe('substituteParams', () => {
+	it('should encode substituted segments', () => {
+		expect(substituteParams('/posts/[slug]', { slug: 'a b' })).toBe('/posts/a%20b')
+		expect(substituteParams('/v2/[...path]', { path: ['a/b', 'c'] })).toBe('/v2/a%2Fb/c')
+	})
+})
+
+describe('validateRule', () => {
+	it('should report malformed rules', () => {
+		expect(validateRule({ source: '/a', destination: '/b' }, true)).toBeUndefined()
+		expect(validateRule({ source: 'a', destination: '/b' }, true)).toMatch(/source/)
+		expect(validateRule({ source: '/a', destination: '/b', status: 303 as any }, true)).toMatch(
+			/status/
+		)
+		expect(validateRule({ source: '/a', destination: 'https://example.com' }, false)).toMatch(
+			/rewrite destination/
+		)
+		expect(validateRule({ source: '/a', destination: '/b/[id]' }, true)).toMatch(/\[id\]/)
+	})
+})
+
+describe('resolveRedirect and resolveRewrite', () => {
+	it('should apply the first matching rule', () => {
+		const redirects = [
+			{ source: '/old/[id]', destination: '/new/[id]', status: 301 as const },
+			{ source: '/old/[...rest]', destination: 'https://example.com/[...rest]' },
+		]
+		expect(resolveRedirect(redirects, parsePath('/old/42')!)).toEqual({
+			location: '/new/42',
+			status: 301,
+		})
+		expect(resolveRedirect(redirects, parsePath('/old/a/b')!)).toEqual({
+			location: 'https://example.com/a/b',
+			status: 308,
+		})
+		expect(
+			resolveRewrite([{ source: '/me', destination: '/users/self' }], parsePath('/me/')!)
+		).toBe('/users/self')
+	})
+})
@@ -0,0 +1,155 @@
+/**
+ * Declarative redirects and rewrites for pounce-board
+ *
+ * `redirects.ts` at the root of the routes directory exports `redirects`
+ * (answered with a redirect status) and `rewrites` (served by another route,
+ * the URL being kept). Both are applied before route matching.
+ */
+import type { RouteTreeNode } from './index.js'
+import { type ParsedPath, parsePath } from './path.js'
+
+export type RedirectStatus = 301 | 302 | 307 | 308
+
+/**
+ * Redirect rule. `source` and `destination` use the segment syntax of route
+ * files: `[param]` matches one segment and `[...rest]` the remaining ones.
+ */
+export interface RedirectRule {
+	/** Path pattern, e.g. `/blog/[slug]` */
+	source: string
+	/** Path or absolute URL, params of `source` being substituted (e.g. `/posts/[slug]`) */
+	destination: string
+	/** Default: 308 (permanent, method preserved) */
+	status?: RedirectStatus
+}
+
+/**
+ * Rewrite rule: requests matching `source` are routed as `destination`
+ */
+export interface RewriteRule {
+	source: string
+	/** Path, params of `source` being substituted */
+	destination: string
+}
+
+/**
+ * Exports of `redirects.ts`
+ */
+export interface RedirectsModule {
+	redirects?: RedirectRule[]
+	rewrites?: RewriteRule[]
+}
+
+export const REDIRECT_STATUSES: RedirectStatus[] = [301, 302, 307, 308]
+
+const PARAM_PATTERN = /^\[(\.\.\.)?([^\]]+)\]$/
+
+/**
+ * Match a decoded path against a rule source. Returns its params (catch-alls as
+ * segment arrays), or undefined when the path does not match.
+ */
+export function matchRulePattern(
+	pattern: string,
+	segments: string[]
+): Record<string, string | string[]> | undefined {
+	const params: Record<string, string | string[]> = {}
+	const parts = pattern.split('/').filter((part) => part !== '')
+	for (const [index, part] of parts.entries()) {
+		const param = PARAM_PATTERN.exec(part)
+		if (param?.[1]) {
+			if (index >= segments.length || index !== parts.length - 1) return undefined
+			params[param[2]] = segments.slice(index)
+			return params
+		}
+		if (index >= segments.length) return undefined
+		if (param) params[param[2]] = segments[index]
+		else if (part !== segments[index]) return undefined
+	}
+	return parts.length === segments.length ? params : undefined
+}
+
+/**
+ * Substitute params into a rule destination, percent-encoding their segments
+ */
+export function substituteParams(
+	destination: string,
+	params: Record<string, string | string[]>
+): string {
+	return destination.replace(/\[(?:\.\.\.)?([^\]]+)\]/g, (token, name: string) => {
+		const value = params[name]
+		if (value === undefined) return token
+		return Array.isArray(value)
+			? value.map(encodeURIComponent).join('/')
+			: encodeURIComponent(value)
+	})
+}
+
+/**
+ * Problem of a rule that prevents applying it, if any
+ */
+export function validateRule(
+	rule: RedirectRule | RewriteRule,
+	redirect: boolean
+): string | undefined {
+	if (typeof rule?.source !== 'string' || !rule.source.startsWith('/')) {
+		return 'source must be a path starting with /'
+	}
+	if (typeof rule.destination !== 'string') return 'destination must be a string'
+	if (!redirect && !rule.destination.startsWith('/')) {
+		return 'rewrite destination must be a path starting with /'
+	}
+	const { status } = rule as RedirectRule
+	if (redirect && status !== undefined && !REDIRECT_STATUSES.includes(status)) {
+		return `status must be one of ${REDIRECT_STATUSES.join(', ')}`
+	}
+	const sourceParams = new Set<string>()
+	for (const part of rule.source.split('/')) {
+		const param = PARAM_PATTERN.exec(part)
+		if (param) sourceParams.add(param[2])
+	}
+	for (const [, name] of rule.destination.matchAll(/\[(?:\.\.\.)?([^\]]+)\]/g)) {
+		if (!sourceParams.has(name)) return `destination uses [${name}], which source does not define`
+	}
+	return undefined
+}
+
+/**
+ * First redirect rule matching a path, with its resolved location
+ */
+export function resolveRedirect(
+	rules: RedirectRule[] | undefined,
+	parsed: ParsedPath
+): { location: string; status: RedirectStatus } | undefined {
+	for (const rule of rules ?? []) {
+		const params = matchRulePattern(rule.source, parsed.segments)
+		if (params) {
+			return { location: substituteParams(rule.destination, params), status: rule.status ?? 308 }
+		}
+	}
+	return undefined
+}
+
+/**
+ * Path to route a request as: the destination of the first rewrite rule matching
+ * its path (rewrites are not chained), or undefined
+ */
+export function resolveRewrite(
+	rules: RewriteRule[] | undefined,
+	parsed: ParsedPath
+): string | undefined {
+	for (const rule of rules ?? []) {
+		const params = matchRulePattern(rule.source, parsed.segments)
+		if (params) return substituteParams(rule.destination, params)
+	}
+	return undefined
+}
+
+/**
+ * Path a request is routed as: the destination of its rewrite (without query
+ * string), or the path itself
+ */
+export function rewriteRoutePath(tree: RouteTreeNode, urlPath: string): string {
+	const parsed = tree.rewrites?.length ? parsePath(urlPath) : undefined
+	const rewritten = parsed && resolveRewrite(tree.rewrites, parsed)
+	return rewritten ? rewritten.split('?')[0] : urlPath
+}
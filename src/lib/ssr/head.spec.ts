@@ -0,0 +1,116 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { injectHead, mergeMeta, renderHeadTags, resolveMeta, updateHead } from './head.js'
+
+describe('head', () => {
+	describe('mergeMeta', () => {
+		it('should let deeper metadata override shallower one', () => {
+			const merged = mergeMeta(
+				{
+					title: 'Site',
+					description: 'A site',
+					openGraph: { site_name: 'Site', title: 'Site' },
+					tags: [{ name: 'robots', content: 'index' }],
+				},
+				{
+					title: 'Users',
+					openGraph: { title: 'Users' },
+					tags: [{ name: 'robots', content: 'noindex' }],
+				}
+			)
+
+			expect(merged).toEqual({
+				title: 'Users',
+				description: 'A site',
+				openGraph: { site_name: 'Site', title: 'Users' },
+				tags: [{ name: 'robots', content: 'noindex' }],
+			})
+		})
+	})
+
+	describe('resolveMeta', () => {
+		it('should call meta functions with the route params', async () => {
+			const meta = await resolveMeta(
+				[{ title: 'Site' }, async ({ params }) => ({ title: `User ${params.id}` })],
+				{ params: { id: 42 }, path: '/users/42' }
+			)
+			expect(meta).toEqual({ title: 'User 42' })
+		})
+
+		it('should skip meta functions that throw', async () => {
+			const onError = vi.fn()
+			const meta = await resolveMeta(
+				[
+					{ title: 'Site' },
+					() => {
+						throw new Error('fetch failed')
+					},
+				],
+				{ params: {}, path: '/' },
+				onError
+			)
+			expect(meta).toEqual({ title: 'Site' })
+			expect(onError).toHaveBeenCalledWith(
+				'[pounce-board] meta of / failed',
+				expect.objectContaining({ message: 'fetch failed' })
+			)
+		})
+	})
+
+	describe('renderHeadTags', () => {
+		it('should serialize and escape head tags', () => {
+			expect(
+				renderHeadTags({
+					title: 'Tom & Jerry',
+					description: 'Say "hi"',
+					canonical: 'https://example.com/',
+					openGraph: { image: '/cover.png' },
+				})
+			).toBe(
+				[
+					'<title>Tom &amp; Jerry</title>',
+					'<meta data-pounce-head name="description" content="Say &quot;hi&quot;">',
+					'<link data-pounce-head rel="canonical" href="https://example.com/">',
+					'<meta data-pounce-head property="og:image" content="/cover.png">',
+				].join('\n')
+			)
+		})
+	})
+
+	describe('injectHead', () => {
+		it('should replace the template title and insert tags before </head>', () => {
+			const html = '<html><head><title>App</title></head><body></body></html>'
+			expect(injectHead(html, { title: 'Users', description: 'All users' })).toBe(
+				'<html><head><title>Users</title><meta data-pounce-head name="description" content="All users">\n</head><body></body></html>'
+			)
+		})
+
+		it('should leave the document untouched without metadata', () => {
+			const html = '<html><head><title>App</title></head></html>'
+			expect(injectHead(html, {})).toBe(html)
+		})
+	})
+
+	describe('updateHead', () => {
+		afterEach(() => {
+			document.head.innerHTML = ''
+		})
+
+		it('should replace the tags of the previous page', () => {
+			document.head.innerHTML = injectHead('<title>App</title>', {
+				description: 'Home',
+				openGraph: { title: 'Home' },
+			})
+
+			updateHead({ title: 'Users', description: 'All users' })
+
+			expect(document.title).toBe('Users')
+			expect(document.head.querySelector('meta[property="og:title"]')).toBeNull()
+			expect(document.head.querySelector('meta[name="description"]')?.getAttribute('content')).toBe(
+				'All users'
+			)
+		})
+	})
+})
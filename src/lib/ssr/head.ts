@@ -0,0 +1,169 @@
+/**
+ * Head tag management for pounce-board
+ *
+ * Pages (`index.tsx`, named `.tsx` files) and layouts (`common.tsx`) may export
+ * a `meta` object, or a function computing it from the route params. The
+ * exports of a route are merged from root to leaf, serialized into the
+ * `<head>` during SSR and applied to `document` after client-side navigation.
+ */
+
+/**
+ * Extra `<meta>` tag, identified by its `name` or `property`.
+ */
+export interface MetaTag {
+	name?: string
+	property?: string
+	content: string
+}
+
+/**
+ * Head metadata of a page.
+ */
+export interface RouteMeta {
+	/** Document `<title>` */
+	title?: string
+	/** `<meta name="description">` */
+	description?: string
+	/** URL of `<link rel="canonical">` */
+	canonical?: string
+	/** Open Graph properties without the `og:` prefix (e.g. `{ image: '/cover.png' }`) */
+	openGraph?: Record<string, string>
+	/** Other `<meta>` tags */
+	tags?: MetaTag[]
+}
+
+/**
+ * Arguments of `meta` functions.
+ */
+export interface MetaContext {
+	params: Record<string, any>
+	/** Matched URL path */
+	path: string
+}
+
+/**
+ * `meta` export of a page or layout module. Functions run in the request context
+ * during SSR, so that data fetched there with `api()` is hydrated on the client.
+ */
+export type RouteMetaExport = RouteMeta | ((context: MetaContext) => RouteMeta | Promise<RouteMeta>)
+
+/** Marks the tags managed by pounce-board, so that navigation can replace them */
+const HEAD_ATTRIBUTE = 'data-pounce-head'
+
+/**
+ * Merge metadata from root to leaf: deeper values override shallower ones,
+ * Open Graph properties and tags being merged by key.
+ */
+export function mergeMeta(...metas: RouteMeta[]): RouteMeta {
+	const merged: RouteMeta = {}
+	const tags = new Map<string, MetaTag>()
+	for (const meta of metas) {
+		if (meta.title !== undefined) merged.title = meta.title
+		if (meta.description !== undefined) merged.description = meta.description
+		if (meta.canonical !== undefined) merged.canonical = meta.canonical
+		if (meta.openGraph) merged.openGraph = { ...merged.openGraph, ...meta.openGraph }
+		for (const tag of meta.tags ?? []) tags.set(tagKey(tag), tag)
+	}
+	if (tags.size > 0) merged.tags = [...tags.values()]
+	return merged
+}
+
+function tagKey(tag: MetaTag): string {
+	return tag.property ? `property:${tag.property}` : `name:${tag.name}`
+}
+
+/**
+ * Evaluate the `meta` exports of a route (root to leaf) and merge them.
+ * A `meta` function that throws is reported to `onError` and skipped, so that a
+ * failed fetch does not prevent the page from rendering.
+ */
+export async function resolveMeta(
+	exports: RouteMetaExport[],
+	context: MetaContext,
+	onError?: (message: string, error?: unknown) => void
+): Promise<RouteMeta> {
+	const metas: RouteMeta[] = []
+	for (const meta of exports) {
+		try {
+			metas.push(typeof meta === 'function' ? await meta(context) : meta)
+		} catch (error) {
+			onError?.(`[pounce-board] meta of ${context.path} failed`, error)
+		}
+	}
+	return mergeMeta(...metas)
+}
+
+/**
+ * `<meta>` and `<link>` tags described by metadata, the title excepted
+ */
+function headTags(meta: RouteMeta): { tag: string; attributes: Record<string, string> }[] {
+	const tags: { tag: string; attributes: Record<string, string> }[] = []
+	if (meta.description !== undefined) {
+		tags.push({ tag: 'meta', attributes: { name: 'description', content: meta.description } })
+	}
+	if (meta.canonical !== undefined) {
+		tags.push({ tag: 'link', attributes: { rel: 'canonical', href: meta.canonical } })
+	}
+	for (const [property, content] of Object.entries(meta.openGraph ?? {})) {
+		tags.push({ tag: 'meta', attributes: { property: `og:${property}`, content } })
+	}
+	for (const { name, property, content } of meta.tags ?? []) {
+		const key: Record<string, string> = property ? { property } : { name: name ?? '' }
+		tags.push({ tag: 'meta', attributes: { ...key, content } })
+	}
+	return tags
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+/**
+ * Serialize metadata as HTML head tags
+ */
+export function renderHeadTags(meta: RouteMeta): string {
+	const tags = headTags(meta).map(({ tag, attributes }) => {
+		const serialized = Object.entries(attributes)
+			.map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+			.join('')
+		return `<${tag} ${HEAD_ATTRIBUTE}${serialized}>`
+	})
+	if (meta.title !== undefined) tags.unshift(`<title>${escapeHtml(meta.title)}</title>`)
+	return tags.join('\n')
+}
+
+/**
+ * Inject head tags into an HTML document, replacing the `<title>` of the template
+ */
+export function injectHead(html: string, meta: RouteMeta): string {
+	let result = html
+	let rest = meta
+	if (meta.title !== undefined && /<title>[\s\S]*?<\/title>/.test(result)) {
+		result = result.replace(/<title>[\s\S]*?<\/title>/, () => renderHeadTags({ title: meta.title }))
+		rest = { ...meta, title: undefined }
+	}
+	const tags = renderHeadTags(rest)
+	if (!tags) return result
+	if (result.includes('</head>')) return result.replace('</head>', () => `${tags}\n</head>`)
+	return tags + result
+}
+
+/**
+ * Apply metadata to the current document (client-side, after navigation).
+ * Replaces the tags rendered by SSR or by a previous call.
+ */
+export function updateHead(meta: RouteMeta): void {
+	if (typeof document === 'undefined') return
+	if (meta.title !== undefined) document.title = meta.title
+	for (const element of document.head.querySelectorAll(`[${HEAD_ATTRIBUTE}]`)) element.remove()
+	for (const { tag, attributes } of headTags(meta)) {
+		const element = document.createElement(tag)
+		element.setAttribute(HEAD_ATTRIBUTE, '')
+		for (const [name, value] of Object.entries(attributes)) element.setAttribute(name, value)
+		document.head.appendChild(element)
+	}
+}
@@ -13,3 +13,15 @@ export {
 	escapeJson,
 	type SSRDataMap,
 } from './utils.js'
+export { renderPage, type PageRenderer, type RenderedPage } from './render.js'
+export {
+	injectHead,
+	mergeMeta,
+	renderHeadTags,
+	resolveMeta,
+	updateHead,
+	type MetaContext,
+	type MetaTag,
+	type RouteMeta,
+	type RouteMetaExport,
+} from './head.js'
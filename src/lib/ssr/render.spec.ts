@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createScope, runWithContext } from '../http/context.js'
+import type { RouteMatch } from '../router/index.js'
+import { type PageRenderer, renderPage } from './render.js'
+
+// Components render to strings; children are rendered inside their parent
+const renderer: PageRenderer = {
+	h:
+		(component, props, ...children) =>
+		() =>
+			component({ ...props, children: children[0] }),
+	withSSR: (fn) => fn(),
+	renderToStringAsync: async (app) => app(),
+}
+
+const Layout = ({ children }: any) => `<main>${children()}</main>`
+const ErrorPage = ({ error }: any) => `error: ${error.message}`
+const NotFound = () => 'not found'
+
+function match(component: any, extra: Partial<RouteMatch> = {}): RouteMatch {
+	return {
+		component,
+		middlewareStack: [],
+		layouts: [Layout],
+		params: { id: '42' },
+		path: '/users/42',
+		...extra,
+	}
+}
+
+describe('renderPage', () => {
+	it('should render the page inside its layouts', async () => {
+		const page = await renderPage(
+			renderer,
+			match(({ params }: any) => `user ${params.id}`)
+		)
+		expect(page).toEqual({ html: '<main>user 42</main>', status: 200, meta: {} })
+	})
+
+	it('should render the error boundary with the error when the page throws', async () => {
+		const onError = vi.fn()
+		const Broken = () => {
+			throw new Error('boom')
+		}
+
+		const page = await renderPage(
+			{ ...renderer, onError },
+			match(Broken, { errorBoundary: { component: ErrorPage, layouts: [Layout] } })
+		)
+		expect(page).toEqual({ html: '<main>error: boom</main>', status: 500, meta: {} })
+		expect(onError).toHaveBeenCalledWith(
+			'[pounce-board] Rendering /users/42 failed',
+			expect.objectContaining({ message: 'boom' })
+		)
+	})
+
+	it('should take the status of HTTP errors', async () => {
+		const Forbidden = () => {
+			throw Object.assign(new Error('Forbidden'), { status: 403 })
+		}
+
+		const page = await renderPage(
+			renderer,
+			match(Forbidden, { errorBoundary: { component: ErrorPage, layouts: [] } })
+		)
+		expect(page?.status).toBe(403)
+	})
+
+	it('should rethrow without error boundary', async () => {
+		const Broken = () => {
+			throw new Error('boom')
+		}
+		await expect(renderPage(renderer, match(Broken))).rejects.toThrow('boom')
+	})
+
+	it('should render the not-found boundary of unmatched paths with a 404', async () => {
+		const page = await renderPage(renderer, null, { component: NotFound, layouts: [Layout] })
+		expect(page).toEqual({ html: '<main>not found</main>', status: 404, meta: {} })
+	})
+
+	it('should resolve the meta exports of the route', async () => {
+		const page = await renderPage(
+			renderer,
+			match(() => 'user', {
+				meta: [
+					{ title: 'Users', description: 'All users' },
+					({ params }) => ({ title: `User ${params.id}` }),
+				],
+			})
+		)
+		expect(page?.meta).toEqual({ title: 'User 42', description: 'All users' })
+	})
+
+	it('should leave pages configured with ssr: false to the client', async () => {
+		const Page = vi.fn(() => 'page')
+		const page = await renderPage(
+			renderer,
+			match(Page, { config: { ssr: false }, meta: [{ title: 'Client' }] })
+		)
+		expect(page).toEqual({ html: '', status: 200, meta: { title: 'Client' } })
+		expect(Page).not.toHaveBeenCalled()
+	})
+
+	it('should render nothing without page nor boundary', async () => {
+		expect(await renderPage(renderer, null)).toBeNull()
+		expect(await renderPage(renderer, match(undefined))).toBeNull()
+	})
+
+	it('should pass the locale of the request to pages and layouts', async () => {
+		const scope = createScope()
+		scope.locale = {
+			locale: 'fr',
+			locales: ['en', 'fr'],
+			defaultLocale: 'en',
+			prefixDefaultLocale: false,
+		}
+		const LocaleLayout = ({ locale, children }: any) =>
+			`<main lang="${locale}">${children()}</main>`
+		const page = await runWithContext(scope, () =>
+			renderPage(
+				renderer,
+				match(({ locale }: any) => `locale ${locale}`, { layouts: [LocaleLayout] })
+			)
+		)
+		expect(page?.html).toBe('<main lang="fr">locale fr</main>')
+	})
+})
@@ -0,0 +1,123 @@
+/**
+ * Page rendering for the SSR pipeline
+ *
+ * Shared by `pounce dev` and the production server entry: renders the matched
+ * page inside its layouts, falls back to the nearest `error.tsx` when that
+ * throws, and renders the nearest `not-found.tsx` for unmatched paths.
+ * The `meta` exports of the route are resolved along with the page.
+ */
+import { getContext } from '../http/context.js'
+import type { RouteBoundary, RouteMatch } from '../router/index.js'
+import { type RouteMeta, resolveMeta } from './head.js'
+
+/**
+ * Rendering primitives of the UI framework, passed in so that callers can
+ * provide the instances their components were loaded with (e.g. through Vite).
+ */
+export interface PageRenderer {
+	h: (component: any, props: Record<string, unknown>, ...children: any[]) => any
+	withSSR: <T>(fn: () => Promise<T>) => Promise<T>
+	renderToStringAsync: (app: any, container?: any, options?: any) => Promise<string>
+	/** Settles the API calls pending in the current SSR context */
+	collectPromises?: () => Promise<unknown>
+	/**
+	 * Reports the problems met while rendering, e.g. the error an error boundary
+	 * renders. They are not reported when omitted.
+	 */
+	onError?: (message: string, error?: unknown) => void
+}
+
+/**
+ * Rendered HTML with the status code the response should carry.
+ */
+export interface RenderedPage {
+	html: string
+	status: number
+	/** Head metadata of the route (see `injectHead`) */
+	meta: RouteMeta
+}
+
+/**
+ * Status of the response rendered by an error boundary: that of the thrown
+ * error (e.g. an `ApiError`) when it is an HTTP error status, 500 otherwise.
+ */
+function errorStatus(error: unknown): number {
+	const status = (error as { status?: unknown } | null)?.status
+	return typeof status === 'number' && status >= 400 && status < 600 ? status : 500
+}
+
+async function renderInLayouts(
+	renderer: PageRenderer,
+	component: any,
+	layouts: any[],
+	props: Record<string, unknown>
+): Promise<string> {
+	const { h, withSSR, renderToStringAsync, collectPromises } = renderer
+	return withSSR(async () => {
+		// Pages and layouts receive the params of the request host and its locale, with
+		// the `hosts` and `i18n` options
+		const context = getContext()
+		const locale = context?.locale?.locale
+		const params = context?.hostParams
+			? { ...context.hostParams, ...(props.params as object) }
+			: props.params
+		const shared = locale ? { params, locale } : { params }
+		let app = h(component, { ...props, ...shared })
+		for (let i = layouts.length - 1; i >= 0; i--) {
+			app = h(layouts[i], shared, app)
+		}
+		return renderToStringAsync(app, undefined, { collectPromises })
+	})
+}
+
+/**
+ * Render the page of a route match, or the not-found boundary of an unmatched path.
+ * Returns null when there is nothing to render (no page component nor boundary).
+ * Pages configured with `ssr: false` render empty, for the client to render them.
+ *
+ * A render that throws is rendered again with the nearest error boundary, which
+ * receives the error as `error` prop; without boundary, the error is rethrown.
+ */
+export async function renderPage(
+	renderer: PageRenderer,
+	match: RouteMatch | null,
+	notFound?: RouteBoundary | null
+): Promise<RenderedPage | null> {
+	if (match?.component) {
+		if (typeof match.component !== 'function') {
+			renderer.onError?.(
+				`[pounce-board] Skipping SSR for ${match.path}: default export is ${typeof match.component}, not a function.`
+			)
+			return null
+		}
+
+		const meta = () =>
+			resolveMeta(match.meta ?? [], { params: match.params, path: match.path }, renderer.onError)
+		// Client-rendered page: only its head tags are rendered
+		if (match.config?.ssr === false) return { html: '', status: 200, meta: await meta() }
+		try {
+			const html = await renderInLayouts(renderer, match.component, match.layouts ?? [], {
+				params: match.params,
+			})
+			return { html, status: 200, meta: await meta() }
+		} catch (error) {
+			const boundary = match.errorBoundary
+			if (!boundary) throw error
+			renderer.onError?.(`[pounce-board] Rendering ${match.path} failed`, error)
+			const html = await renderInLayouts(renderer, boundary.component, boundary.layouts, {
+				params: match.params,
+				error,
+			})
+			return { html, status: errorStatus(error), meta: await meta() }
+		}
+	}
+
+	if (!match && notFound) {
+		const html = await renderInLayouts(renderer, notFound.component, notFound.layouts, {
+			params: {},
+		})
+		return { html, status: 404, meta: {} }
+	}
+
+	return null
+}
@@ -19,6 +19,12 @@ export async function withSSRContext<T>(
 	const scope = createScope(existing?.config)
 	scope.origin = origin || existing?.origin
 	scope.routeRegistry = existing?.routeRegistry
+	scope.locale = existing?.locale
+	scope.routePath = existing?.routePath
+	scope.hostParams = existing?.hostParams
+	scope.cookies = existing?.cookies
+	scope.session = existing?.session
+	scope.csrf = existing?.csrf
 	// We do NOT inherit responses by default to maintain isolation as per tests
 	
 	return runWithContext(scope, async () => {
@@ -15,7 +15,17 @@ describe('Type Inference', () => {
 
   it('should handle catch-all params', () => {
     type Params = ExtractPathParams<'/files/[...path]'>;
-    expectTypeOf<Params>().toEqualTypeOf<{ path: string[] }>();
+    expectTypeOf<Params>().toEqualTypeOf<{ path: string }>();
+  });
+
+  it('should handle optional catch-all params', () => {
+    type Params = ExtractPathParams<'/docs/[[...slug]]'>;
+    expectTypeOf<Params>().toEqualTypeOf<{ slug?: string }>();
+  });
+
+  it('should key param matcher segments by their param name', () => {
+    type Params = ExtractPathParams<'/users/[id=int]/posts/[slug=slug]'>;
+    expectTypeOf<Params>().toMatchTypeOf<{ id: number; slug: string }>();
   });
 
   it('should return empty object for static paths', () => {
@@ -1,13 +1,22 @@
+import type { ParamMatcherTypes } from '../router/params.js'
 
+// Catch-all params are the joined rest of the path (`guide/intro`), like at runtime
 export type ExtractPathParams<T extends string> =
-  T extends `${string}[...${infer Param}]`
-    ? { [K in Param]: string[] } & ExtractPathParams<
+  T extends `${infer Prefix}[[...${infer Param}]]${infer Rest}`
+    ? { [K in Param]?: string } & ExtractPathParams<Prefix> & ExtractPathParams<Rest>
+    : T extends `${string}[...${infer Param}]`
+    ? { [K in Param]: string } & ExtractPathParams<
         T extends `${infer Prefix}[...${Param}]` ? Prefix : never
       >
     : T extends `${string}[${infer Param}]${infer Rest}`
-    ? { [K in Param]: string } & ExtractPathParams<Rest>
+    ? SegmentParam<Param> & ExtractPathParams<Rest>
     : {};
 
+// `[id=int]` is keyed by `id`, typed by its matcher
+type SegmentParam<Param extends string> = Param extends `${infer Name}=${infer Matcher}`
+  ? { [K in Name]: Matcher extends keyof ParamMatcherTypes ? ParamMatcherTypes[Matcher] : string }
+  : { [K in Param]: string };
+
 export type InferHandlerOutput<T> = T extends (
   ...args: any[]
 ) => Promise<infer R>
@@ -15,3 +24,13 @@ export type InferHandlerOutput<T> = T extends (
     ? D
     : never
   : never;
+
+type HandlerContext<T> = T extends (context: infer C, ...args: any[]) => any ? C : never;
+
+/** Query of a handler, as declared by the `query` of its context parameter */
+export type InferHandlerQuery<T> = HandlerContext<T> extends { query: infer Q }
+  ? Q
+  : Record<string, string>;
+
+/** Body of a handler, as declared by the `body` of its context parameter */
+export type InferHandlerBody<T> = HandlerContext<T> extends { body: infer B } ? B : unknown;
@@ -0,0 +1,142 @@
+/**
+ * Route manifest types for pounce-board
+ *
+ * `pounce dev` and `pounce build` generate a `.d.ts` file augmenting `RouteManifest`
+ * with the routes of the tree (see `generateRouteManifest`). `api()` looks the
+ * paths it is called with up in it: responses and bodies are typed after the
+ * handlers, and paths no route answers are rejected.
+ */
+import type { Cookies } from '../http/cookies.js'
+import type { BaseRequestContext, ContextAdditions, HttpMethod } from '../http/core.js'
+import type { InferHandlerBody, InferHandlerOutput, InferHandlerQuery } from './inference.js'
+
+/**
+ * Routes by URL pattern, empty until augmented by the generated manifest:
+ * `api()` accepts any path and infers nothing while it is empty.
+ */
+export interface RouteManifest {}
+
+/**
+ * Methods of `api()` instances
+ */
+export type ClientMethod = 'get' | 'post' | 'put' | 'del' | 'patch'
+
+/**
+ * Types of a route method
+ */
+export interface RouteMethodTypes {
+	query: unknown
+	body: unknown
+	output: unknown
+}
+
+/**
+ * Route of the manifest
+ */
+export interface ManifestRoute {
+	/** URLs of the route as a template literal type, e.g. `/users/${number}` */
+	url: string
+	params: object
+	methods: Partial<Record<ClientMethod, RouteMethodTypes>>
+	/** Modules of the `common.ts` files whose middleware apply, root first */
+	middleware?: readonly unknown[]
+}
+
+// Handler exports of each client method (`del` answers DELETE, as does `delete`)
+type MethodExports = {
+	get: 'get'
+	post: 'post'
+	put: 'put'
+	del: 'del' | 'delete'
+	patch: 'patch'
+}
+
+/**
+ * Types of the handler a route module exports for a method
+ */
+export type InferRouteMethod<Module, Method extends ClientMethod> = HandlerTypes<
+	Module[Extract<keyof Module, MethodExports[Method]>]
+>
+
+type HandlerTypes<Handler> = {
+	query: InferHandlerQuery<Handler>
+	body: InferHandlerBody<Handler>
+	output: InferHandlerOutput<Handler>
+}
+
+type UrlOf<Route> = Route extends { url: infer Url extends string } ? Url : never
+
+// Routes whose URLs include the path, query string allowed
+type MatchingKeys<Path extends string, Manifest> = {
+	[K in keyof Manifest]: Path extends UrlOf<Manifest[K]> | `${UrlOf<Manifest[K]>}?${string}`
+		? K
+		: never
+}[keyof Manifest]
+
+// Routes whose URL is exactly the path, preferred as the matcher tries static segments first
+type ExactKeys<Path extends string, Manifest> = {
+	[K in keyof Manifest]: [UrlOf<Manifest[K]>] extends [Path] ? K : never
+}[keyof Manifest]
+
+/**
+ * Route of the manifest answering a path (never when none does)
+ */
+export type RouteOfPath<Path extends string, Manifest = RouteManifest> = Manifest[[
+	ExactKeys<Path, Manifest>,
+] extends [never]
+	? MatchingKeys<Path, Manifest>
+	: ExactKeys<Path, Manifest>]
+
+/**
+ * URLs of the routes of the manifest
+ */
+export type RouteUrl<Manifest = RouteManifest> = UrlOf<Manifest[keyof Manifest]>
+
+/**
+ * The path itself when a route answers it, or the URLs of the manifest otherwise.
+ * Only site-absolute literal paths are checked, and only once the manifest has routes.
+ */
+export type CheckedPath<Path extends string, Manifest = RouteManifest> = [keyof Manifest] extends [
+	never,
+]
+	? Path
+	: Path extends `/${string}`
+		? [MatchingKeys<Path, Manifest>] extends [never]
+			? RouteUrl<Manifest>
+			: Path
+		: Path
+
+/**
+ * Type of a route method, `unknown` for unknown routes and methods
+ */
+export type RouteMethodType<
+	Route,
+	Method extends ClientMethod,
+	Key extends keyof RouteMethodTypes,
+> = [Route] extends [never]
+	? unknown
+	: Route extends { methods: { [M in Method]: infer Types } }
+		? Types extends RouteMethodTypes
+			? Types[Key]
+			: unknown
+		: unknown
+
+type ParamsOf<Route> = Route extends { params: infer Params } ? Params : {}
+
+type MiddlewareOf<Route> = Route extends { middleware: infer Modules extends readonly unknown[] }
+	? Modules
+	: []
+
+/**
+ * Context of the handlers of a route of the manifest: the params of its pattern and
+ * the fields its `common.ts` middleware add for the method (see `defineMiddleware`).
+ * Unlike on `RequestContext`, fields no middleware adds are type errors.
+ */
+export type RouteContext<
+	Pattern extends keyof Manifest,
+	Method extends HttpMethod = 'GET',
+	Manifest = RouteManifest,
+> = Omit<BaseRequestContext, 'params' | 'cookies'> & {
+	params: ParamsOf<Manifest[Pattern]>
+	cookies: Cookies
+} & ContextAdditions<MiddlewareOf<Manifest[Pattern]>, Method>
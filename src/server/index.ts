@@ -5,16 +5,107 @@
 
 // Router
 export {
+	globRoutesIn,
+	matchHostPattern,
+	resolveHost,
+	type HostMatch,
+	type HostRoutes,
+} from '../lib/router/hosts.js'
+export {
+	explainMatch,
+	listRoutes,
+	type MatchCandidate,
+	type MatchExplanation,
+	type MatchStep,
+	type RouteEntry,
+} from '../lib/router/listing.js'
+export { generateRouteManifest, routeUrlType, writeRouteManifest } from '../lib/router/manifest.js'
+export {
+	addRoute,
 	buildRouteTree,
 	matchRoute,
+	loadRoute,
+	loadNotFound,
+	scanRouteExports,
+	getAllowedMethods,
 	collectMiddleware,
 	parseSegment,
+	compileRouteTree,
+	invalidateRouteMatcher,
+	updateRouteTree,
+	defineParamMatcher,
+	getParamMatcher,
+	clearParamMatchers,
+	getRouteDiagnostics,
+	formatRouteDiagnostics,
+	RouteBuildError,
+	parsePath,
+	canonicalPath,
+	resolveRedirect,
+	resolveRewrite,
+	rewriteRoutePath,
+	type BuildRouteTreeOptions,
+	type RouteMount,
+	type VirtualRoute,
+	type RouteDiagnostic,
+	type RouteExportsManifest,
+	type RouteFileEvent,
+	type CompiledRouteMatcher,
+	type ParamMatcher,
+	type ParamMatcherTypes,
 	type RouteMatch,
+	type RouteBoundary,
 	type RouteTreeNode,
 	type RouteParams,
+	type MatchRouteOptions,
+	type ParsedPath,
+	type PathPolicy,
+	type RedirectRule,
+	type RedirectStatus,
+	type RedirectsModule,
+	type RewriteRule,
 } from '../lib/router/index.js'
 
-export { defineRoute, type RouteDefinition } from '../lib/router/defs.js'
+export {
+	defineRoute,
+	type BuildUrlOptions,
+	type PathParams,
+	type RouteDefinition,
+} from '../lib/router/defs.js'
+
+// Route manifest (generated by `pounce dev` and `pounce build`)
+export type {
+	CheckedPath,
+	ClientMethod,
+	InferRouteMethod,
+	ManifestRoute,
+	RouteManifest,
+	RouteMethodTypes,
+	RouteContext,
+	RouteOfPath,
+	RouteUrl,
+} from '../lib/types/manifest.js'
+export type {
+	InferHandlerBody,
+	InferHandlerOutput,
+	InferHandlerQuery,
+} from '../lib/types/inference.js'
+
+// Locales
+export {
+	detectLocale,
+	getLocale,
+	getLocaleState,
+	getMessages,
+	localeCookie,
+	localizePath,
+	negotiateLocale,
+	splitLocalePath,
+	LOCALE_DATA_ID,
+	type I18nOptions,
+	type LocaleState,
+	type Messages,
+} from '../lib/i18n/locale.js'
 
 // HTTP core
 export {
@@ -25,12 +116,76 @@ export {
 	compressResponse,
 	ApiError,
 	type Middleware,
+	type MiddlewareExport,
+	type MethodMiddleware,
+	defineMiddleware,
+	withPageMiddleware,
+	runPageMiddlewares,
+	type PageMiddleware,
+	type TypedMiddleware,
+	type MiddlewareContext,
+	type MiddlewareAdditions,
+	type ContextAdditions,
+	toResponse,
 	type RouteHandler,
 	type RequestContext,
+	type BaseRequestContext,
+	type RouteConfig,
 	type RouteResponse,
+	type RouteResult,
+	type JsonRouteResponse,
+	type TextRouteResponse,
+	type BodyRouteResponse,
 	type HttpMethod,
 } from '../lib/http/core.js'
 
+// Cookies
+export {
+	createCookies,
+	cookieHeaders,
+	parseCookies,
+	serializeCookie,
+	sealValue,
+	openValue,
+	type Cookies,
+	type CookieConfig,
+	type CookieOptions,
+	type CookieReadOptions,
+} from '../lib/http/cookies.js'
+
+// Sessions
+export {
+	sessionMiddleware,
+	getSession,
+	memorySessionStore,
+	cookieSessionStore,
+	type Session,
+	type SessionData,
+	type SessionOptions,
+	type SessionRecord,
+	type SessionStore,
+	type CookieSessionStoreOptions,
+} from '../lib/http/session.js'
+export { fileSessionStore } from '../lib/http/file-session-store.js'
+
+// CSRF protection
+export {
+	csrfMiddleware,
+	getCsrfToken,
+	type CsrfOptions,
+	type CsrfState,
+} from '../lib/http/csrf.js'
+
+// Request validation
+export {
+	validateRequest,
+	withValidation,
+	type RequestSchemas,
+	type SchemasExport,
+	type ValidatedContext,
+	type ValidationIssue,
+} from '../lib/http/validation.js'
+
 // HTTP client (works on server too for SSR dispatch)
 export {
 	api,
@@ -54,6 +209,17 @@ export {
 	getSSRId,
 	type SSRDataMap,
 } from '../lib/ssr/utils.js'
+export { renderPage, type PageRenderer, type RenderedPage } from '../lib/ssr/render.js'
+export {
+	injectHead,
+	mergeMeta,
+	renderHeadTags,
+	resolveMeta,
+	type MetaContext,
+	type MetaTag,
+	type RouteMeta,
+	type RouteMetaExport,
+} from '../lib/ssr/head.js'
 
 // Context
 export {
@@ -69,4 +235,12 @@ export {
 export { defineProxy, type ProxyConfig, type ProxyEndpointConfig } from '../lib/http/proxy.js'
 
 // Adapters
-export { createPounceApp, createPounceMiddleware, clearRouteTreeCache } from '../adapters/hono.js'
+export {
+	createPounceApp,
+	createPounceMiddleware,
+	clearRouteTreeCache,
+	getRouteTree,
+	updateRouteTreeCache,
+	type PounceMiddlewareOptions,
+	type PreflightHook,
+} from '../adapters/hono.js'
@@ -1,5 +1,5 @@
 /**
- * API middleware - runs after root, before api handlers
+ * API middleware - runs after root, before api handlers (except the public health check)
  */
 import type { Middleware, RequestContext } from 'pounce-board/server'
 
@@ -13,3 +13,5 @@ export const middleware: Middleware[] = [
 		return next()
 	},
 ]
+
+export const exclude = ['health']
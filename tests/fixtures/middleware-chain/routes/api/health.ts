@@ -0,0 +1,14 @@
+/**
+ * Health check handler - excluded from api middleware, only root middleware applies
+ */
+import type { RequestContext } from 'pounce-board/server'
+
+export async function get(ctx: RequestContext) {
+	return {
+		status: 200,
+		data: {
+			route: '/api/health',
+			executionOrder: ctx.executionOrder,
+		},
+	}
+}
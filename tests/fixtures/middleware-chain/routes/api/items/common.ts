@@ -0,0 +1,16 @@
+/**
+ * Items middleware - per method: `items` for every method, `items-write` for POST
+ */
+import type { MiddlewareExport, RequestContext } from 'pounce-board/server'
+
+const track = (name: string) => async (ctx: RequestContext, next: () => Promise<Response>) => {
+	const order = (ctx.executionOrder as string[]) || []
+	order.push(name)
+	ctx.executionOrder = order
+	return next()
+}
+
+export const middleware: MiddlewareExport = {
+	'*': [track('items')],
+	POST: [track('items-write')],
+}
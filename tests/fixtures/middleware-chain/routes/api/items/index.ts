@@ -0,0 +1,21 @@
+/**
+ * Items handlers - inherited middleware, then route-local middleware
+ */
+import type { Middleware, RequestContext } from 'pounce-board/server'
+
+export const middleware: Middleware[] = [
+	async (ctx: RequestContext, next: () => Promise<Response>) => {
+		const order = (ctx.executionOrder as string[]) || []
+		order.push('items-local')
+		ctx.executionOrder = order
+		return next()
+	},
+]
+
+export async function get(ctx: RequestContext) {
+	return { status: 200, data: { route: '/api/items', executionOrder: ctx.executionOrder } }
+}
+
+export async function post(ctx: RequestContext) {
+	return { status: 201, data: { route: '/api/items', executionOrder: ctx.executionOrder } }
+}
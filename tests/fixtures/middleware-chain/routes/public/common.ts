@@ -0,0 +1,13 @@
+/**
+ * Public middleware - resets inheritance, root middleware does not apply
+ */
+import type { Middleware, RequestContext } from 'pounce-board/server'
+
+export const reset = true
+
+export const middleware: Middleware[] = [
+	async (ctx: RequestContext, next: () => Promise<Response>) => {
+		ctx.executionOrder = ['public']
+		return next()
+	},
+]
@@ -0,0 +1,15 @@
+/**
+ * Public handler - only public middleware applies
+ */
+import type { RequestContext } from 'pounce-board/server'
+
+export async function get(ctx: RequestContext) {
+	return {
+		status: 200,
+		data: {
+			route: '/public',
+			executionOrder: ctx.executionOrder,
+			rootTimestamp: ctx.rootTimestamp,
+		},
+	}
+}
@@ -0,0 +1,7 @@
+export function match(value: string) {
+	return /^[0-9a-f]{6}$/i.test(value)
+}
+
+export function parse(value: string) {
+	return `#${value.toLowerCase()}`
+}
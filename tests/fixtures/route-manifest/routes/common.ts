@@ -0,0 +1,8 @@
+import { defineMiddleware } from 'pounce-board/server'
+
+export const middleware = [
+	defineMiddleware<{ requestId: string }>(async (ctx, next) => {
+		ctx.requestId = crypto.randomUUID()
+		return next()
+	}),
+]
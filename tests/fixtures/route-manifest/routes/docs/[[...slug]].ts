@@ -0,0 +1,8 @@
+import type { RequestContext } from 'pounce-board/server'
+
+export async function get(ctx: RequestContext) {
+	return {
+		status: 200,
+		data: { slug: ctx.params.slug as string | undefined },
+	}
+}
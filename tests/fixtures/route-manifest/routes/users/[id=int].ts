@@ -0,0 +1,12 @@
+import type { RequestContext } from 'pounce-board/server'
+
+export async function get(ctx: RequestContext & { query: { fields?: string } }) {
+	return {
+		status: 200,
+		data: { id: ctx.params.id as number, fields: ctx.query.fields },
+	}
+}
+
+export async function del(_ctx: RequestContext) {
+	return { status: 204 }
+}
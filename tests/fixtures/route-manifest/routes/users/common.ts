@@ -0,0 +1,10 @@
+import { defineMiddleware } from 'pounce-board/server'
+
+export const middleware = {
+	POST: [
+		defineMiddleware<{ user: { id: number; name: string } }>(async (ctx, next) => {
+			ctx.user = { id: 1, name: 'Ada' }
+			return next()
+		}),
+	],
+}
@@ -0,0 +1,15 @@
+import type { RequestContext } from 'pounce-board/server'
+
+export async function get(_ctx: RequestContext) {
+	return {
+		status: 200,
+		data: [{ id: 1, name: 'Ada' }],
+	}
+}
+
+export async function post(ctx: RequestContext & { body: { name: string } }) {
+	return {
+		status: 201,
+		data: { id: 2, name: ctx.body.name },
+	}
+}
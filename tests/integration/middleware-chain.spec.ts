@@ -6,6 +6,7 @@
  * 2. Multiple `common.ts` files merge correctly
  * 3. Context mutations propagate through the chain
  * 4. Handlers receive all context additions from ancestor middleware
+ * 5. `reset`, `exclude`, per-method and route-local middleware resolve in order
  */
 
 import * as path from 'node:path'
@@ -143,4 +144,45 @@ describe('Middleware Chain Integration', () => {
 			expect(userDetailMatch!.middlewareStack).toHaveLength(3)
 		})
 	})
+
+	describe('Inheritance Controls', () => {
+		const run = async (url: string, method = 'GET') => {
+			const tree = await buildRouteTree(FIXTURE_ROUTES)
+			const match = matchRoute(new URL(url).pathname, tree, method)
+			expect(match).not.toBeNull()
+			const request = new Request(url, { method })
+			const response = await runMiddlewares(
+				match!.middlewareStack,
+				{ request, params: match!.params },
+				match!.handler!
+			)
+			return (await response.json()).executionOrder
+		}
+
+		it('should skip the middleware of a common.ts excluding the route', async () => {
+			expect(await run('http://localhost/api/health')).toEqual(['root'])
+			// Siblings are not excluded
+			expect(await run('http://localhost/api')).toEqual(['root', 'api'])
+		})
+
+		it('should not inherit ancestor middleware below a reset common.ts', async () => {
+			expect(await run('http://localhost/public')).toEqual(['public'])
+		})
+
+		it('should run every-method middleware, then per-method, then route-local', async () => {
+			expect(await run('http://localhost/api/items')).toEqual([
+				'root',
+				'api',
+				'items',
+				'items-local',
+			])
+			expect(await run('http://localhost/api/items', 'POST')).toEqual([
+				'root',
+				'api',
+				'items',
+				'items-write',
+				'items-local',
+			])
+		})
+	})
 })
@@ -1,7 +1,12 @@
 import * as fs from 'node:fs/promises'
 import * as path from 'node:path'
 import { describe, expect, it, afterEach, beforeEach, vi } from 'vitest'
-import { createPounceMiddleware, clearRouteTreeCache } from '../../src/adapters/hono.js'
+import {
+	createPounceMiddleware,
+	clearRouteTreeCache,
+	updateRouteTreeCache,
+} from '../../src/adapters/hono.js'
+import { buildRouteTree, matchRoute, updateRouteTree } from '../../src/lib/router/index.js'
 import { Hono } from 'hono'
 
 const TEST_ROUTES_DIR = path.resolve(import.meta.dirname, '../../sandbox/hmr-test-routes')
@@ -91,4 +96,164 @@ describe('Route HMR Integration', () => {
 		expect(res3.status).toBe(200)
 		expect(mockImport.mock.calls.length).toBeGreaterThan(callCountAfterFirst)
 	})
+
+	describe('incremental updates', () => {
+		// Modules served by the mocked importer, keyed by path relative to the routes directory
+		let modules: Record<string, any>
+		const importFn = vi.fn(async (p: string) => modules[path.relative(TEST_ROUTES_DIR, p)])
+		const write = async (file: string, module: any) => {
+			modules[file] = module
+			await fs.mkdir(path.dirname(path.join(TEST_ROUTES_DIR, file)), { recursive: true })
+			await fs.writeFile(path.join(TEST_ROUTES_DIR, file), '')
+		}
+		const remove = async (file: string) => {
+			delete modules[file]
+			await fs.rm(path.join(TEST_ROUTES_DIR, file))
+		}
+		const handler = (data: string) => ({ get: () => ({ status: 200, data }) })
+
+		beforeEach(async () => {
+			modules = { 'index.ts': handler('home') }
+			importFn.mockClear()
+		})
+
+		it('should re-import only the changed file', async () => {
+			await write('users/index.ts', handler('users'))
+			const tree = await buildRouteTree(TEST_ROUTES_DIR, importFn)
+			importFn.mockClear()
+
+			modules['users/index.ts'] = handler('updated')
+			expect(
+				await updateRouteTree(tree, 'change', path.join(TEST_ROUTES_DIR, 'users/index.ts'))
+			).toBe(true)
+
+			expect(importFn).toHaveBeenCalledTimes(1)
+			expect(importFn).toHaveBeenCalledWith(path.join(TEST_ROUTES_DIR, 'users/index.ts'))
+			const match = matchRoute('/users', tree)
+			expect(
+				await match?.handler?.({ request: new Request('http://localhost/users'), params: {} })
+			).toEqual({
+				status: 200,
+				data: 'updated',
+			})
+		})
+
+		it('should add and remove routes', async () => {
+			const tree = await buildRouteTree(TEST_ROUTES_DIR, importFn)
+
+			await write('posts/[id]/index.ts', handler('post'))
+			await updateRouteTree(tree, 'add', path.join(TEST_ROUTES_DIR, 'posts/[id]/index.ts'))
+			expect(matchRoute('/posts/1', tree)?.params).toEqual({ id: '1' })
+
+			await write('about.tsx', { default: () => null })
+			await updateRouteTree(tree, 'add', path.join(TEST_ROUTES_DIR, 'about.tsx'))
+			expect(matchRoute('/about', tree)?.component).toBeDefined()
+
+			await remove('about.tsx')
+			await updateRouteTree(tree, 'unlink', path.join(TEST_ROUTES_DIR, 'about.tsx'))
+			expect(matchRoute('/about', tree)).toBeNull()
+			expect(tree.children.has('about')).toBe(false)
+		})
+
+		it('should apply middleware and layouts to the subtree of a changed directory', async () => {
+			const Layout = () => null
+			await write('admin/users/index.ts', handler('admins'))
+			const tree = await buildRouteTree(TEST_ROUTES_DIR, importFn)
+			expect(matchRoute('/admin/users', tree)?.middlewareStack).toEqual([])
+
+			const guard = async (_ctx: any, next: () => Promise<Response>) => next()
+			await write('admin/common.ts', { middleware: [guard] })
+			await write('admin/common.tsx', { default: Layout })
+			await updateRouteTree(tree, 'add', path.join(TEST_ROUTES_DIR, 'admin/common.ts'))
+			await updateRouteTree(tree, 'add', path.join(TEST_ROUTES_DIR, 'admin/common.tsx'))
+
+			expect(matchRoute('/admin/users', tree)?.middlewareStack).toEqual([guard])
+			expect(matchRoute('/admin/users', tree)?.layouts).toEqual([Layout])
+			expect(matchRoute('/', tree)?.middlewareStack).toEqual([])
+
+			await remove('admin/common.ts')
+			await updateRouteTree(tree, 'unlink', path.join(TEST_ROUTES_DIR, 'admin/common.ts'))
+			expect(matchRoute('/admin/users', tree)?.middlewareStack).toEqual([])
+		})
+
+		it('should update the files of mounted route sources', async () => {
+			const mountDir = path.resolve(TEST_ROUTES_DIR, '../hmr-test-mount')
+			try {
+				await write('../hmr-test-mount/index.ts', handler('billing'))
+				const tree = await buildRouteTree(TEST_ROUTES_DIR, importFn, undefined, {
+					mounts: [{ prefix: '/billing', routesDir: mountDir }],
+				})
+				expect(matchRoute('/billing', tree)).not.toBeNull()
+
+				await write('../hmr-test-mount/invoices.ts', handler('invoices'))
+				expect(
+					await updateRouteTree(tree, 'add', path.join(mountDir, 'invoices.ts'))
+				).toBe(true)
+				expect(matchRoute('/billing/invoices', tree)).not.toBeNull()
+				expect(matchRoute('/invoices', tree)).toBeNull()
+			} finally {
+				await fs.rm(mountDir, { recursive: true, force: true })
+			}
+		})
+
+		it('should keep virtual routes when a conflicting file changes', async () => {
+			const virtual = async () => ({ status: 200, data: 'virtual' })
+			await write('health.ts', handler('file'))
+			const tree = await buildRouteTree(TEST_ROUTES_DIR, importFn, undefined, {
+				onDiagnostics: () => {},
+				routes: [{ path: '/health', handlers: { get: virtual } }],
+			})
+			expect(matchRoute('/health', tree)?.handler).toBe(virtual)
+
+			await updateRouteTree(tree, 'change', path.join(TEST_ROUTES_DIR, 'health.ts'))
+			expect(matchRoute('/health', tree)?.handler).toBe(virtual)
+
+			await remove('health.ts')
+			await updateRouteTree(tree, 'unlink', path.join(TEST_ROUTES_DIR, 'health.ts'))
+			expect(matchRoute('/health', tree)?.handler).toBe(virtual)
+		})
+
+		it('should restore the handlers of a conflicting file when the other is removed', async () => {
+			const onDiagnostics = vi.fn()
+			await write('users.ts', handler('named'))
+			await write('users/index.ts', handler('index'))
+			const tree = await buildRouteTree(TEST_ROUTES_DIR, importFn, undefined, { onDiagnostics })
+			expect(onDiagnostics).toHaveBeenCalledWith([
+				expect.objectContaining({ code: 'conflicting-handlers' }),
+			])
+
+			await remove('users/index.ts')
+			await updateRouteTree(tree, 'unlink', path.join(TEST_ROUTES_DIR, 'users/index.ts'))
+
+			const match = matchRoute('/users', tree)
+			expect(
+				await match?.handler?.({ request: new Request('http://localhost/users'), params: {} })
+			).toEqual({
+				status: 200,
+				data: 'named',
+			})
+			expect(onDiagnostics).toHaveBeenCalledTimes(1)
+		})
+
+		it('should not update trees built from globRoutes', async () => {
+			const tree = await buildRouteTree('/routes', undefined, {
+				'/routes/index.ts': async () => handler('home'),
+			})
+			expect(await updateRouteTree(tree, 'change', '/routes/index.ts')).toBe(false)
+		})
+
+		it('should update the tree cached by the middleware', async () => {
+			const app = new Hono()
+			app.use('*', createPounceMiddleware({ routesDir: TEST_ROUTES_DIR, importFn }))
+			expect((await app.request('http://localhost/')).status).toBe(200)
+
+			await write('new-route.ts', handler('dynamic'))
+			await updateRouteTreeCache(TEST_ROUTES_DIR, 'add', path.join(TEST_ROUTES_DIR, 'new-route.ts'))
+
+			const res = await app.request('http://localhost/new-route')
+			expect(await res.json()).toBe('dynamic')
+			// The index route was not imported again
+			expect(importFn).toHaveBeenCalledTimes(2)
+		})
+	})
 })
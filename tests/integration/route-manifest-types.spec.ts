@@ -0,0 +1,119 @@
+import { describe, expectTypeOf, it } from 'vitest'
+import type { ApiClient } from '../../src/lib/http/client.js'
+import { defineMiddleware } from '../../src/lib/http/core.js'
+import type { Session } from '../../src/lib/http/session.js'
+import type { PathParams } from '../../src/lib/router/defs.js'
+import type {
+	InferRouteMethod,
+	RouteContext,
+	RouteMethodTypes,
+} from '../../src/lib/types/manifest.js'
+
+type Users = typeof import('../fixtures/route-manifest/routes/users/index.js')
+type User = typeof import('../fixtures/route-manifest/routes/users/[id=int].js')
+type RootCommon = typeof import('../fixtures/route-manifest/routes/common.js')
+type UsersCommon = typeof import('../fixtures/route-manifest/routes/users/common.js')
+
+// As generated for tests/fixtures/route-manifest
+type Manifest = {
+	'/users': {
+		url: '/users'
+		params: PathParams<'/users'>
+		methods: { get: InferRouteMethod<Users, 'get'>; post: InferRouteMethod<Users, 'post'> }
+		middleware: [RootCommon, UsersCommon]
+	}
+	'/users/[id=int]': {
+		url: `/users/${number}`
+		params: PathParams<'/users/[id=int]'>
+		methods: { get: InferRouteMethod<User, 'get'>; del: InferRouteMethod<User, 'del'> }
+		middleware: [RootCommon, UsersCommon]
+	}
+	'/health': { url: '/health'; params: {}; methods: { get: RouteMethodTypes } }
+}
+
+declare const api: ApiClient<Manifest>
+declare const untyped: ApiClient
+
+// Calls are typed, never run
+describe('Route manifest', () => {
+	it('should type responses after the handlers', () => {
+		expectTypeOf(() => api('/users').get()).returns.resolves.toEqualTypeOf<
+			{ id: number; name: string }[]
+		>()
+		expectTypeOf(() => api('/users/42').get()).returns.resolves.toEqualTypeOf<{
+			id: number
+			fields: string | undefined
+		}>()
+		expectTypeOf(() => api('/users?page=2').get()).returns.resolves.toEqualTypeOf<
+			{ id: number; name: string }[]
+		>()
+		expectTypeOf(() => api('/health').get()).returns.resolves.toBeUnknown()
+	})
+
+	it('should type bodies and queries after the handlers', () => {
+		expectTypeOf(() => api('/users').post)
+			.returns.parameter(0)
+			.toEqualTypeOf<{ name: string }>()
+		expectTypeOf(() => api('/users/42').get)
+			.returns.parameter(0)
+			.toEqualTypeOf<{ fields?: string } | undefined>()
+	})
+
+	it('should reject paths no route answers', () => {
+		expectTypeOf(() => {
+			// @ts-expect-error no route
+			api('/nope')
+			// @ts-expect-error [id=int] only answers numbers
+			api('/users/ada')
+			api('https://example.com/nope')
+			api('./relative')
+		}).toBeFunction()
+	})
+
+	it('should leave the client untyped without manifest', () => {
+		expectTypeOf(() => untyped('/anything').get()).returns.resolves.toBeUnknown()
+		expectTypeOf(() => untyped('/anything').get<{ a: 1 }>()).returns.resolves.toEqualTypeOf<{
+			a: 1
+		}>()
+		expectTypeOf(() => untyped('/anything').post)
+			.returns.parameter(0)
+			.toBeUnknown()
+	})
+})
+
+describe('RouteContext', () => {
+	it('should type the params and the fields ancestor middleware add', () => {
+		type Get = RouteContext<'/users/[id=int]', 'GET', Manifest>
+		expectTypeOf<Get['params']>().toEqualTypeOf<{ id: number }>()
+		expectTypeOf<Get['requestId']>().toEqualTypeOf<string>()
+		expectTypeOf<Get['request']>().toEqualTypeOf<Request>()
+		expectTypeOf<RouteContext<'/users', 'POST', Manifest>['user']>().toEqualTypeOf<{
+			id: number
+			name: string
+		}>()
+		expectTypeOf<RouteContext<'/health', 'GET', Manifest>>().not.toHaveProperty('requestId')
+	})
+
+	it('should reject fields no middleware adds', () => {
+		expectTypeOf((ctx: RouteContext<'/users', 'GET', Manifest>) => {
+			// @ts-expect-error the user is only added to POST requests
+			ctx.user
+			// @ts-expect-error no middleware adds a session
+			ctx.session
+		}).toBeFunction()
+	})
+})
+
+describe('defineMiddleware', () => {
+	it('should reject fields the middleware neither adds nor reads', () => {
+		expectTypeOf(() =>
+			defineMiddleware<{ user: string }, { session: Session }>(async (ctx, next) => {
+				ctx.user = String(ctx.session?.get('user'))
+				ctx.cookies.get('theme')
+				// @ts-expect-error no middleware adds a request id
+				ctx.requestId
+				return next()
+			})
+		).toBeFunction()
+	})
+})
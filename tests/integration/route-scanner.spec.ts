@@ -1,8 +1,10 @@
 import * as path from 'node:path'
 import { describe, expect, it } from 'vitest'
-import { buildRouteTree, matchRoute } from '../../src/lib/router/index.js'
+import { buildRouteTree, clearParamMatchers, matchRoute } from '../../src/lib/router/index.js'
 
 const MINIMAL_APP_ROUTES = path.resolve(import.meta.dirname, '../consumers/minimal-app/routes')
+const OPTIONAL_CATCH_ALL_ROUTES = path.resolve(import.meta.dirname, '../fixtures/optional-catch-all/routes')
+const PARAM_MATCHERS_ROUTES = path.resolve(import.meta.dirname, '../fixtures/param-matchers/routes')
 
 describe('buildRouteTree', () => {
 	it('should scan minimal-app routes directory and build tree', async () => {
@@ -96,4 +98,30 @@ describe('buildRouteTree', () => {
 		// It should NOT be a route child
 		expect(idNode.children.has('types')).toBe(false)
 	})
+
+	it('should scan optional catch-all directories', async () => {
+		const tree = await buildRouteTree(OPTIONAL_CATCH_ALL_ROUTES)
+
+		const docsMatch = matchRoute('/docs', tree, 'GET')
+		expect(docsMatch).not.toBeNull()
+		expect(docsMatch!.params).toEqual({})
+
+		const pageMatch = matchRoute('/docs/guide/intro', tree, 'GET')
+		expect(pageMatch).not.toBeNull()
+		expect(pageMatch!.params).toEqual({ slug: 'guide/intro' })
+	})
+
+	it('should load param matchers from the sibling params directory', async () => {
+		clearParamMatchers()
+		const tree = await buildRouteTree(PARAM_MATCHERS_ROUTES)
+
+		// Built-in int matcher takes priority over the plain sibling and coerces
+		expect(matchRoute('/items/42', tree, 'GET')!.params).toEqual({ id: 42 })
+		expect(matchRoute('/items/widget', tree, 'GET')!.params).toEqual({ name: 'widget' })
+
+		// User-defined matcher from params/hex.ts
+		expect(matchRoute('/colors/FF8800', tree, 'GET')!.params).toEqual({ value: '#ff8800' })
+		expect(matchRoute('/colors/orange', tree, 'GET')).toBeNull()
+		clearParamMatchers()
+	})
 })